@@ -9,13 +9,20 @@ import {
   Post,
   Query,
   Patch,
+  Delete,
   BadRequestException,
 } from '@nestjs/common';
 import { JwtAuthGuard } from '../common/jwt-auth.guard';
 import { AdminService } from './admin.service';
 import { CreateCompanyDto } from './dto/create-company.dto';
-import { CreateLawyerDto } from './dto/create-lawyer.dto';
+import { CreateLawyerDto, LawyerPricingDto } from './dto/create-lawyer.dto';
+import { CreateLawyerConflictDto } from './dto/lawyer-conflict.dto';
+import { CreateLawyerAccountDto } from './dto/lawyer-account.dto';
 import { CreateEnquiryDto } from './dto/create-enquiry.dto';
+import { CreateClauseDto } from './dto/create-clause.dto';
+import { UpdateClauseDto } from './dto/update-clause.dto';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
+import { ImportExchangeRatesDto } from './dto/import-exchange-rates.dto';
 
 @UseGuards(JwtAuthGuard)
 @Controller('admin')
@@ -122,10 +129,124 @@ export class AdminController {
     return this.adminService.setLawyerVerified(id, true, user.id || user._id);
   }
 
+  @Patch('lawyers/:id/pricing')
+  async setLawyerPricing(@Req() req, @Param('id') id: string, @Body() body: LawyerPricingDto) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.setLawyerPricing(id, body);
+  }
+
+  @Post('lawyers/:id/conflicts')
+  async addLawyerConflict(@Req() req, @Param('id') id: string, @Body() body: CreateLawyerConflictDto) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.addLawyerConflict(id, body, user.id || user._id);
+  }
+
+  @Delete('lawyers/:id/conflicts/:flagId')
+  async removeLawyerConflict(@Req() req, @Param('id') id: string, @Param('flagId') flagId: string) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.removeLawyerConflict(id, flagId, user.id || user._id);
+  }
+
+  // portal login for the lawyer; they are emailed a link to choose a password
+  @Post('lawyers/:id/account')
+  async createLawyerAccount(@Req() req, @Param('id') id: string, @Body() body: CreateLawyerAccountDto) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.createLawyerAccount(id, body.email);
+  }
+
   @Patch('lawyers/:id/archive')
   async archiveLawyer(@Req() req, @Param('id') id: string) {
     const user = this.ensureUser(req);
     if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
     return this.adminService.archiveLawyer(id, user.id || user._id);
   }
+
+  // ------------------- Audit -------------------
+  @Get('audit')
+  async searchAudit(@Req() req, @Query() query: Record<string, string>) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    const { page = '1', limit = '50', caseId, action, actor, step, path, from, to } = query;
+    return this.adminService.searchCaseEvents(
+      { caseId, action, actorId: actor, stepNumber: step ? Number(step) : undefined, path, from, to },
+      Number(limit) || 50,
+      Number(page) || 1,
+    );
+  }
+
+  // ------------------- Clauses -------------------
+  @Get('clauses')
+  async listClauses(@Req() req, @Query('includeInactive') includeInactive?: string) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.listClauses(includeInactive === 'true');
+  }
+
+  @Get('clauses/preview/:caseId')
+  async previewClauses(@Req() req, @Param('caseId') caseId: string) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.previewClauseAssembly(caseId);
+  }
+
+  @Get('clauses/:key')
+  async getClause(@Req() req, @Param('key') key: string) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.getClauseHistory(key);
+  }
+
+  @Post('clauses')
+  async createClause(@Req() req, @Body() body: CreateClauseDto) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.createClause(body, user.id || user._id);
+  }
+
+  @Patch('clauses/:key')
+  async updateClause(@Req() req, @Param('key') key: string, @Body() body: UpdateClauseDto) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.updateClause(key, body, user.id || user._id);
+  }
+
+  @Patch('clauses/:key/deactivate')
+  async deactivateClause(@Req() req, @Param('key') key: string, @Body('changeNote') changeNote?: string) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.setClauseActive(key, false, user.id || user._id, changeNote);
+  }
+
+  @Patch('clauses/:key/activate')
+  async activateClause(@Req() req, @Param('key') key: string, @Body('changeNote') changeNote?: string) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.setClauseActive(key, true, user.id || user._id, changeNote);
+  }
+
+  // ------------------- Exchange rates -------------------
+  @Get('exchange-rates')
+  async listExchangeRates(@Req() req, @Query('currency') currency?: string, @Query('page') page = '1', @Query('limit') limit = '100') {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.listExchangeRates(currency, Number(limit) || 100, Number(page) || 1);
+  }
+
+  @Post('exchange-rates')
+  async createExchangeRate(@Req() req, @Body() body: CreateExchangeRateDto) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.upsertExchangeRate(body, user.id || user._id);
+  }
+
+  @Post('exchange-rates/import')
+  async importExchangeRates(@Req() req, @Body() body: ImportExchangeRatesDto) {
+    const user = this.ensureUser(req);
+    if (!this.isAdmin(user)) throw new BadRequestException('Admin only');
+    return this.adminService.importExchangeRates(body.csv, user.id || user._id);
+  }
 }
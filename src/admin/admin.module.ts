@@ -5,6 +5,9 @@ import { AdminService } from './admin.service';
 import { Company, CompanySchema } from './schemas/company.schema';
 import { Lawyer, LawyerSchema } from './schemas/lawyer.schema';
 import { Enquiry, EnquirySchema } from './schemas/enquiry.schema';
+import { CasesModule } from '../cases/cases.module';
+import { AgreementsModule } from '../agreements/agreements.module';
+import { CurrencyModule } from '../currency/currency.module';
 
 @Module({
   imports: [
@@ -15,6 +18,9 @@ import { Enquiry, EnquirySchema } from './schemas/enquiry.schema';
       // NOTE: User model assumed to exist elsewhere in the app
       { name: 'User', schema: undefined as any },
     ]),
+    CasesModule,
+    AgreementsModule,
+    CurrencyModule,
   ],
   controllers: [AdminController],
   providers: [AdminService],
@@ -5,7 +5,17 @@ import { Model, Types } from 'mongoose';
 import { Company, CompanyDocument } from './schemas/company.schema';
 import { Lawyer, LawyerDocument } from './schemas/lawyer.schema';
 import { Enquiry, EnquiryDocument } from './schemas/enquiry.schema';
-import { CreateLawyerDto } from './dto/create-lawyer.dto';
+import { CreateLawyerDto, LawyerPricingDto } from './dto/create-lawyer.dto';
+import { CreateLawyerConflictDto } from './dto/lawyer-conflict.dto';
+import { parsePriceText } from '../cases/lawyer-pricing';
+import { CaseAuditService, CaseEventFilter } from '../cases/case-audit.service';
+import { LawyerPortalService } from '../cases/lawyer-portal.service';
+import { ClausesService } from '../agreements/clauses.service';
+import { AgreementsService } from '../agreements/agreements.service';
+import { CreateClauseDto } from './dto/create-clause.dto';
+import { UpdateClauseDto } from './dto/update-clause.dto';
+import { CurrencyService } from '../currency/currency.service';
+import { CreateExchangeRateDto } from './dto/create-exchange-rate.dto';
 
 @Injectable()
 export class AdminService {
@@ -14,6 +24,11 @@ export class AdminService {
     @InjectModel(Company.name) private companyModel: Model<CompanyDocument>,
     @InjectModel(Lawyer.name) private lawyerModel: Model<LawyerDocument>,
     @InjectModel(Enquiry.name) private enquiryModel: Model<EnquiryDocument>,
+    private caseAudit: CaseAuditService,
+    private lawyerPortal: LawyerPortalService,
+    private clauses: ClausesService,
+    private agreements: AgreementsService,
+    private currency: CurrencyService,
   ) {}
 
   // ---------------- Users -----------------
@@ -112,6 +127,7 @@ export class AdminService {
       externalId: payload.externalId,
       name: payload.name,
       priceText: payload.priceText,
+      pricing: this.toPricing(payload.pricing) ?? parsePriceText(payload.priceText),
       avatarUrl: payload.avatarUrl,
       company: companyId,
       publicEmail: payload.publicEmail,
@@ -121,6 +137,9 @@ export class AdminService {
       website: payload.website,
       profileLink: payload.profileLink,
       address: payload.address,
+      city: payload.city,
+      region: payload.region,
+      specialisms: payload.specialisms ?? [],
       barNumber: payload.barNumber,
       notes: payload.notes,
       // do not set verified here unless you want admins to mark it explicitly
@@ -137,10 +156,92 @@ export class AdminService {
     return updated;
   }
 
+  async setLawyerPricing(id: string, pricing: LawyerPricingDto) {
+    if (!Types.ObjectId.isValid(id)) throw new BadRequestException('Invalid lawyer id');
+    const lawyer = await this.lawyerModel.findById(id).exec();
+    if (!lawyer) throw new NotFoundException('Lawyer not found');
+    lawyer.pricing = this.toPricing(pricing);
+    return lawyer.save(); // priceText is re-derived on save
+  }
+
+  private toPricing(dto?: LawyerPricingDto | null) {
+    if (!dto) return null;
+    return { basis: dto.basis, amount: dto.amount, currency: dto.currency || 'GBP', vatStatus: dto.vatStatus, estimatedHours: dto.estimatedHours ?? null };
+  }
+
+  async addLawyerConflict(id: string, dto: CreateLawyerConflictDto, actorId: string) {
+    if (!Types.ObjectId.isValid(id)) throw new BadRequestException('Invalid lawyer id');
+    if (!dto.userId && !dto.email) throw new BadRequestException('userId or email is required');
+    const flag = {
+      user: dto.userId ? new Types.ObjectId(dto.userId) : null,
+      email: dto.email ?? null,
+      reason: dto.reason.trim(),
+      recordedBy: Types.ObjectId.isValid(String(actorId)) ? new Types.ObjectId(String(actorId)) : null,
+      recordedAt: new Date(),
+    };
+    const updated = await this.lawyerModel.findByIdAndUpdate(id, { $push: { conflicts: flag } }, { new: true }).exec();
+    if (!updated) throw new NotFoundException('Lawyer not found');
+    return updated;
+  }
+
+  async removeLawyerConflict(id: string, flagId: string, actorId: string) {
+    if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(flagId)) throw new BadRequestException('Invalid id');
+    const updated = await this.lawyerModel.findByIdAndUpdate(id, { $pull: { conflicts: { _id: new Types.ObjectId(flagId) } } }, { new: true }).exec();
+    if (!updated) throw new NotFoundException('Lawyer not found');
+    return updated;
+  }
+
+  async createLawyerAccount(id: string, email?: string) {
+    return this.lawyerPortal.createAccount(id, email);
+  }
+
   async archiveLawyer(id: string, actorId: string) {
     if (!Types.ObjectId.isValid(id)) throw new BadRequestException('Invalid lawyer id');
     const updated = await this.lawyerModel.findByIdAndUpdate(id, { status: 'archived' }, { new: true }).exec();
     if (!updated) throw new NotFoundException('Lawyer not found');
     return updated;
   }
-}
\ No newline at end of file
+
+  // ---------------- Audit -----------------
+  async searchCaseEvents(filter: CaseEventFilter, limit = 50, page = 1) {
+    return this.caseAudit.search(filter, page, limit);
+  }
+
+  // ---------------- Clauses -----------------
+  async listClauses(includeInactive = false) {
+    return this.clauses.list({ includeInactive });
+  }
+
+  async getClauseHistory(key: string) {
+    return this.clauses.getHistory(key);
+  }
+
+  async createClause(dto: CreateClauseDto, actorId?: string) {
+    return this.clauses.create(dto, actorId);
+  }
+
+  async updateClause(key: string, dto: UpdateClauseDto, actorId?: string) {
+    return this.clauses.update(key, dto, actorId);
+  }
+
+  async setClauseActive(key: string, active: boolean, actorId?: string, changeNote?: string) {
+    return this.clauses.setActive(key, active, actorId, changeNote);
+  }
+
+  async previewClauseAssembly(caseId: string) {
+    return this.agreements.explainAssembly(caseId);
+  }
+
+  // ---------------- Exchange rates -----------------
+  async listExchangeRates(currency?: string, limit = 100, page = 1) {
+    return this.currency.listRates(currency, limit, page);
+  }
+
+  async upsertExchangeRate(dto: CreateExchangeRateDto, actorId?: string) {
+    return this.currency.upsertRate(dto, actorId);
+  }
+
+  async importExchangeRates(csv: string, actorId?: string) {
+    return this.currency.importCsv(csv, actorId);
+  }
+}
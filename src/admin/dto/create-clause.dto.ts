@@ -0,0 +1,79 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import {
+  CLAUSE_RULE_OPS,
+  CLAUSE_SCHEDULES,
+} from '../../agreements/schemas/clause.schema';
+import type {
+  ClauseRuleOp,
+  ClauseSchedule,
+} from '../../agreements/schemas/clause.schema';
+
+export class ClauseRuleDto {
+  @IsString()
+  @Matches(/^[\w]+(\.[\w]+)*$/, { message: 'field must be a dotted case path' })
+  field: string;
+
+  @IsOptional()
+  @IsIn(CLAUSE_RULE_OPS as unknown as string[])
+  op?: ClauseRuleOp;
+
+  @IsOptional()
+  value?: any;
+}
+
+export class CreateClauseDto {
+  @IsString()
+  @Matches(/^[a-z0-9_]+$/, {
+    message: 'key may only contain lowercase letters, digits and underscores',
+  })
+  key: string;
+
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @IsString()
+  @IsNotEmpty()
+  section: string;
+
+  @IsOptional()
+  @IsInt()
+  order?: number;
+
+  @IsOptional()
+  @IsString()
+  body?: string;
+
+  @IsOptional()
+  @IsIn([...CLAUSE_SCHEDULES, null])
+  schedule?: ClauseSchedule | null;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ClauseRuleDto)
+  rules?: ClauseRuleDto[];
+
+  @IsOptional()
+  @IsIn(['all', 'any'])
+  match?: 'all' | 'any';
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsString()
+  changeNote?: string;
+}
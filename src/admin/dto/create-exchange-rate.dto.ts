@@ -0,0 +1,25 @@
+import {
+  IsDateString,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+
+export class CreateExchangeRateDto {
+  @IsISO4217CurrencyCode()
+  currency: string;
+
+  // units of `currency` per 1 GBP
+  @IsNumber()
+  @IsPositive()
+  unitsPerGbp: number;
+
+  @IsDateString()
+  effectiveFrom: string;
+
+  @IsOptional()
+  @IsString()
+  source?: string;
+}
@@ -1,5 +1,31 @@
 
-import { IsString, IsNotEmpty, IsOptional, IsMongoId } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsMongoId, IsIn, IsInt, Min, Max, IsNumber, Matches, ValidateNested, IsArray, ArrayMaxSize, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { FEE_BASES, VAT_STATUSES } from '../../cases/lawyer-pricing';
+import type { FeeBasis, VatStatus } from '../../cases/lawyer-pricing';
+
+export class LawyerPricingDto {
+  @IsIn(FEE_BASES)
+  basis: FeeBasis;
+
+  // minor units (pence)
+  @IsInt()
+  @Min(0)
+  amount: number;
+
+  @IsOptional()
+  @Matches(/^[A-Z]{3}$/)
+  currency?: string;
+
+  @IsIn(VAT_STATUSES)
+  vatStatus: VatStatus;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1000)
+  estimatedHours?: number;
+}
 
 export class CreateLawyerDto {
   @IsString()
@@ -10,10 +36,16 @@ export class CreateLawyerDto {
   @IsNotEmpty()
   name: string;
 
+  // legacy free text; ignored when `pricing` is given
   @IsOptional()
   @IsString()
   priceText?: string;
 
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LawyerPricingDto)
+  pricing?: LawyerPricingDto;
+
   @IsOptional()
   @IsString()
   avatarUrl?: string;
@@ -51,6 +83,22 @@ export class CreateLawyerDto {
   @IsString()
   address?: string;
 
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  region?: string;
+
+  // e.g. "prenuptial agreements", "international assets"
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  specialisms?: string[];
+
   @IsOptional()
   @IsString()
   barNumber?: string;
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ImportExchangeRatesDto {
+  // CSV text: currency,unitsPerGbp,effectiveFrom[,source]
+  @IsString()
+  @IsNotEmpty()
+  csv: string;
+}
@@ -0,0 +1,8 @@
+import { IsEmail, IsOptional } from 'class-validator';
+
+// Without an email the lawyer's direct, then public address is used.
+export class CreateLawyerAccountDto {
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateClauseDto } from './create-clause.dto';
+
+// Every update is stored as a new version of the clause; the key never changes.
+export class UpdateClauseDto extends PartialType(
+  OmitType(CreateClauseDto, ['key'] as const),
+) {}
@@ -1,7 +1,13 @@
-
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { Company } from './company.schema';
+import {
+  LawyerConflictFlag,
+  LawyerConflictFlagSchema,
+  LawyerPricing,
+  LawyerPricingSchema,
+} from '../../cases/schemas/lawyer.schema';
+import { formatPriceText } from '../../cases/lawyer-pricing';
 
 export type LawyerDocument = Lawyer & Document;
 
@@ -13,6 +19,10 @@ export class Lawyer {
   @Prop({ required: true })
   name: string;
 
+  @Prop({ type: LawyerPricingSchema, default: null })
+  pricing?: LawyerPricing | null;
+
+  // display only; derived from `pricing` whenever that is set
   @Prop()
   priceText: string;
 
@@ -46,6 +56,16 @@ export class Lawyer {
   @Prop()
   address?: string;
 
+  // directory filters: where the lawyer practises and what they specialise in
+  @Prop({ type: String, trim: true })
+  city?: string;
+
+  @Prop({ type: String, trim: true })
+  region?: string;
+
+  @Prop({ type: [{ type: String, lowercase: true, trim: true }], default: [] })
+  specialisms?: string[];
+
   @Prop()
   barNumber?: string;
 
@@ -54,6 +74,12 @@ export class Lawyer {
 
   @Prop({ default: false })
   verified?: boolean;
+
+  @Prop({ type: [LawyerConflictFlagSchema], default: [] })
+  conflicts?: LawyerConflictFlag[];
 }
 
 export const LawyerSchema = SchemaFactory.createForClass(Lawyer);
+LawyerSchema.pre('validate', function () {
+  if (this.pricing) this.priceText = formatPriceText(this.pricing);
+});
@@ -0,0 +1,336 @@
+// src/agreements/agreement-content.ts
+// Formats a case's step 1-7 answers into the schedules and sections of the draft agreement.
+import type { ClauseSchedule } from './schemas/clause.schema';
+import type { AssembledClause } from './clause-engine';
+
+export interface AgreementSection {
+  heading: string;
+  paragraphs?: string[];
+  items?: string[];
+}
+
+export interface AgreementContent {
+  title: string;
+  subtitle: string;
+  partyA: string;
+  partyB: string;
+  sections: AgreementSection[];
+}
+
+const moneyFormats = new Map<string, Intl.NumberFormat>();
+
+/** Amounts without a currency are GBP, as in the step 4 disclosure entries. */
+export function formatMoney(v: any, currency?: string | null): string | null {
+  if (typeof v !== 'number' || !Number.isFinite(v)) return null;
+  const code = (currency || 'GBP').toUpperCase();
+  let fmt = moneyFormats.get(code);
+  if (!fmt) {
+    try {
+      fmt = new Intl.NumberFormat('en-GB', {
+        style: 'currency',
+        currency: code,
+        maximumFractionDigits: 2,
+      });
+    } catch {
+      return `${v} ${code}`;
+    }
+    moneyFormats.set(code, fmt);
+  }
+  return fmt.format(v);
+}
+
+/** A disclosure amount in its own currency, with the GBP equivalent if it differs. */
+function entryMoney(v: any, e: any): string | null {
+  const amount = formatMoney(v, e.currency);
+  if (!amount) return null;
+  const gbp = formatMoney(e.gbpEquivalent);
+  return gbp && amount !== gbp ? `${amount} (approximately ${gbp})` : amount;
+}
+
+export const formatDate = (v: any): string | null => {
+  if (!v) return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime())
+    ? null
+    : d.toLocaleDateString('en-GB', {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+      });
+};
+
+const join = (parts: any[], sep = ', ') =>
+  parts
+    .filter((p) => p !== undefined && p !== null && String(p).trim() !== '')
+    .join(sep);
+
+export function partyName(details: any, fallback: string): string {
+  return (
+    join([details?.firstName, details?.middleNames, details?.lastName], ' ') ||
+    fallback
+  );
+}
+
+// category flag -> [entries key, heading, entry formatter]
+const DISCLOSURE_CATEGORIES: [string, string, string, (e: any) => string][] = [
+  [
+    'separateEarnings',
+    'earningsEntries',
+    'Earnings',
+    (e) => join([e.source, entryMoney(e.amount, e), e.notes], ' - '),
+  ],
+  [
+    'separateProperties',
+    'propertyEntries',
+    'Property',
+    (e) =>
+      join(
+        [
+          join([e.addressLine1, e.addressLine2, e.townOrCity, e.postcode]),
+          entryMoney(e.value, e) && `value ${entryMoney(e.value, e)}`,
+          e.mortgageOutstanding &&
+            `mortgage outstanding ${e.mortgageOutstanding}`,
+          e.notes,
+        ],
+        ' - ',
+      ),
+  ],
+  [
+    'separateSavings',
+    'savingsEntries',
+    'Savings',
+    (e) => join([e.name, entryMoney(e.amount, e), e.notes], ' - '),
+  ],
+  [
+    'separatePensions',
+    'pensionEntries',
+    'Pensions',
+    (e) => join([e.name, entryMoney(e.value, e), e.notes], ' - '),
+  ],
+  [
+    'separateDebts',
+    'debtEntries',
+    'Debts',
+    (e) =>
+      join(
+        [e.accountOrLender, e.description, entryMoney(e.amount, e), e.notes],
+        ' - ',
+      ),
+  ],
+  [
+    'separateBusinesses',
+    'businessEntries',
+    'Businesses',
+    (e) =>
+      join(
+        [
+          e.name,
+          e.description,
+          entryMoney(e.value, e),
+          typeof e.ownershipPercentage === 'number'
+            ? `${e.ownershipPercentage}% owned`
+            : null,
+          e.explanation,
+        ],
+        ' - ',
+      ),
+  ],
+  [
+    'separateChattels',
+    'chattelEntries',
+    'Chattels',
+    (e) =>
+      join(
+        [e.description, e.registrationOrId, entryMoney(e.value, e), e.notes],
+        ' - ',
+      ),
+  ],
+  [
+    'separateOtherAssets',
+    'otherAssetEntries',
+    'Other assets',
+    (e) =>
+      join([e.provider, e.description, entryMoney(e.value, e), e.notes], ' - '),
+  ],
+];
+
+const JOINT_ITEMS: [string, string | null, string][] = [
+  ['sharedEarnings', 'sharedEarningsDetails', 'Shared earnings'],
+  [
+    'liveInRentedOrOwned',
+    null,
+    'The family home (rented or owned by one or both parties)',
+  ],
+  ['sharedSavings', null, 'Shared savings'],
+  ['sharedPensions', null, 'Shared pensions'],
+  ['sharedDebts', 'sharedDebtsDetails', 'Shared debts'],
+  ['sharedBusinesses', 'sharedBusinessesDetails', 'Shared businesses'],
+  ['sharedChattels', 'sharedChattelsDetails', 'Shared chattels'],
+  ['sharedOtherAssets', 'sharedOtherAssetsDetails', 'Other shared assets'],
+];
+
+const CIRCUMSTANCES: [string, string, string][] = [
+  ['isOnePregnant', 'isOnePregnantOverview', 'One of the parties is pregnant'],
+  [
+    'businessWorkedTogether',
+    'businessWorkedTogetherOverview',
+    'The parties work together in a business',
+  ],
+  [
+    'oneOutOfWorkOrDependent',
+    'oneOutOfWorkOverview',
+    'One party is out of work or financially dependent on the other',
+  ],
+  [
+    'familyHomeOwnedWith3rdParty',
+    'familyHome3rdPartyOverview',
+    'The family home is owned with a third party',
+  ],
+  [
+    'combinedAssetsOver3m',
+    'combinedAssetsOver3mOverview',
+    'The combined assets of the parties exceed £3m',
+  ],
+  [
+    'childFromPreviousRelationshipsLivingWithYou',
+    'childFromPreviousOverview',
+    'A child from a current or previous relationship lives with the parties',
+  ],
+];
+
+function detailLines(details: any): string[] {
+  if (!details || typeof details !== 'object') return [];
+  return Object.entries(details)
+    .filter(
+      ([k, v]) =>
+        k !== 'ui' &&
+        v !== null &&
+        v !== undefined &&
+        v !== '' &&
+        typeof v !== 'object',
+    )
+    .map(
+      ([k, v]) => `${k}: ${typeof v === 'number' ? (formatMoney(v) ?? v) : v}`,
+    );
+}
+
+function personalDetails(d: any): string[] {
+  const items = [
+    ['Full name', partyName(d, '')],
+    ['Date of birth', formatDate(d?.dateOfBirth)],
+    ['Address', d?.address],
+    ['Nationality', d?.nationality],
+    ['Domicile / residency', d?.domicileResidencyStatus],
+    ['Occupation', d?.occupation],
+    ['Annual income', formatMoney(d?.incomeGBP)],
+  ]
+    .filter(([, v]) => v)
+    .map(([k, v]) => `${k}: ${v}`);
+  return items.length ? items : ['Details not provided.'];
+}
+
+function separateAssets(d: any): string[] {
+  const items: string[] = [];
+  for (const [flag, key, label, fmt] of DISCLOSURE_CATEGORIES) {
+    const entries: any[] = Array.isArray(d?.[key]) ? d[key] : [];
+    if (!d?.[flag] && !entries.length) continue;
+    if (!entries.length) items.push(`${label}: declared, no details given`);
+    entries.forEach((e) =>
+      items.push(`${label}: ${fmt(e) || 'no details given'}`),
+    );
+  }
+  return items.length ? items : ['No separate assets or liabilities declared.'];
+}
+
+function jointAssets(s5: any): string[] {
+  const items: string[] = [];
+  for (const [flag, detailsKey, label] of JOINT_ITEMS) {
+    if (!s5[flag]) continue;
+    const details = detailsKey ? detailLines(s5[detailsKey]) : [];
+    items.push(details.length ? `${label} (${details.join('; ')})` : label);
+  }
+  return items;
+}
+
+function expectedInheritance(label: string, fi: any): string | null {
+  if (!fi || (fi.originalAmount == null && fi.gbpEquivalent == null))
+    return null;
+  const amount = formatMoney(fi.originalAmount, fi.originalCurrency);
+  return (
+    join(
+      [
+        `${label} expects a future inheritance of ${amount ?? formatMoney(fi.gbpEquivalent)}`,
+        fi.gbpEquivalent != null && amount !== formatMoney(fi.gbpEquivalent)
+          ? `approximately ${formatMoney(fi.gbpEquivalent)}`
+          : null,
+        fi.basisOfEstimate && `basis: ${fi.basisOfEstimate}`,
+      ],
+      ', ',
+    ) + '.'
+  );
+}
+
+/** Party names as used in clause placeholders (`{{partyA}}`, `{{partyB}}`). */
+export function partyNames(c: any) {
+  return {
+    partyA: partyName(c.step1, 'Party A'),
+    partyB: partyName(c.step3, 'Party B'),
+  };
+}
+
+/** The data-driven lists clauses can attach through their `schedule`. */
+export function buildSchedules(c: any): Record<ClauseSchedule, string[]> {
+  const { partyA, partyB } = partyNames(c);
+  const s6 = c.step6 ?? {};
+  const s7 = c.step7 ?? {};
+  return {
+    partyA_details: personalDetails(c.step1),
+    partyB_details: personalDetails(c.step3),
+    partyA_separate_assets: separateAssets(c.step2),
+    partyB_separate_assets: separateAssets(c.step4),
+    joint_assets: jointAssets(c.step5 ?? {}),
+    future_inheritances: [
+      expectedInheritance(partyA, s6.person1FutureInheritance),
+      expectedInheritance(partyB, s6.person2FutureInheritance),
+    ].filter((x): x is string => !!x),
+    circumstances: CIRCUMSTANCES.filter(([flag]) => s7[flag]).map(
+      ([, overview, label]) =>
+        s7[overview] ? `${label}: ${s7[overview]}` : label,
+    ),
+  };
+}
+
+/**
+ * Group assembled clauses into numbered sections, in clause order. Each clause
+ * contributes its wording as a paragraph and its schedule as bullet items.
+ */
+export function buildAgreementContent(
+  c: any,
+  clauses: AssembledClause[],
+): AgreementContent {
+  const { partyA, partyB } = partyNames(c);
+  const bySection = new Map<string, AgreementSection>();
+  for (const clause of [...clauses].sort((a, b) => a.order - b.order)) {
+    let section = bySection.get(clause.section);
+    if (!section) {
+      section = { heading: clause.section, paragraphs: [], items: [] };
+      bySection.set(clause.section, section);
+    }
+    if (clause.text.trim()) section.paragraphs!.push(clause.text);
+    section.items!.push(...clause.items);
+  }
+  const sections = Array.from(bySection.values()).map((s, idx) => ({
+    ...s,
+    heading: `${idx + 1}. ${s.heading}`,
+  }));
+  return {
+    title:
+      c.caseType === 'prenup' || !c.caseType
+        ? 'Prenuptial Agreement'
+        : 'Nuptial Agreement',
+    subtitle: `between ${partyA} and ${partyB}`,
+    partyA,
+    partyB,
+    sections,
+  };
+}
@@ -0,0 +1,213 @@
+// src/agreements/agreement-renderer.service.ts
+import { Injectable } from '@nestjs/common';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { AgreementContent } from './agreement-content';
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const BODY_SIZE = 10.5;
+const LINE_GAP = 4;
+
+export interface RenderMeta {
+  version: number;
+  generatedAt: Date;
+  caseId: string;
+}
+
+/** Small cursor-based layout helper: wraps text and breaks pages as needed. */
+class PdfCursor {
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(
+    private doc: PDFDocument,
+    private regular: PDFFont,
+    private bold: PDFFont,
+    private footer: string,
+  ) {
+    this.page = this.addPage();
+  }
+
+  heading(text: string, size = 13) {
+    this.space(10);
+    this.write(text, { font: this.bold, size });
+    this.space(2);
+  }
+
+  paragraph(text: string) {
+    this.write(text, { font: this.regular, size: BODY_SIZE });
+    this.space(4);
+  }
+
+  bullet(text: string) {
+    this.write(text, {
+      font: this.regular,
+      size: BODY_SIZE,
+      indent: 14,
+      marker: '-',
+    });
+  }
+
+  centered(text: string, size: number, bold = false) {
+    const font = bold ? this.bold : this.regular;
+    const safe = this.sanitize(text, font);
+    this.ensureRoom(size + LINE_GAP);
+    const width = font.widthOfTextAtSize(safe, size);
+    this.page.drawText(safe, {
+      x: (PAGE_WIDTH - width) / 2,
+      y: this.y - size,
+      size,
+      font,
+    });
+    this.y -= size + LINE_GAP;
+  }
+
+  space(points: number) {
+    this.y -= points;
+  }
+
+  private write(
+    text: string,
+    opts: { font: PDFFont; size: number; indent?: number; marker?: string },
+  ) {
+    const indent = opts.indent ?? 0;
+    const maxWidth = PAGE_WIDTH - MARGIN * 2 - indent;
+    const lines = this.wrap(
+      this.sanitize(text, opts.font),
+      opts.font,
+      opts.size,
+      maxWidth,
+    );
+    lines.forEach((line, idx) => {
+      this.ensureRoom(opts.size + LINE_GAP);
+      if (opts.marker && idx === 0) {
+        this.page.drawText(opts.marker, {
+          x: MARGIN + indent - 10,
+          y: this.y - opts.size,
+          size: opts.size,
+          font: opts.font,
+        });
+      }
+      this.page.drawText(line, {
+        x: MARGIN + indent,
+        y: this.y - opts.size,
+        size: opts.size,
+        font: opts.font,
+      });
+      this.y -= opts.size + LINE_GAP;
+    });
+  }
+
+  private wrap(
+    text: string,
+    font: PDFFont,
+    size: number,
+    maxWidth: number,
+  ): string[] {
+    const lines: string[] = [];
+    for (const para of text.split(/\r?\n/)) {
+      let line = '';
+      for (const word of para.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+        // a single word wider than the line is hard-split
+        let rest = word;
+        while (font.widthOfTextAtSize(rest, size) > maxWidth) {
+          let cut = rest.length - 1;
+          while (
+            cut > 1 &&
+            font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth
+          )
+            cut--;
+          lines.push(rest.slice(0, cut));
+          rest = rest.slice(cut);
+        }
+        line = rest;
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  // Standard fonts only cover WinAnsi; replace anything they cannot encode.
+  private sanitize(text: string, font: PDFFont): string {
+    return Array.from(text ?? '')
+      .map((ch) => {
+        try {
+          font.encodeText(ch);
+          return ch;
+        } catch {
+          return '?';
+        }
+      })
+      .join('');
+  }
+
+  private ensureRoom(height: number) {
+    if (this.y - height < MARGIN + 20) this.page = this.addPage();
+  }
+
+  private addPage(): PDFPage {
+    const page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    page.drawText(this.footer, {
+      x: MARGIN,
+      y: MARGIN / 2,
+      size: 8,
+      font: this.regular,
+      color: rgb(0.4, 0.4, 0.4),
+    });
+    this.y = PAGE_HEIGHT - MARGIN;
+    return page;
+  }
+}
+
+@Injectable()
+export class AgreementRendererService {
+  async render(content: AgreementContent, meta: RenderMeta): Promise<Buffer> {
+    const doc = await PDFDocument.create();
+    doc.setTitle(`${content.title} ${content.subtitle}`);
+    doc.setSubject(`Case ${meta.caseId}, draft version ${meta.version}`);
+    doc.setProducer('Wenup');
+    doc.setCreationDate(meta.generatedAt);
+    const regular = await doc.embedFont(StandardFonts.Helvetica);
+    const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+    const generated = meta.generatedAt.toISOString().slice(0, 10);
+    const cursor = new PdfCursor(
+      doc,
+      regular,
+      bold,
+      `DRAFT v${meta.version} - case ${meta.caseId} - generated ${generated}`,
+    );
+
+    cursor.centered('DRAFT', 11, true);
+    cursor.space(6);
+    cursor.centered(content.title, 20, true);
+    cursor.centered(content.subtitle, 12);
+    cursor.space(10);
+    cursor.paragraph(
+      "This document is an automatically generated draft based on the answers given by both parties. It is not legal advice and is not binding until reviewed by each party's independent lawyer and signed.",
+    );
+
+    for (const section of content.sections) {
+      cursor.heading(section.heading);
+      (section.paragraphs ?? []).forEach((p) => cursor.paragraph(p));
+      (section.items ?? []).forEach((item) => cursor.bullet(item));
+    }
+
+    cursor.heading('Signatures');
+    cursor.paragraph(
+      `Signed by ${content.partyA}: ______________________   Date: ____________`,
+    );
+    cursor.space(8);
+    cursor.paragraph(
+      `Signed by ${content.partyB}: ______________________   Date: ____________`,
+    );
+
+    return Buffer.from(await doc.save());
+  }
+}
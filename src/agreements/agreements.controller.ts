@@ -0,0 +1,93 @@
+// src/agreements/agreements.controller.ts
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Param,
+  Post,
+  Req,
+  Res,
+  StreamableFile,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { AgreementsService } from './agreements.service';
+
+@Controller('cases/:id/agreements')
+export class AgreementsController {
+  constructor(private agreementsService: AgreementsService) {}
+  private ensureUser(req: any) {
+    const user = req.user;
+    if (!user) throw new UnauthorizedException('Authentication required');
+    return user;
+  }
+  private isPrivilegedRole(role?: string) {
+    return role === 'superadmin' || role === 'admin' || role === 'case_manager';
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  async list(@Req() req, @Param('id') id: string) {
+    const user = this.ensureUser(req);
+    return this.agreementsService.list(id, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post()
+  async regenerate(@Req() req, @Param('id') id: string) {
+    const user = this.ensureUser(req);
+    if (!this.isPrivilegedRole(user.role))
+      throw new ForbiddenException(
+        'Only case managers/admins may regenerate agreements',
+      );
+    return this.agreementsService.generate(id, user.id ?? user._id, 'manual');
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get('assembly')
+  async assembly(@Req() req, @Param('id') id: string) {
+    const user = this.ensureUser(req);
+    if (!this.isPrivilegedRole(user.role))
+      throw new ForbiddenException(
+        'Only case managers/admins may inspect clause assembly',
+      );
+    return this.agreementsService.explainAssembly(id);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get('latest/download')
+  async downloadLatest(
+    @Req() req,
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = this.ensureUser(req);
+    return this.send(res, await this.agreementsService.getFile(id, user));
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':version/download')
+  async download(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('version') version: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = this.ensureUser(req);
+    return this.send(
+      res,
+      await this.agreementsService.getFile(id, user, Number(version)),
+    );
+  }
+  private send(
+    res: Response,
+    file: { fileName: string; contentType: string; content: Buffer },
+  ) {
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      length: file.content.length,
+    });
+  }
+}
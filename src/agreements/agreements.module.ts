@@ -0,0 +1,28 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  AgreementDocument,
+  AgreementDocumentSchema,
+} from './schemas/agreement-document.schema';
+import { Clause, ClauseSchema } from './schemas/clause.schema';
+import { Case, CaseSchema } from '../cases/schemas/case.schema';
+import { AgreementsService } from './agreements.service';
+import { AgreementRendererService } from './agreement-renderer.service';
+import { ClausesService } from './clauses.service';
+import { AgreementsController } from './agreements.controller';
+import { CasesModule } from '../cases/cases.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AgreementDocument.name, schema: AgreementDocumentSchema },
+      { name: Case.name, schema: CaseSchema },
+      { name: Clause.name, schema: ClauseSchema },
+    ]),
+    forwardRef(() => CasesModule),
+  ],
+  providers: [AgreementsService, AgreementRendererService, ClausesService],
+  controllers: [AgreementsController],
+  exports: [AgreementsService, ClausesService],
+})
+export class AgreementsModule {}
@@ -0,0 +1,169 @@
+// src/agreements/agreements.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import crypto from 'crypto';
+import {
+  AgreementDocument,
+  AgreementDocumentDocument,
+} from './schemas/agreement-document.schema';
+import { Case, CaseDocument } from '../cases/schemas/case.schema';
+import { AgreementRendererService } from './agreement-renderer.service';
+import { buildAgreementContent } from './agreement-content';
+import { partyOf } from '../cases/step-ownership';
+import { CaseAuditService } from '../cases/case-audit.service';
+import { ClausesService } from './clauses.service';
+
+@Injectable()
+export class AgreementsService {
+  private readonly logger = new Logger(AgreementsService.name);
+
+  constructor(
+    @InjectModel(AgreementDocument.name)
+    private agreementModel: Model<AgreementDocumentDocument>,
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    private renderer: AgreementRendererService,
+    private config: ConfigService,
+    private audit: CaseAuditService,
+    private clauses: ClausesService,
+  ) {}
+
+  private isPrivilegedRole(role?: string): boolean {
+    return role === 'superadmin' || role === 'admin' || role === 'case_manager';
+  }
+
+  private async loadCase(caseId: string): Promise<CaseDocument> {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId);
+    if (!c) throw new NotFoundException('Case not found');
+    return c;
+  }
+
+  private assertCanView(c: CaseDocument, user: any) {
+    if (this.isPrivilegedRole(user?.role)) return;
+    if (!partyOf(c, user?.id ?? user?._id))
+      throw new ForbiddenException('Forbidden');
+  }
+
+  /** Absolute download URL for a stored version, used in emails. */
+  downloadUrl(caseId: string, version: number): string {
+    const base = (
+      this.config.get<string>('API_PUBLIC_URL') ||
+      `http://localhost:${process.env.PORT || 5000}/${process.env.GLOBAL_PREFIX || 'api'}`
+    ).replace(/\/$/, '');
+    return `${base}/cases/${caseId}/agreements/${version}/download`;
+  }
+
+  /** Render the current case data to PDF and store it as the next version. */
+  async generate(caseId: string, actorId?: string | null, reason = 'manual') {
+    const c = await this.loadCase(caseId);
+    const last = await this.agreementModel
+      .findOne({ case: c._id })
+      .sort({ version: -1 })
+      .select('version')
+      .lean()
+      .exec();
+    const version = (last?.version ?? 0) + 1;
+    const generatedAt = new Date();
+    const assembly = await this.clauses.assembleForCase(c);
+    const content = buildAgreementContent(c.toObject(), assembly.included);
+    const pdf = await this.renderer.render(content, {
+      version,
+      generatedAt,
+      caseId: String(c._id),
+    });
+    const doc = await this.agreementModel.create({
+      case: c._id,
+      version,
+      fileName: `agreement-${String(c._id)}-v${version}.pdf`,
+      contentType: 'application/pdf',
+      size: pdf.length,
+      sha256: crypto.createHash('sha256').update(pdf).digest('hex'),
+      content: pdf,
+      generatedBy:
+        actorId && Types.ObjectId.isValid(actorId)
+          ? new Types.ObjectId(actorId)
+          : null,
+      reason,
+      clauses: assembly.included.map(({ key, version }) => ({ key, version })),
+    });
+    await this.audit.record({
+      caseId,
+      action: 'agreement.generated',
+      actorId: actorId ?? null,
+      meta: { version, reason, sha256: doc.sha256 },
+    });
+    this.logger.log(`Generated agreement v${version} for case ${caseId}`);
+    return this.toSummary(doc.toObject());
+  }
+
+  /** Explain which clauses the next generated version would contain. */
+  async explainAssembly(caseId: string) {
+    const c = await this.loadCase(caseId);
+    return this.clauses.assembleForCase(c);
+  }
+
+  async list(caseId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    this.assertCanView(c, user);
+    const docs = await this.agreementModel
+      .find({ case: c._id })
+      .sort({ version: -1 })
+      .lean()
+      .exec();
+    return { total: docs.length, docs: docs.map((d) => this.toSummary(d)) };
+  }
+
+  /** `version` omitted means the latest one. */
+  async getFile(caseId: string, user: any, version?: number) {
+    const c = await this.loadCase(caseId);
+    this.assertCanView(c, user);
+    const q: any = { case: c._id };
+    if (version !== undefined) {
+      if (!Number.isInteger(version) || version < 1)
+        throw new BadRequestException('Invalid version');
+      q.version = version;
+    }
+    const doc = await this.agreementModel
+      .findOne(q)
+      .sort({ version: -1 })
+      .select('+content')
+      .lean()
+      .exec();
+    if (!doc) throw new NotFoundException('Agreement document not found');
+    await this.audit.record({
+      caseId,
+      action: 'agreement.downloaded',
+      meta: { version: doc.version },
+    });
+    return {
+      fileName: doc.fileName,
+      contentType: doc.contentType,
+      content: Buffer.from((doc.content as any).buffer ?? doc.content),
+    };
+  }
+
+  private toSummary(d: any) {
+    return {
+      id: String(d._id),
+      version: d.version,
+      fileName: d.fileName,
+      contentType: d.contentType,
+      size: d.size,
+      sha256: d.sha256,
+      reason: d.reason,
+      clauses: d.clauses ?? [],
+      generatedBy: d.generatedBy ?? null,
+      createdAt: d.createdAt,
+      downloadUrl: this.downloadUrl(String(d.case), d.version),
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  ClauseTemplate,
+  assembleClauses,
+  evaluateRule,
+  renderTemplate,
+} from './clause-engine';
+
+const ctx = {
+  partyA: 'Alex Smith',
+  step1: { hasChildren: true, dateOfMarriage: '2025-06-14', income: 52000 },
+  step3: { hasChildren: false, overviewAim: '' },
+  tags: ['home'],
+};
+
+describe('evaluateRule', () => {
+  it('defaults to truthy', () => {
+    expect(evaluateRule({ field: 'step1.hasChildren' }, ctx).passed).toBe(true);
+    expect(evaluateRule({ field: 'step3.hasChildren' }, ctx).passed).toBe(
+      false,
+    );
+  });
+
+  it('compares values', () => {
+    const rule = (op: any, value?: any, field = 'step1.income') =>
+      evaluateRule({ field, op, value }, ctx).passed;
+    expect(rule('eq', 52000)).toBe(true);
+    expect(rule('ne', 52000)).toBe(false);
+    expect(rule('gt', '50000')).toBe(true);
+    expect(rule('lte', 50000)).toBe(false);
+    expect(rule('in', ['home', 'abroad'], 'tags.0')).toBe(true);
+    expect(rule('gt', 1, 'step1.hasChildren')).toBe(false);
+  });
+
+  it('tells empty from missing', () => {
+    expect(
+      evaluateRule({ field: 'step3.overviewAim', op: 'exists' }, ctx).passed,
+    ).toBe(true);
+    expect(
+      evaluateRule({ field: 'step3.overviewAim', op: 'nonEmpty' }, ctx).passed,
+    ).toBe(false);
+    expect(
+      evaluateRule({ field: 'step9.anything', op: 'exists' }, ctx).passed,
+    ).toBe(false);
+  });
+
+  it('explains the outcome', () => {
+    expect(
+      evaluateRule({ field: 'step1.income', op: 'lt', value: 100 }, ctx)
+        .explanation,
+    ).toBe('step1.income is less than 100 (actual: 52000) - not met');
+  });
+
+  it('fails unknown operators', () => {
+    const result = evaluateRule(
+      { field: 'step1.income', op: 'near' as any },
+      ctx,
+    );
+    expect(result.passed).toBe(false);
+    expect(result.explanation).toContain('unknown operator "near"');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills placeholders and applies filters', () => {
+    expect(
+      renderTemplate(
+        '{{partyA}} married on {{ step1.dateOfMarriage | date }}, earning {{step1.income|money}}.',
+        ctx,
+      ),
+    ).toEqual({
+      text: 'Alex Smith married on 14 June 2025, earning £52,000.00.',
+      missing: [],
+    });
+  });
+
+  it('marks unresolved placeholders', () => {
+    expect(renderTemplate('{{partyB}} and {{step3.overviewAim}}', ctx)).toEqual(
+      {
+        text: '[partyB] and [step3.overviewAim]',
+        missing: ['partyB', 'step3.overviewAim'],
+      },
+    );
+  });
+});
+
+describe('assembleClauses', () => {
+  const clause = (over: Partial<ClauseTemplate>): ClauseTemplate => ({
+    key: 'k',
+    version: 1,
+    title: 'Clause',
+    section: 'General',
+    body: 'Text',
+    ...over,
+  });
+
+  it('includes clauses whose rules pass, ordered', () => {
+    const { included, excluded } = assembleClauses(
+      [
+        clause({ key: 'late', order: 20 }),
+        clause({
+          key: 'children',
+          order: 10,
+          rules: [{ field: 'step1.hasChildren' }],
+          body: 'For {{partyA}}',
+        }),
+      ],
+      ctx,
+      {} as any,
+    );
+    expect(included.map((c) => c.key)).toEqual(['children', 'late']);
+    expect(included[0].text).toBe('For Alex Smith');
+    expect(included[1].reasons).toEqual([
+      'Always included (no inclusion rules)',
+    ]);
+    expect(excluded).toEqual([]);
+  });
+
+  it('excludes inactive clauses and unmet rules with reasons', () => {
+    const { included, excluded } = assembleClauses(
+      [
+        clause({ key: 'off', active: false }),
+        clause({
+          key: 'any',
+          match: 'any',
+          rules: [{ field: 'step3.hasChildren' }, { field: 'missing.path' }],
+        }),
+        clause({
+          key: 'all',
+          rules: [{ field: 'step1.hasChildren' }, { field: 'missing.path' }],
+        }),
+      ],
+      ctx,
+      {} as any,
+    );
+    expect(included).toEqual([]);
+    expect(excluded.map((c) => [c.key, c.reasons[0]])).toEqual([
+      ['off', 'Clause is inactive'],
+      ['any', 'None of the inclusion rules were met'],
+      ['all', 'Not every inclusion rule was met'],
+    ]);
+    expect(excluded[2].reasons).toHaveLength(2);
+  });
+
+  it('attaches schedule items', () => {
+    const { included } = assembleClauses(
+      [clause({ schedule: 'joint_assets' })],
+      ctx,
+      { joint_assets: ['House'] } as any,
+    );
+    expect(included[0].items).toEqual(['House']);
+  });
+});
@@ -0,0 +1,230 @@
+// src/agreements/clause-engine.ts
+// Pure rule evaluation and placeholder rendering for clause templates.
+import type { ClauseRuleOp, ClauseSchedule } from './schemas/clause.schema';
+import { formatDate, formatMoney } from './agreement-content';
+
+export interface ClauseRuleLike {
+  field: string;
+  op?: ClauseRuleOp;
+  value?: any;
+}
+
+export interface ClauseTemplate {
+  key: string;
+  version: number;
+  title: string;
+  section: string;
+  order?: number;
+  body?: string;
+  schedule?: ClauseSchedule | null;
+  rules?: ClauseRuleLike[];
+  match?: 'all' | 'any';
+  active?: boolean;
+}
+
+export interface RuleResult {
+  field: string;
+  op: ClauseRuleOp;
+  expected?: any;
+  actual: any;
+  passed: boolean;
+  explanation: string;
+}
+
+export interface AssembledClause {
+  key: string;
+  version: number;
+  title: string;
+  section: string;
+  order: number;
+  text: string;
+  items: string[];
+  reasons: string[];
+  missingPlaceholders: string[];
+}
+
+export interface ExcludedClause {
+  key: string;
+  version: number;
+  title: string;
+  reasons: string[];
+}
+
+export interface ClauseAssembly {
+  included: AssembledClause[];
+  excluded: ExcludedClause[];
+}
+
+export function getPath(obj: any, path: string): any {
+  return path
+    .split('.')
+    .reduce((cur, part) => (cur == null ? undefined : cur[part]), obj);
+}
+
+const isEmpty = (v: any) =>
+  v === undefined ||
+  v === null ||
+  (typeof v === 'string' && v.trim() === '') ||
+  (Array.isArray(v) && v.length === 0);
+
+const show = (v: any) => (v === undefined ? 'not set' : JSON.stringify(v));
+
+export function evaluateRule(rule: ClauseRuleLike, ctx: any): RuleResult {
+  const op: ClauseRuleOp = rule.op ?? 'truthy';
+  const actual = getPath(ctx, rule.field);
+  const expected = rule.value;
+  let passed: boolean;
+  let wanted: string;
+  switch (op) {
+    case 'truthy':
+      passed = !!actual;
+      wanted = 'is set';
+      break;
+    case 'falsy':
+      passed = !actual;
+      wanted = 'is not set';
+      break;
+    case 'eq':
+      passed = actual === expected;
+      wanted = `equals ${show(expected)}`;
+      break;
+    case 'ne':
+      passed = actual !== expected;
+      wanted = `does not equal ${show(expected)}`;
+      break;
+    case 'gt':
+      passed = typeof actual === 'number' && actual > Number(expected);
+      wanted = `is greater than ${show(expected)}`;
+      break;
+    case 'gte':
+      passed = typeof actual === 'number' && actual >= Number(expected);
+      wanted = `is at least ${show(expected)}`;
+      break;
+    case 'lt':
+      passed = typeof actual === 'number' && actual < Number(expected);
+      wanted = `is less than ${show(expected)}`;
+      break;
+    case 'lte':
+      passed = typeof actual === 'number' && actual <= Number(expected);
+      wanted = `is at most ${show(expected)}`;
+      break;
+    case 'in':
+      passed = Array.isArray(expected) && expected.includes(actual);
+      wanted = `is one of ${show(expected)}`;
+      break;
+    case 'exists':
+      passed = actual !== undefined && actual !== null;
+      wanted = 'is present';
+      break;
+    case 'nonEmpty':
+      passed = !isEmpty(actual);
+      wanted = 'is not empty';
+      break;
+    default:
+      passed = false;
+      wanted = `uses unknown operator "${op}"`;
+  }
+  return {
+    field: rule.field,
+    op,
+    expected,
+    actual,
+    passed,
+    explanation: `${rule.field} ${wanted} (actual: ${show(actual)}) - ${passed ? 'met' : 'not met'}`,
+  };
+}
+
+const FILTERS: Record<string, (v: any) => string | null> = {
+  money: (v) => formatMoney(v),
+  date: formatDate,
+  yesno: (v) => (v === undefined || v === null ? null : v ? 'yes' : 'no'),
+};
+
+/**
+ * Replace `{{path}}` / `{{path | filter}}` placeholders. Unresolved ones are
+ * rendered as `[path]` so gaps are visible in the draft, and reported back.
+ */
+export function renderTemplate(
+  template: string,
+  ctx: any,
+): { text: string; missing: string[] } {
+  const missing: string[] = [];
+  const text = (template ?? '').replace(
+    /\{\{\s*([\w.]+)\s*(?:\|\s*(\w+)\s*)?\}\}/g,
+    (_m, path: string, filter?: string) => {
+      const raw = getPath(ctx, path);
+      const value =
+        filter && FILTERS[filter]
+          ? FILTERS[filter](raw)
+          : isEmpty(raw) || typeof raw === 'object'
+            ? null
+            : String(raw);
+      if (value === null || value === undefined || value === '') {
+        missing.push(path);
+        return `[${path}]`;
+      }
+      return value;
+    },
+  );
+  return { text, missing };
+}
+
+/**
+ * Decide which clauses apply to a case and render them. `ctx` is the case as a
+ * plain object plus any derived values (party names, today's date) that
+ * templates may reference.
+ */
+export function assembleClauses(
+  clauses: ClauseTemplate[],
+  ctx: any,
+  schedules: Record<ClauseSchedule, string[]>,
+): ClauseAssembly {
+  const included: AssembledClause[] = [];
+  const excluded: ExcludedClause[] = [];
+  for (const clause of clauses) {
+    const base = {
+      key: clause.key,
+      version: clause.version,
+      title: clause.title,
+    };
+    if (clause.active === false) {
+      excluded.push({ ...base, reasons: ['Clause is inactive'] });
+      continue;
+    }
+    const rules = clause.rules ?? [];
+    const results = rules.map((r) => evaluateRule(r, ctx));
+    const match = clause.match ?? 'all';
+    const applies =
+      !results.length ||
+      (match === 'any'
+        ? results.some((r) => r.passed)
+        : results.every((r) => r.passed));
+    if (!applies) {
+      excluded.push({
+        ...base,
+        reasons: [
+          match === 'any'
+            ? 'None of the inclusion rules were met'
+            : 'Not every inclusion rule was met',
+          ...results.filter((r) => !r.passed).map((r) => r.explanation),
+        ],
+      });
+      continue;
+    }
+    const body = renderTemplate(clause.body ?? '', ctx);
+    const section = renderTemplate(clause.section, ctx);
+    included.push({
+      ...base,
+      section: section.text,
+      order: clause.order ?? 100,
+      text: body.text,
+      items: clause.schedule ? (schedules[clause.schedule] ?? []) : [],
+      reasons: results.length
+        ? results.filter((r) => r.passed).map((r) => r.explanation)
+        : ['Always included (no inclusion rules)'],
+      missingPlaceholders: [...new Set([...section.missing, ...body.missing])],
+    });
+  }
+  included.sort((a, b) => a.order - b.order);
+  return { included, excluded };
+}
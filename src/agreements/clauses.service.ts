@@ -0,0 +1,209 @@
+// src/agreements/clauses.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Clause, ClauseDocument } from './schemas/clause.schema';
+import {
+  ClauseAssembly,
+  ClauseTemplate,
+  assembleClauses,
+} from './clause-engine';
+import { buildSchedules, partyNames } from './agreement-content';
+import { DEFAULT_CLAUSES } from './default-clauses';
+
+// Fields that make up a clause's content; anything else on an update is ignored.
+const CLAUSE_FIELDS = [
+  'title',
+  'section',
+  'order',
+  'body',
+  'schedule',
+  'rules',
+  'match',
+  'active',
+] as const;
+
+// Case fields that clause templates and rules may reference. Anything else on
+// the case (invite credentials, tokens, populated users) never reaches them.
+const CONTEXT_FIELDS = [
+  'caseType',
+  'title',
+  'step1',
+  'step2',
+  'step3',
+  'step4',
+  'step5',
+  'step6',
+  'step7',
+  'createdAt',
+  'fullyLockedAt',
+] as const;
+
+@Injectable()
+export class ClausesService implements OnModuleInit {
+  private readonly logger = new Logger(ClausesService.name);
+
+  constructor(
+    @InjectModel(Clause.name) private clauseModel: Model<ClauseDocument>,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      if (await this.clauseModel.exists({})) return;
+      await this.clauseModel.insertMany(
+        DEFAULT_CLAUSES.map((c) => ({
+          ...c,
+          version: 1,
+          isCurrent: true,
+          changeNote: 'Initial clause library',
+        })),
+      );
+      this.logger.log(`Seeded ${DEFAULT_CLAUSES.length} default clauses`);
+    } catch (err: any) {
+      this.logger.error(`Failed to seed default clauses: ${err?.message}`);
+    }
+  }
+
+  async list(opts: { includeInactive?: boolean } = {}) {
+    const q: any = { isCurrent: true };
+    if (!opts.includeInactive) q.active = true;
+    const docs = await this.clauseModel
+      .find(q)
+      .sort({ order: 1, key: 1 })
+      .lean()
+      .exec();
+    return { total: docs.length, docs };
+  }
+
+  /** Every stored version of a clause, newest first. */
+  async getHistory(key: string) {
+    const docs = await this.clauseModel
+      .find({ key })
+      .sort({ version: -1 })
+      .lean()
+      .exec();
+    if (!docs.length) throw new NotFoundException('Clause not found');
+    return {
+      key,
+      current: docs.find((d) => d.isCurrent) ?? null,
+      versions: docs,
+    };
+  }
+
+  async create(dto: any, actorId?: string | null) {
+    if (await this.clauseModel.exists({ key: dto.key }))
+      throw new ConflictException(`Clause "${dto.key}" already exists`);
+    return this.clauseModel.create({
+      ...this.pickFields(dto),
+      key: dto.key,
+      version: 1,
+      isCurrent: true,
+      createdBy: this.toObjectId(actorId),
+      changeNote: dto.changeNote ?? null,
+    });
+  }
+
+  /**
+   * Edits never overwrite wording that may already be in a generated
+   * agreement: the change is stored as a new version which becomes current.
+   */
+  async update(key: string, dto: any, actorId?: string | null) {
+    const current = await this.clauseModel
+      .findOne({ key, isCurrent: true })
+      .lean()
+      .exec();
+    if (!current) throw new NotFoundException('Clause not found');
+    const changes = this.pickFields(dto);
+    if (!Object.keys(changes).length)
+      throw new BadRequestException('No clause fields to update');
+    const { _id, createdAt, updatedAt, __v, ...rest } = current as any;
+    // retire the current version first, so of two concurrent edits only one
+    // gets to build on it
+    const retired = await this.clauseModel
+      .findOneAndUpdate(
+        { _id: current._id, isCurrent: true },
+        { $set: { isCurrent: false } },
+      )
+      .exec();
+    if (!retired) throw this.concurrentEdit(key);
+    try {
+      return await this.clauseModel.create({
+        ...rest,
+        ...changes,
+        version: current.version + 1,
+        isCurrent: true,
+        createdBy: this.toObjectId(actorId),
+        changeNote: dto.changeNote ?? null,
+      });
+    } catch (err) {
+      await this.clauseModel
+        .updateOne({ _id: current._id }, { $set: { isCurrent: true } })
+        .exec();
+      if (err?.code === 11000) throw this.concurrentEdit(key);
+      throw err;
+    }
+  }
+
+  async setActive(
+    key: string,
+    active: boolean,
+    actorId?: string | null,
+    changeNote?: string,
+  ) {
+    return this.update(
+      key,
+      {
+        active,
+        changeNote:
+          changeNote ?? (active ? 'Clause reactivated' : 'Clause deactivated'),
+      },
+      actorId,
+    );
+  }
+
+  async currentClauses(): Promise<ClauseTemplate[]> {
+    return this.clauseModel
+      .find({ isCurrent: true })
+      .sort({ order: 1, key: 1 })
+      .lean()
+      .exec() as unknown as Promise<ClauseTemplate[]>;
+  }
+
+  /** Which clauses apply to the case, why, and their rendered wording. */
+  async assembleForCase(c: any): Promise<ClauseAssembly> {
+    const plain = typeof c?.toObject === 'function' ? c.toObject() : c;
+    const ctx: Record<string, any> = {
+      ...partyNames(plain),
+      today: new Date(),
+    };
+    for (const f of CONTEXT_FIELDS) ctx[f] = plain?.[f];
+    return assembleClauses(
+      await this.currentClauses(),
+      ctx,
+      buildSchedules(plain),
+    );
+  }
+
+  private concurrentEdit(key: string) {
+    return new ConflictException(
+      `Clause "${key}" was changed by someone else; reload and retry`,
+    );
+  }
+
+  private pickFields(dto: any) {
+    const out: any = {};
+    for (const f of CLAUSE_FIELDS) if (dto?.[f] !== undefined) out[f] = dto[f];
+    return out;
+  }
+
+  private toObjectId(id?: string | null) {
+    return id && Types.ObjectId.isValid(id) ? new Types.ObjectId(id) : null;
+  }
+}
@@ -0,0 +1,263 @@
+// src/agreements/default-clauses.ts
+// Starting clause library, seeded into an empty `clauses` collection. Admins
+// edit these through the admin clause endpoints afterwards.
+import type { ClauseTemplate } from './clause-engine';
+
+type DefaultClause = Omit<ClauseTemplate, 'version'>;
+
+const STEP5_FLAGS = [
+  'sharedEarnings',
+  'liveInRentedOrOwned',
+  'sharedSavings',
+  'sharedPensions',
+  'sharedDebts',
+  'sharedBusinesses',
+  'sharedChattels',
+  'sharedOtherAssets',
+];
+
+const STEP7_FLAGS = [
+  'isOnePregnant',
+  'businessWorkedTogether',
+  'oneOutOfWorkOrDependent',
+  'familyHomeOwnedWith3rdParty',
+  'combinedAssetsOver3m',
+  'childFromPreviousRelationshipsLivingWithYou',
+];
+
+// Joint declarations only apply when both parties ticked them.
+const bothConfirm = (flag: string) => [
+  { field: `step1.${flag}`, op: 'truthy' as const },
+  { field: `step3.${flag}`, op: 'truthy' as const },
+];
+
+export const DEFAULT_CLAUSES: DefaultClause[] = [
+  {
+    key: 'party_a_details',
+    title: 'Party A details',
+    section: '{{partyA}}',
+    order: 100,
+    schedule: 'partyA_details',
+  },
+  {
+    key: 'party_b_details',
+    title: 'Party B details',
+    section: '{{partyB}}',
+    order: 200,
+    schedule: 'partyB_details',
+  },
+  {
+    key: 'background_marriage_date',
+    title: 'Intended date of marriage',
+    section: 'Background',
+    order: 300,
+    body: 'The parties intend to marry on {{step1.dateOfMarriage | date}}.',
+    rules: [{ field: 'step1.dateOfMarriage', op: 'exists' }],
+  },
+  {
+    key: 'background_children',
+    title: 'Existing children',
+    section: 'Background',
+    order: 310,
+    body: 'The parties have, or one of them has, children.',
+    match: 'any',
+    rules: [
+      { field: 'step1.hasChildren', op: 'truthy' },
+      { field: 'step3.hasChildren', op: 'truthy' },
+    ],
+  },
+  {
+    key: 'background_aim_party_a',
+    title: "Party A's aim",
+    section: 'Background',
+    order: 320,
+    body: "{{partyA}}'s aim for this agreement: {{step1.overviewAim}}",
+    rules: [{ field: 'step1.overviewAim', op: 'nonEmpty' }],
+  },
+  {
+    key: 'background_aim_party_b',
+    title: "Party B's aim",
+    section: 'Background',
+    order: 330,
+    body: "{{partyB}}'s aim for this agreement: {{step3.overviewAim}}",
+    rules: [{ field: 'step3.overviewAim', op: 'nonEmpty' }],
+  },
+  {
+    key: 'background_living_situation',
+    title: 'Current living situation',
+    section: 'Background',
+    order: 340,
+    body: 'Current living situation: {{step1.currentLivingSituation}}',
+    rules: [{ field: 'step1.currentLivingSituation', op: 'nonEmpty' }],
+  },
+  {
+    key: 'separate_property_party_a',
+    title: 'Separate property of Party A',
+    section: 'Separate property of {{partyA}}',
+    order: 400,
+    body: 'The following assets and liabilities are declared as separate property and shall remain with this party in the event of divorce or separation.',
+    schedule: 'partyA_separate_assets',
+  },
+  {
+    key: 'separate_property_party_b',
+    title: 'Separate property of Party B',
+    section: 'Separate property of {{partyB}}',
+    order: 500,
+    body: 'The following assets and liabilities are declared as separate property and shall remain with this party in the event of divorce or separation.',
+    schedule: 'partyB_separate_assets',
+  },
+  {
+    key: 'joint_property',
+    title: 'Joint property',
+    section: 'Joint property',
+    order: 600,
+    body: 'The following shall be treated as joint property and shared between the parties in the event of divorce or separation.',
+    schedule: 'joint_assets',
+    match: 'any',
+    rules: STEP5_FLAGS.map((f) => ({ field: `step5.${f}`, op: 'truthy' })),
+  },
+  {
+    key: 'no_joint_property',
+    title: 'No joint property',
+    section: 'Joint property',
+    order: 600,
+    body: 'The parties have not declared any joint property.',
+    rules: STEP5_FLAGS.map((f) => ({ field: `step5.${f}`, op: 'falsy' })),
+  },
+  {
+    key: 'inheritance_separate',
+    title: 'Inheritance remains separate',
+    section: 'Future assets',
+    order: 700,
+    body: 'Any inheritance received by either party shall be treated as the separate property of the receiving party.',
+    rules: [{ field: 'step6.inheritanceConsideredSeparate', op: 'truthy' }],
+  },
+  {
+    key: 'inheritance_joint',
+    title: 'Inheritance becomes joint',
+    section: 'Future assets',
+    order: 700,
+    body: 'Any inheritance received by either party shall be treated as joint property.',
+    rules: [{ field: 'step6.inheritanceConsideredSeparate', op: 'falsy' }],
+  },
+  {
+    key: 'gifts_separate',
+    title: 'Gifts remain separate',
+    section: 'Future assets',
+    order: 710,
+    body: 'Any gift received by either party shall be treated as the separate property of the receiving party.',
+    rules: [{ field: 'step6.giftConsideredSeparate', op: 'truthy' }],
+  },
+  {
+    key: 'gifts_joint',
+    title: 'Gifts become joint',
+    section: 'Future assets',
+    order: 710,
+    body: 'Any gift received by either party shall be treated as joint property.',
+    rules: [{ field: 'step6.giftConsideredSeparate', op: 'falsy' }],
+  },
+  {
+    key: 'future_assets_separate',
+    title: 'Future sole-name assets are separate',
+    section: 'Future assets',
+    order: 720,
+    body: "Assets or debts acquired in either party's sole name in future shall be treated as separate.",
+    rules: [
+      { field: 'step6.futureAssetsTreatedJointOrSeparate', op: 'truthy' },
+    ],
+  },
+  {
+    key: 'future_assets_joint',
+    title: 'Future sole-name assets are joint',
+    section: 'Future assets',
+    order: 720,
+    body: "Assets or debts acquired in either party's sole name in future shall be treated as joint.",
+    rules: [{ field: 'step6.futureAssetsTreatedJointOrSeparate', op: 'falsy' }],
+  },
+  {
+    key: 'wills_aligned',
+    title: 'Wills follow the agreement',
+    section: 'Future assets',
+    order: 730,
+    body: 'The parties expect the provisions of their Wills to reflect the division set out in this agreement.',
+    rules: [{ field: 'step6.willBeSameAsDivorceSplit', op: 'truthy' }],
+  },
+  {
+    key: 'wills_not_aligned',
+    title: 'Wills independent of the agreement',
+    section: 'Future assets',
+    order: 730,
+    body: 'The parties do not expect the provisions of their Wills to mirror this agreement.',
+    rules: [{ field: 'step6.willBeSameAsDivorceSplit', op: 'falsy' }],
+  },
+  {
+    key: 'expected_inheritances',
+    title: 'Expected inheritances',
+    section: 'Future assets',
+    order: 740,
+    schedule: 'future_inheritances',
+    match: 'any',
+    rules: [
+      { field: 'step6.person1FutureInheritance', op: 'exists' },
+      { field: 'step6.person2FutureInheritance', op: 'exists' },
+    ],
+  },
+  {
+    key: 'relevant_circumstances',
+    title: 'Relevant circumstances',
+    section: 'Relevant circumstances',
+    order: 800,
+    body: 'The parties have disclosed the following circumstances, which were taken into account in preparing this agreement.',
+    schedule: 'circumstances',
+    match: 'any',
+    rules: STEP7_FLAGS.map((f) => ({ field: `step7.${f}`, op: 'truthy' })),
+  },
+  {
+    key: 'no_relevant_circumstances',
+    title: 'No relevant circumstances',
+    section: 'Relevant circumstances',
+    order: 800,
+    body: 'No additional circumstances were disclosed.',
+    rules: STEP7_FLAGS.map((f) => ({ field: `step7.${f}`, op: 'falsy' })),
+  },
+  {
+    key: 'children_departure',
+    title: 'Court may depart for children',
+    section: 'Children',
+    order: 850,
+    body: 'A court may depart from this agreement to meet the needs of any children.',
+    rules: [{ field: 'step1.court_can_depart_for_children', op: 'truthy' }],
+  },
+  {
+    key: 'declaration_platform_used',
+    title: 'Platform used',
+    section: 'Declarations',
+    order: 900,
+    body: 'Both parties confirm that they have used the Wenup platform to prepare this agreement.',
+    rules: bothConfirm('confirm_wenup_platform_used'),
+  },
+  {
+    key: 'declaration_personal_possessions',
+    title: 'Personal possessions',
+    section: 'Declarations',
+    order: 910,
+    body: 'Both parties confirm that personal possessions remain the property of the party who owns them.',
+    rules: bothConfirm('property_personal_possessions_remain'),
+  },
+  {
+    key: 'declaration_family_home_equal',
+    title: 'Family home divided equally',
+    section: 'Declarations',
+    order: 920,
+    body: 'Both parties confirm that the family home is to be divided equally.',
+    rules: bothConfirm('family_home_divided_equally'),
+  },
+  {
+    key: 'declaration_costs_shared',
+    title: 'Costs shared',
+    section: 'Declarations',
+    order: 930,
+    body: 'Both parties confirm that the costs of preparing this agreement are shared between the parties.',
+    rules: bothConfirm('agree_costs_shared'),
+  },
+];
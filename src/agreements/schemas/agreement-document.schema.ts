@@ -0,0 +1,50 @@
+// src/agreements/schemas/agreement-document.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AgreementDocumentDocument = AgreementDocument & Document;
+
+// A generated agreement PDF. Each regeneration adds a new version; old ones are kept.
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'agreement_documents',
+})
+export class AgreementDocument {
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true })
+  case: Types.ObjectId;
+
+  @Prop({ type: Number, required: true, min: 1 })
+  version: number;
+
+  @Prop({ type: String, required: true })
+  fileName: string;
+
+  @Prop({ type: String, default: 'application/pdf' })
+  contentType: string;
+
+  @Prop({ type: Number, required: true })
+  size: number;
+
+  @Prop({ type: String, required: true })
+  sha256: string;
+
+  @Prop({ type: Buffer, required: true, select: false })
+  content: Buffer;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  generatedBy: Types.ObjectId | null;
+
+  // what triggered the generation, e.g. 'case_locked' or 'manual'
+  @Prop({ type: String, default: 'manual' })
+  reason: string;
+
+  // clause versions the document was assembled from
+  @Prop({ type: [{ _id: false, key: String, version: Number }], default: [] })
+  clauses: { key: string; version: number }[];
+
+  createdAt?: Date;
+}
+
+export const AgreementDocumentSchema =
+  SchemaFactory.createForClass(AgreementDocument);
+AgreementDocumentSchema.index({ case: 1, version: -1 }, { unique: true });
@@ -0,0 +1,72 @@
+// src/agreements/schemas/clause.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export const CLAUSE_RULE_OPS = [
+  'truthy',
+  'falsy',
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'exists',
+  'nonEmpty',
+] as const;
+export type ClauseRuleOp = (typeof CLAUSE_RULE_OPS)[number];
+
+// Data-driven lists a clause can append below its wording.
+export const CLAUSE_SCHEDULES = [
+  'partyA_details',
+  'partyB_details',
+  'partyA_separate_assets',
+  'partyB_separate_assets',
+  'joint_assets',
+  'future_inheritances',
+  'circumstances',
+] as const;
+export type ClauseSchedule = (typeof CLAUSE_SCHEDULES)[number];
+
+export type ClauseDocument = Clause & Document;
+
+@Schema({ _id: false })
+export class ClauseRule {
+  /** Dotted path into the case, e.g. `step6.inheritanceConsideredSeparate`. */
+  @Prop({ type: String, required: true }) field: string;
+  @Prop({ type: String, enum: CLAUSE_RULE_OPS, default: 'truthy' })
+  op: ClauseRuleOp;
+  @Prop({ type: Object, default: null }) value?: any;
+}
+export const ClauseRuleSchema = SchemaFactory.createForClass(ClauseRule);
+
+/**
+ * One version of a clause template. Editing a clause stores a new version under
+ * the same `key`; only the version flagged `isCurrent` is used for assembly.
+ */
+@Schema({ timestamps: true, collection: 'clauses' })
+export class Clause {
+  @Prop({ type: String, required: true, index: true }) key: string;
+  @Prop({ type: Number, required: true, min: 1 }) version: number;
+  @Prop({ type: Boolean, default: true, index: true }) isCurrent: boolean;
+  @Prop({ type: String, required: true }) title: string;
+  /** Section heading the clause is rendered under; `{{placeholders}}` allowed. */
+  @Prop({ type: String, required: true }) section: string;
+  @Prop({ type: Number, default: 100 }) order: number;
+  /** Clause wording with `{{path}}` / `{{path | money}}` placeholders. */
+  @Prop({ type: String, default: '' }) body: string;
+  @Prop({ type: String, enum: [...CLAUSE_SCHEDULES, null], default: null })
+  schedule?: ClauseSchedule | null;
+  @Prop({ type: [ClauseRuleSchema], default: [] }) rules: ClauseRule[];
+  @Prop({ type: String, enum: ['all', 'any'], default: 'all' }) match:
+    | 'all'
+    | 'any';
+  @Prop({ type: Boolean, default: true }) active: boolean;
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  createdBy?: Types.ObjectId | null;
+  @Prop({ type: String, default: null }) changeNote?: string | null;
+}
+
+export const ClauseSchema = SchemaFactory.createForClass(Clause);
+ClauseSchema.index({ key: 1, version: 1 }, { unique: true });
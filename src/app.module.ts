@@ -6,6 +6,12 @@ import { AuthModule } from './auth/auth.module';
 import { CasesModule } from './cases/cases.module';
 import { MailModule } from './mail/mail.module';
 import { AdminModule } from './admin/admin.module';
+import { AgreementsModule } from './agreements/agreements.module';
+import { CurrencyModule } from './currency/currency.module';
+import { CommentsModule } from './comments/comments.module';
+import { DocumentsModule } from './documents/documents.module';
+import { SigningModule } from './signing/signing.module';
+import { PaymentsModule } from './payments/payments.module';
 
 @Module({
   imports: [
@@ -18,6 +24,12 @@ import { AdminModule } from './admin/admin.module';
     CasesModule,
     MailModule,
     AdminModule,
+    AgreementsModule,
+    CurrencyModule,
+    CommentsModule,
+    DocumentsModule,
+    SigningModule,
+    PaymentsModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,140 @@
+// src/cases/case-audit.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CaseEvent, CaseEventDocument } from './schemas/case-event.schema';
+import { getRequestIp, getRequestUser } from '../common/request-context';
+import { changedPaths } from '../common/object-diff';
+
+export interface CaseEventInput {
+  caseId: string | Types.ObjectId;
+  action: string;
+  actorId?: string | Types.ObjectId | null;
+  actorRole?: string | null;
+  stepNumber?: number | null;
+  paths?: string[];
+  before?: any;
+  after?: any;
+  meta?: any;
+}
+
+export interface CaseEventFilter {
+  caseId?: string;
+  action?: string;
+  actorId?: string;
+  stepNumber?: number;
+  path?: string;
+  from?: string;
+  to?: string;
+}
+
+@Injectable()
+export class CaseAuditService {
+  private readonly logger = new Logger(CaseAuditService.name);
+
+  constructor(
+    @InjectModel(CaseEvent.name)
+    private caseEventModel: Model<CaseEventDocument>,
+  ) {}
+
+  /**
+   * Append an event. Actor and IP default to the current request. When
+   * `paths` is omitted they are derived from `before`/`after`. Never throws:
+   * a failed audit write is logged rather than failing the mutation.
+   */
+  async record(input: CaseEventInput): Promise<void> {
+    try {
+      const reqUser = getRequestUser();
+      const actorId = input.actorId ?? reqUser?.id ?? reqUser?._id ?? null;
+      const sameAsRequestUser =
+        actorId &&
+        reqUser &&
+        String(reqUser.id ?? reqUser._id) === String(actorId);
+      const before = this.toPlain(input.before);
+      const after = this.toPlain(input.after);
+      await this.caseEventModel.create({
+        case: new Types.ObjectId(String(input.caseId)),
+        action: input.action,
+        actor:
+          actorId && Types.ObjectId.isValid(String(actorId))
+            ? new Types.ObjectId(String(actorId))
+            : null,
+        actorRole:
+          input.actorRole ?? (sameAsRequestUser ? reqUser.role : null) ?? null,
+        stepNumber: input.stepNumber ?? null,
+        paths: input.paths ?? changedPaths(before, after),
+        before: before ?? null,
+        after: after ?? null,
+        ip: getRequestIp(),
+        meta: input.meta ?? null,
+      });
+    } catch (err) {
+      this.logger.error(
+        `Failed to record case event ${input.action} for case ${String(input.caseId)}`,
+        err as any,
+      );
+    }
+  }
+
+  async listForCase(
+    caseId: string,
+    filter: CaseEventFilter,
+    page = 1,
+    limit = 50,
+  ) {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    return this.search({ ...filter, caseId }, page, limit);
+  }
+
+  async search(filter: CaseEventFilter, page = 1, limit = 50) {
+    const q: Record<string, any> = {};
+    if (filter.caseId) {
+      if (!Types.ObjectId.isValid(filter.caseId))
+        throw new BadRequestException('Invalid case id');
+      q.case = new Types.ObjectId(filter.caseId);
+    }
+    if (filter.actorId) {
+      if (!Types.ObjectId.isValid(filter.actorId))
+        throw new BadRequestException('Invalid actor id');
+      q.actor = new Types.ObjectId(filter.actorId);
+    }
+    if (filter.action) q.action = filter.action;
+    if (filter.stepNumber) q.stepNumber = filter.stepNumber;
+    if (filter.path) {
+      const escaped = filter.path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      q.paths = { $regex: `^${escaped}` };
+    }
+    if (filter.from || filter.to) {
+      q.createdAt = {};
+      if (filter.from) q.createdAt.$gte = this.parseDate(filter.from, 'from');
+      if (filter.to) q.createdAt.$lte = this.parseDate(filter.to, 'to');
+    }
+    const safeLimit = Math.min(Math.max(limit, 1), 200);
+    const skip = (Math.max(page, 1) - 1) * safeLimit;
+    const [docs, total] = await Promise.all([
+      this.caseEventModel
+        .find(q)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(safeLimit)
+        .lean()
+        .exec(),
+      this.caseEventModel.countDocuments(q).exec(),
+    ]);
+    return { total, page: Math.max(page, 1), limit: safeLimit, docs };
+  }
+
+  private parseDate(value: string, name: string): Date {
+    const d = new Date(value);
+    if (Number.isNaN(d.getTime()))
+      throw new BadRequestException(`Invalid "${name}" date`);
+    return d;
+  }
+
+  private toPlain(value: any) {
+    if (value === undefined || value === null) return value;
+    if (typeof value.toObject === 'function') return value.toObject();
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -0,0 +1,24 @@
+// src/cases/case-manager.controller.ts
+import { Controller, Get, Param, Post, Req, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { Roles } from '../common/roles.decorator';
+import { RolesGuard } from '../common/roles.guard';
+import { CaseQueueService } from './case-queue.service';
+
+@Controller('case-manager')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CaseManagerController {
+  constructor(private queue: CaseQueueService) {}
+
+  @Roles('admin', 'superadmin', 'case_manager')
+  @Get('queue')
+  async getQueue(@Req() req) {
+    return this.queue.queueFor(String(req.user.id));
+  }
+
+  @Roles('admin', 'superadmin', 'case_manager')
+  @Post('queue/:id/claim')
+  async claim(@Req() req, @Param('id') id: string) {
+    return this.queue.claim(id, String(req.user.id), req.user.role);
+  }
+}
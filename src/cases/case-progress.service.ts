@@ -0,0 +1,356 @@
+// src/cases/case-progress.service.ts
+import { Injectable } from '@nestjs/common';
+import { StepPayloadService } from './step-payload.service';
+import {
+  CaseParty,
+  StepOwnershipPolicy,
+  canReadStep,
+  policyFor,
+  stepsFilledBy,
+} from './step-ownership';
+import {
+  CaseLockState,
+  awaitingResubmission,
+  caseLockState,
+} from './step-locks';
+import type { ChangeRequestSummary } from './change-request.service';
+import type { IntroductionStatus } from './schemas/case.schema';
+
+export const STEP_LABELS: Record<number, string> = {
+  1: 'Personal details',
+  2: 'Finances',
+  3: 'Partner personal details',
+  4: 'Partner finances',
+  5: 'Joint assets',
+  6: 'Future assets',
+  7: 'Finalise & submit',
+};
+
+export type NextActionCode =
+  | 'accept_invitation'
+  | 'complete_step'
+  | 'respond_to_change_request'
+  | 'wait_for_partner'
+  | 'wait_for_case_manager'
+  | 'approve_case'
+  | 'wait_for_approvals'
+  | 'submit_pre_questionnaire'
+  | 'select_lawyer'
+  | 'done';
+
+export interface NextAction {
+  code: NextActionCode;
+  label: string;
+  stepNumber?: number;
+}
+
+export interface StepProgress {
+  stepNumber: number;
+  label: string;
+  submitted: boolean;
+  submittedAt: Date | null;
+  locked: boolean;
+  /** Reopened by a step unlock and not yet submitted again. */
+  reopened: boolean;
+  unlockReason: string | null;
+  openChangeRequests: number;
+  hasDraft: boolean;
+  /** Required fields still empty; null when the viewer may not read the step. */
+  missingFields: string[] | null;
+}
+
+export interface PartyProgress {
+  party: CaseParty;
+  joined: boolean;
+  requiredSteps: StepProgress[];
+  stepsSubmitted: number;
+  percentComplete: number;
+  preQuestionnaire: {
+    submitted: boolean;
+    submittedAt: Date | null;
+    locked: boolean;
+  };
+  lawyerSelection: {
+    selected: boolean;
+    lawyerId: string | null;
+    selectedAt: Date | null;
+    /** The lawyer's response; after a decline or expiry `selected` is false again. */
+    introduction: {
+      status: IntroductionStatus;
+      expiresAt: Date | null;
+      respondedAt: Date | null;
+      declineReason: string | null;
+    } | null;
+  };
+  approval: { approved: boolean; approvedAt: Date | null };
+  /** Open and responded change requests addressed to this party. */
+  changeRequests: ChangeRequestSummary[];
+  nextAction: NextAction;
+}
+
+export interface CaseProgress {
+  caseId: string;
+  workflowStatus: string;
+  fullyLocked: boolean;
+  lockState: CaseLockState;
+  parties: Record<CaseParty, PartyProgress>;
+  approvals: {
+    user1: boolean;
+    user2: boolean;
+    lawyer: boolean;
+    caseManager: boolean;
+  };
+  /** The four pre-lawyer tasks shown in participant emails. */
+  tasks: {
+    number: number;
+    party: CaseParty;
+    kind: 'pre_questionnaire' | 'lawyer_selection';
+    done: boolean;
+  }[];
+}
+
+/** Who is looking; decides whether private steps' missing fields are shown. */
+export interface ProgressViewer {
+  party: CaseParty | null;
+  privileged: boolean;
+}
+
+const PRE_QUESTIONNAIRE_KEY: Record<CaseParty, string> = {
+  owner: 'preQuestionnaireUser1',
+  invited: 'preQuestionnaireUser2',
+};
+
+/**
+ * Single source for "how far along is this case": the progress endpoint and
+ * the pre-lawyer task list in notification emails both read from here.
+ */
+@Injectable()
+export class CaseProgressService {
+  constructor(private stepPayloads: StepPayloadService) {}
+
+  compute(
+    c: any,
+    viewer: ProgressViewer = { party: null, privileged: true },
+    changeRequests: ChangeRequestSummary[] = [],
+  ): CaseProgress {
+    const policy = policyFor(c.caseType);
+    const approval = c.approval ?? {};
+    const build = (party: CaseParty) =>
+      this.partyProgress(
+        c,
+        party,
+        policy,
+        viewer,
+        changeRequests.filter((r) => r.targetParty === party),
+      );
+    const parties = { owner: build('owner'), invited: build('invited') };
+    this.resolveNextActions(c, parties);
+    return {
+      caseId: String(c._id),
+      workflowStatus: c.workflowStatus || 'DRAFT',
+      fullyLocked: !!c.fullyLocked,
+      lockState: caseLockState(c),
+      parties,
+      approvals: {
+        user1: !!approval.user1Approved,
+        user2: !!approval.user2Approved,
+        lawyer: !!approval.lawyerApproved,
+        caseManager: !!approval.caseManagerApproved,
+      },
+      tasks: (['owner', 'invited'] as CaseParty[]).flatMap((party, idx) => [
+        {
+          number: idx * 2 + 1,
+          party,
+          kind: 'pre_questionnaire' as const,
+          done: parties[party].preQuestionnaire.submitted,
+        },
+        {
+          number: idx * 2 + 2,
+          party,
+          kind: 'lawyer_selection' as const,
+          done: parties[party].lawyerSelection.selected,
+        },
+      ]),
+    };
+  }
+
+  /** "Task 1 - <name> Pre-Lawyer Questionnaire / Status: ..." blocks for emails. */
+  taskLines(
+    progress: CaseProgress,
+    names: Record<CaseParty, string>,
+  ): string[] {
+    return progress.tasks.map(
+      (t) =>
+        `Task ${t.number} - ${names[t.party]} ${t.kind === 'pre_questionnaire' ? 'Pre-Lawyer Questionnaire' : 'Lawyer Selection'}\n\nStatus: ${t.done ? 'COMPLETED' : 'PENDING'}`,
+    );
+  }
+
+  private partyProgress(
+    c: any,
+    party: CaseParty,
+    policy: StepOwnershipPolicy,
+    viewer: ProgressViewer,
+    changeRequests: ChangeRequestSummary[],
+  ): PartyProgress {
+    const status = c.status ?? {};
+    const drafts = c.stepDrafts ?? {};
+    const requiredSteps = stepsFilledBy(policy, party).map((n) => {
+      const s = status[`step${n}`] ?? {};
+      const draft = drafts[`step${n}`];
+      const readable =
+        viewer.privileged || canReadStep(policy, n, viewer.party);
+      // an unsubmitted step is judged on its draft when there is one
+      const data = !s.submitted && draft ? draft : c[`step${n}`];
+      return {
+        stepNumber: n,
+        label: STEP_LABELS[n] ?? `Step ${n}`,
+        submitted: !!s.submitted,
+        submittedAt: s.submittedAt ?? null,
+        locked: !!s.locked,
+        reopened: awaitingResubmission(c, n),
+        unlockReason: s.unlockReason ?? null,
+        openChangeRequests: changeRequests.filter(
+          (r) => r.stepNumber === n && r.status === 'open',
+        ).length,
+        hasDraft: !!draft,
+        missingFields: readable
+          ? this.stepPayloads.missingRequiredFields(n, data).map((e) => e.field)
+          : null,
+      };
+    });
+    const stepsSubmitted = requiredSteps.filter((s) => s.submitted).length;
+    const pq = c[PRE_QUESTIONNAIRE_KEY[party]] ?? {};
+    const approval = c.approval ?? {};
+    const approved =
+      party === 'owner' ? approval.user1Approved : approval.user2Approved;
+    return {
+      party,
+      joined: party === 'owner' ? !!c.owner : !!c.invitedUser,
+      requiredSteps,
+      stepsSubmitted,
+      percentComplete: requiredSteps.length
+        ? Math.round((stepsSubmitted / requiredSteps.length) * 100)
+        : 100,
+      preQuestionnaire: {
+        submitted: !!pq.submitted,
+        submittedAt: pq.submittedAt ?? null,
+        locked: !!pq.locked,
+      },
+      lawyerSelection: {
+        selected: !!pq.selectedLawyer,
+        lawyerId: pq.selectedLawyer
+          ? String(pq.selectedLawyer._id ?? pq.selectedLawyer)
+          : null,
+        selectedAt: pq.selectedAt ?? null,
+        introduction: pq.introduction
+          ? {
+              status: pq.introduction.status,
+              expiresAt: pq.introduction.expiresAt ?? null,
+              respondedAt: pq.introduction.respondedAt ?? null,
+              declineReason: pq.introduction.declineReason ?? null,
+            }
+          : null,
+      },
+      approval: {
+        approved: !!approved,
+        approvedAt:
+          (party === 'owner'
+            ? approval.user1ApprovedAt
+            : approval.user2ApprovedAt) ?? null,
+      },
+      changeRequests,
+      nextAction: { code: 'done', label: 'Nothing left to do' },
+    };
+  }
+
+  // Mirrors the order the case moves through: steps, case manager review,
+  // approvals, pre-lawyer questionnaire, then lawyer selection.
+  private resolveNextActions(
+    c: any,
+    parties: Record<CaseParty, PartyProgress>,
+  ) {
+    const workflowStatus = c.workflowStatus || 'DRAFT';
+    const bothApproved =
+      parties.owner.approval.approved && parties.invited.approval.approved;
+    for (const party of ['owner', 'invited'] as CaseParty[]) {
+      const me = parties[party];
+      const other = parties[party === 'owner' ? 'invited' : 'owner'];
+      const pending = me.requiredSteps.filter(
+        (s) => !s.submitted || s.reopened,
+      );
+      const otherPending = other.requiredSteps.some(
+        (s) => !s.submitted || s.reopened,
+      );
+      const requested = me.changeRequests.find((r) => r.status === 'open');
+      let next: NextAction;
+      if (!me.joined) {
+        next = {
+          code: 'accept_invitation',
+          label: 'Accept the invitation to join the case',
+        };
+      } else if (requested) {
+        next = {
+          code: 'respond_to_change_request',
+          label: `Update ${STEP_LABELS[requested.stepNumber] ?? `Step ${requested.stepNumber}`} as requested by your case manager`,
+          stepNumber: requested.stepNumber,
+        };
+      } else if (pending.length) {
+        // step 7 can only be submitted once the partner has finished theirs
+        const onlyFinalLeft =
+          pending.length === 1 && pending[0].stepNumber === 7;
+        next =
+          onlyFinalLeft && (otherPending || !other.joined)
+            ? {
+                code: 'wait_for_partner',
+                label: 'Wait for your partner to complete their steps',
+              }
+            : {
+                code: 'complete_step',
+                label: `${pending[0].reopened ? 'Review and resubmit' : 'Complete'} ${pending[0].label}`,
+                stepNumber: pending[0].stepNumber,
+              };
+      } else if (otherPending) {
+        next = {
+          code: 'wait_for_partner',
+          label: 'Wait for your partner to complete their steps',
+        };
+      } else if (!c.fullyLocked) {
+        next = {
+          code: 'wait_for_case_manager',
+          label: 'Wait for the case to be locked for review',
+        };
+      } else if (
+        workflowStatus !== 'LAWYER' &&
+        !me.preQuestionnaire.submitted
+      ) {
+        next = !me.approval.approved
+          ? { code: 'approve_case', label: 'Review and approve the agreement' }
+          : bothApproved
+            ? {
+                code: 'wait_for_case_manager',
+                label: 'Wait for your case manager to approve the case',
+              }
+            : {
+                code: 'wait_for_approvals',
+                label: 'Wait for your partner to approve the agreement',
+              };
+      } else if (!me.preQuestionnaire.submitted) {
+        next = {
+          code: 'submit_pre_questionnaire',
+          label: 'Submit the pre-lawyer questionnaire',
+        };
+      } else if (!other.preQuestionnaire.submitted) {
+        next = {
+          code: 'wait_for_partner',
+          label:
+            'Wait for your partner to submit their pre-lawyer questionnaire',
+        };
+      } else if (!me.lawyerSelection.selected) {
+        next = { code: 'select_lawyer', label: 'Select your lawyer' };
+      } else {
+        next = { code: 'done', label: 'Nothing left to do' };
+      }
+      me.nextAction = next;
+    }
+  }
+}
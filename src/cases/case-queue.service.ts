@@ -0,0 +1,188 @@
+// src/cases/case-queue.service.ts
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { Case, CaseDocument } from './schemas/case.schema';
+import { CaseProgressService } from './case-progress.service';
+import { CasesService } from './cases.service';
+import type { CaseParty } from './step-ownership';
+
+export type QueueBucket =
+  | 'assignedToMe'
+  | 'unassigned'
+  | 'awaitingApproval'
+  | 'stalled';
+
+export interface QueueItem {
+  id: string;
+  title: string;
+  workflowStatus: string;
+  owner: any;
+  invitedUser: any;
+  invitedEmail: string | null;
+  assignedCaseManager: any;
+  createdAt: Date;
+  updatedAt: Date;
+  /** When the case entered its current workflow state. */
+  waitingSince: Date;
+  ageDays: number;
+  approvals: { user1: boolean; user2: boolean; caseManager: boolean };
+  /** Set on stalled cases: who the case is waiting on and for what. */
+  stalled?: { waitingOn: CaseParty; nextAction: string; idleDays: number };
+}
+
+const USER_FIELDS = 'firstName lastName email';
+// the list view; step answers are only loaded for stall checks
+const QUEUE_FIELDS = {
+  title: 1,
+  workflowStatus: 1,
+  owner: 1,
+  invitedUser: 1,
+  invitedEmail: 1,
+  assignedCaseManager: 1,
+  approval: 1,
+  createdAt: 1,
+  updatedAt: 1,
+  workflowHistory: { $slice: -1 },
+};
+const PROGRESS_FIELDS = '-inviteCredentials -inviteToken -workflowHistory';
+const DAY_MS = 24 * 3600 * 1000;
+// actions that mean the party has nothing to do right now
+const IDLE_ACTIONS = [
+  'wait_for_partner',
+  'wait_for_case_manager',
+  'wait_for_approvals',
+  'done',
+];
+
+@Injectable()
+export class CaseQueueService {
+  constructor(
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    private config: ConfigService,
+    private progress: CaseProgressService,
+    private cases: CasesService,
+  ) {}
+
+  private get stallDays(): number {
+    return Number(this.config.get('CASE_STALL_DAYS') || 7);
+  }
+
+  /**
+   * The caller's work: their own cases, unclaimed cases in review, and of
+   * their own cases those waiting only on a case manager's approval or where
+   * one partner has not acted for CASE_STALL_DAYS. Each bucket is oldest first.
+   */
+  async queueFor(managerId: string) {
+    if (!Types.ObjectId.isValid(managerId))
+      throw new BadRequestException('Invalid manager id');
+    const me = new Types.ObjectId(managerId);
+    const docs = await this.caseModel
+      .find({
+        $or: [
+          { assignedCaseManager: me },
+          { assignedCaseManager: null, workflowStatus: 'CM' },
+        ],
+      })
+      .select(QUEUE_FIELDS)
+      .populate([
+        { path: 'owner', select: USER_FIELDS },
+        { path: 'invitedUser', select: USER_FIELDS },
+        { path: 'assignedCaseManager', select: USER_FIELDS },
+      ])
+      .lean()
+      .exec();
+
+    const now = Date.now();
+    const buckets: Record<QueueBucket, QueueItem[]> = {
+      assignedToMe: [],
+      unassigned: [],
+      awaitingApproval: [],
+      stalled: [],
+    };
+    const idle: QueueItem[] = [];
+    for (const c of docs as any[]) {
+      const item = this.toItem(c, now);
+      if (!c.assignedCaseManager) {
+        buckets.unassigned.push(item);
+        continue;
+      }
+      buckets.assignedToMe.push(item);
+      const a = c.approval ?? {};
+      if (a.user1Approved && a.user2Approved && !a.caseManagerApproved)
+        buckets.awaitingApproval.push(item);
+      if (this.idleDays(c, now) >= this.stallDays) idle.push(item);
+    }
+    if (idle.length) {
+      const full = await this.caseModel
+        .find({ _id: { $in: idle.map((i) => new Types.ObjectId(i.id)) } })
+        .select(PROGRESS_FIELDS)
+        .lean()
+        .exec();
+      for (const c of full as any[]) {
+        const stalled = this.stalledParty(c, now);
+        const item = idle.find((i) => i.id === String(c._id));
+        if (stalled && item) buckets.stalled.push({ ...item, stalled });
+      }
+    }
+    for (const list of Object.values(buckets))
+      list.sort((x, y) => x.waitingSince.getTime() - y.waitingSince.getTime());
+    const counts = Object.fromEntries(
+      Object.entries(buckets).map(([k, v]) => [k, v.length]),
+    ) as Record<QueueBucket, number>;
+    return { generatedAt: new Date(now), counts, buckets };
+  }
+
+  /** Take an unassigned case in review; fails with 409 if another manager got there first. */
+  async claim(caseId: string, managerId: string, role: string) {
+    return this.cases.claimCase(caseId, managerId, role);
+  }
+
+  private toItem(c: any, now: number): QueueItem {
+    const lastTransition = (c.workflowHistory ?? []).at(-1)?.at;
+    const waitingSince = new Date(lastTransition ?? c.createdAt ?? now);
+    const a = c.approval ?? {};
+    return {
+      id: String(c._id),
+      title: c.title,
+      workflowStatus: c.workflowStatus || 'DRAFT',
+      owner: c.owner ?? null,
+      invitedUser: c.invitedUser ?? null,
+      invitedEmail: c.invitedEmail ?? null,
+      assignedCaseManager: c.assignedCaseManager ?? null,
+      createdAt: c.createdAt,
+      updatedAt: c.updatedAt,
+      waitingSince,
+      ageDays: Math.floor((now - waitingSince.getTime()) / DAY_MS),
+      approvals: {
+        user1: !!a.user1Approved,
+        user2: !!a.user2Approved,
+        caseManager: !!a.caseManagerApproved,
+      },
+    };
+  }
+
+  private idleDays(c: any, now: number): number {
+    return Math.floor(
+      (now - new Date(c.updatedAt ?? c.createdAt ?? now).getTime()) / DAY_MS,
+    );
+  }
+
+  // A case is stalled when exactly one partner has something to do and the
+  // case has not changed for longer than the stall threshold.
+  private stalledParty(c: any, now: number): QueueItem['stalled'] | null {
+    const idleDays = this.idleDays(c, now);
+    if (idleDays < this.stallDays) return null;
+    const { parties } = this.progress.compute(c);
+    const acting = (['owner', 'invited'] as CaseParty[]).filter(
+      (p) => !IDLE_ACTIONS.includes(parties[p].nextAction.code),
+    );
+    if (acting.length !== 1) return null;
+    return {
+      waitingOn: acting[0],
+      nextAction: parties[acting[0]].nextAction.label,
+      idleDays,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+// src/cases/case-revision.ts
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Model } from 'mongoose';
+import { CaseDocument } from './schemas/case.schema';
+
+/** Weak ETag for a case revision; the step GETs share the case's revision. */
+export function caseEtag(revision?: number | null): string {
+  return `W/"${revision ?? 0}"`;
+}
+
+/**
+ * Revision the client expects, from an `If-Match` header. Returns undefined
+ * when the header is absent or `*` (no precondition).
+ */
+export function parseIfMatch(header?: string | string[]): number | undefined {
+  const raw = Array.isArray(header) ? header[0] : header;
+  if (!raw || raw.trim() === '*') return undefined;
+  const value = raw.trim().replace(/^W\//, '').replace(/"/g, '');
+  const revision = Number(value);
+  if (!Number.isInteger(revision) || revision < 0)
+    throw new BadRequestException('Invalid If-Match header');
+  return revision;
+}
+
+function conflict(currentRevision: number | null) {
+  return new ConflictException({
+    statusCode: 409,
+    message: 'Case has been modified since it was loaded; reload and retry',
+    currentRevision,
+    etag: currentRevision === null ? null : caseEtag(currentRevision),
+  });
+}
+
+/** Fail fast when the client's If-Match is already stale against the loaded case. */
+export function assertRevision(c: CaseDocument, expected?: number): void {
+  if (expected !== undefined && expected !== (c.revision ?? 0))
+    throw conflict(c.revision ?? 0);
+}
+
+/**
+ * Persist only the modified paths of a loaded case with a single atomic
+ * update, guarded by its revision. Throws 409 if the case changed in the
+ * meantime. Returns the stored case as a fresh document; callers must carry
+ * on with that one, since `c` still holds its pending changes.
+ */
+export async function saveCaseChanges(
+  model: Model<CaseDocument>,
+  c: CaseDocument,
+  expectedRevision?: number,
+): Promise<CaseDocument> {
+  const expected = expectedRevision ?? c.revision ?? 0;
+  await c.validate();
+  const changes: any = c.getChanges() ?? {};
+  if (changes instanceof Error) throw changes;
+  if (changes.$set) delete changes.$set.revision;
+  if (!Object.keys(changes).some((op) => Object.keys(changes[op] ?? {}).length))
+    return c;
+  const update = { ...changes, $inc: { ...(changes.$inc ?? {}), revision: 1 } };
+  const filter =
+    expected === 0
+      ? { _id: c._id, $or: [{ revision: 0 }, { revision: { $exists: false } }] }
+      : { _id: c._id, revision: expected };
+  const saved = await model
+    .findOneAndUpdate(filter, update, { new: true })
+    .exec();
+  if (!saved) {
+    const current = await model
+      .findById(c._id)
+      .select('revision')
+      .lean()
+      .exec();
+    throw conflict(current ? ((current as any).revision ?? 0) : null);
+  }
+  return saved;
+}
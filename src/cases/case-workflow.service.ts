@@ -0,0 +1,471 @@
+// src/cases/case-workflow.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  Case,
+  CaseDocument,
+  StepStatus,
+  WorkflowStatus,
+} from './schemas/case.schema';
+import { MailService } from '../mail/mail.service';
+import { CaseAuditService } from './case-audit.service';
+import { saveCaseChanges } from './case-revision';
+import { LawyersService } from './lawyer.service';
+
+export interface WorkflowActor {
+  id: string | Types.ObjectId | null;
+  role: string;
+}
+
+type WorkflowGuardName =
+  | 'all_steps_submitted'
+  | 'all_approvals_present'
+  | 'pre_questionnaires_submitted';
+
+type WorkflowEffectName =
+  | 'lock_case'
+  | 'unlock_steps'
+  | 'reset_pre_questionnaires'
+  | 'notify_case_managers'
+  | 'notify_pre_lawyer'
+  | 'notify_paid'
+  | 'notify_first_phase_completed';
+
+export interface WorkflowTransition {
+  name: string;
+  label: string;
+  from: WorkflowStatus[];
+  to: WorkflowStatus;
+  roles: string[];
+  guards: WorkflowGuardName[];
+  effects: WorkflowEffectName[];
+}
+
+const PRIVILEGED_ROLES = ['superadmin', 'admin', 'case_manager'];
+const PARTICIPANT_ROLES = ['end_user'];
+// automated actors, e.g. a confirmed payment webhook
+const SYSTEM_ROLES = ['system'];
+
+const GUARD_DESCRIPTIONS: Record<WorkflowGuardName, string> = {
+  all_steps_submitted: 'All seven steps must be submitted',
+  all_approvals_present:
+    'Both partners and the case manager must have approved the case',
+  pre_questionnaires_submitted:
+    'Both partners must have submitted their pre-lawyer questionnaire',
+};
+
+// Order matters: when several transitions lead to the same target, the first
+// one whose guards pass is used by transitionTo().
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  {
+    name: 'start_review',
+    label: 'Start case manager review',
+    from: ['DRAFT'],
+    to: 'CM',
+    roles: PRIVILEGED_ROLES,
+    guards: ['all_steps_submitted'],
+    effects: [],
+  },
+  {
+    name: 'mark_paid',
+    label: 'Mark as paid and reopen for edits',
+    from: ['CM'],
+    to: 'PAID',
+    roles: [...PRIVILEGED_ROLES, ...SYSTEM_ROLES],
+    guards: [],
+    effects: ['unlock_steps', 'reset_pre_questionnaires', 'notify_paid'],
+  },
+  {
+    name: 'open_lawyer_selection',
+    label: 'Open lawyer selection',
+    from: ['CM', 'PAID'],
+    to: 'LAWYER',
+    roles: [...PARTICIPANT_ROLES, ...PRIVILEGED_ROLES],
+    guards: ['all_steps_submitted', 'all_approvals_present'],
+    effects: ['lock_case', 'notify_pre_lawyer'],
+  },
+  {
+    name: 'complete_pre_lawyer',
+    label: 'Complete pre-lawyer questionnaires',
+    from: ['LAWYER'],
+    to: 'CM',
+    roles: [...PARTICIPANT_ROLES, ...PRIVILEGED_ROLES],
+    guards: ['pre_questionnaires_submitted'],
+    effects: ['notify_first_phase_completed', 'notify_case_managers'],
+  },
+  {
+    name: 'return_to_case_manager',
+    label: 'Return to case manager',
+    from: ['PAID', 'LAWYER'],
+    to: 'CM',
+    roles: PRIVILEGED_ROLES,
+    guards: [],
+    effects: ['notify_case_managers'],
+  },
+];
+
+@Injectable()
+export class CaseWorkflowService {
+  private readonly logger = new Logger(CaseWorkflowService.name);
+
+  constructor(
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    private config: ConfigService,
+    private mailService: MailService,
+    private audit: CaseAuditService,
+    private lawyers: LawyersService,
+  ) {}
+
+  currentStatus(c: CaseDocument): WorkflowStatus {
+    return (c.workflowStatus || 'DRAFT') as WorkflowStatus;
+  }
+
+  findTransition(name: string): WorkflowTransition {
+    const t = WORKFLOW_TRANSITIONS.find((x) => x.name === name);
+    if (!t)
+      throw new BadRequestException(`Unknown workflow transition "${name}"`);
+    return t;
+  }
+
+  /** True when `name` could be applied right now by `actor`. */
+  canApply(c: CaseDocument, name: string, actor: WorkflowActor): boolean {
+    const t = this.findTransition(name);
+    return (
+      t.from.includes(this.currentStatus(c)) &&
+      t.roles.includes(actor.role) &&
+      this.failingGuards(c, t).length === 0
+    );
+  }
+
+  /** Names of the guards of `t` that the case does not currently satisfy. */
+  failingGuards(c: CaseDocument, t: WorkflowTransition): WorkflowGuardName[] {
+    return t.guards.filter((g) => !this.checkGuard(c, g));
+  }
+
+  /**
+   * Apply a named transition: checks source state, role and guards, runs the
+   * state-changing effects, appends a history entry and saves the case.
+   * Notification effects run after the save and never fail the transition.
+   */
+  async apply(
+    c: CaseDocument,
+    name: string,
+    actor: WorkflowActor,
+    reason?: string | null,
+  ): Promise<CaseDocument> {
+    const t = this.findTransition(name);
+    const from = this.currentStatus(c);
+    if (!t.from.includes(from)) {
+      throw new BadRequestException(
+        `Transition "${t.name}" is not allowed from ${from}`,
+      );
+    }
+    if (!t.roles.includes(actor.role)) {
+      throw new ForbiddenException(
+        `Role "${actor.role}" may not trigger transition "${t.name}"`,
+      );
+    }
+    const failing = this.failingGuards(c, t);
+    if (failing.length) {
+      throw new BadRequestException(
+        `Cannot move case to ${t.to}: ${failing.map((g) => GUARD_DESCRIPTIONS[g]).join('; ')}`,
+      );
+    }
+
+    const actorObjId = this.toObjectId(actor.id);
+    for (const effect of t.effects)
+      this.applyStateEffect(c, effect, actorObjId, reason ?? t.label);
+    c.workflowStatus = t.to;
+    c.workflowHistory = c.workflowHistory || [];
+    c.workflowHistory.push({
+      transition: t.name,
+      from,
+      to: t.to,
+      actor: actorObjId,
+      actorRole: actor.role,
+      reason: reason ?? null,
+      at: new Date(),
+    });
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({
+      caseId: c._id as Types.ObjectId,
+      action: 'workflow.transition',
+      actorId: actorObjId,
+      actorRole: actor.role,
+      before: { workflowStatus: from },
+      after: { workflowStatus: t.to },
+      meta: { transition: t.name, effects: t.effects, reason: reason ?? null },
+    });
+
+    for (const effect of t.effects) {
+      try {
+        await this.runNotificationEffect(c, effect);
+      } catch (err) {
+        this.logger.error(
+          `Workflow effect ${effect} failed for case ${c._id}`,
+          err,
+        );
+      }
+    }
+    return c;
+  }
+
+  /**
+   * Move the case to `target` using the first declared transition that the
+   * actor may trigger from the current state and whose guards pass.
+   */
+  async transitionTo(
+    c: CaseDocument,
+    target: WorkflowStatus,
+    actor: WorkflowActor,
+    reason?: string | null,
+  ): Promise<CaseDocument> {
+    const from = this.currentStatus(c);
+    const candidates = WORKFLOW_TRANSITIONS.filter(
+      (t) => t.to === target && t.from.includes(from),
+    );
+    if (!candidates.length) {
+      throw new BadRequestException(
+        `No workflow transition from ${from} to ${target}`,
+      );
+    }
+    const permitted = candidates.filter((t) => t.roles.includes(actor.role));
+    if (!permitted.length) {
+      throw new ForbiddenException(
+        `Role "${actor.role}" may not move a case from ${from} to ${target}`,
+      );
+    }
+    const ready = permitted.find((t) => !this.failingGuards(c, t).length);
+    return this.apply(c, (ready ?? permitted[0]).name, actor, reason);
+  }
+
+  /** Workflow history plus the transitions that can be taken from the current state. */
+  describe(c: CaseDocument, actor: WorkflowActor) {
+    const from = this.currentStatus(c);
+    const availableTransitions = WORKFLOW_TRANSITIONS.filter((t) =>
+      t.from.includes(from),
+    ).map((t) => {
+      const failing = this.failingGuards(c, t);
+      const permitted = t.roles.includes(actor.role);
+      return {
+        name: t.name,
+        label: t.label,
+        from,
+        to: t.to,
+        permitted,
+        ready: failing.length === 0,
+        available: permitted && failing.length === 0,
+        blockedBy: failing.map((g) => GUARD_DESCRIPTIONS[g]),
+      };
+    });
+    const history = (c.workflowHistory || []).map((h) => ({
+      transition: h.transition,
+      from: h.from,
+      to: h.to,
+      actor: h.actor ? h.actor.toString() : null,
+      actorRole: h.actorRole,
+      reason: h.reason,
+      at: h.at,
+    }));
+    return {
+      caseId: c._id?.toString(),
+      workflowStatus: from,
+      history,
+      availableTransitions,
+    };
+  }
+
+  private checkGuard(c: CaseDocument, guard: WorkflowGuardName): boolean {
+    switch (guard) {
+      case 'all_steps_submitted': {
+        for (let i = 1; i <= 7; i++) {
+          const s = (c.status as any)?.[`step${i}`];
+          if (!s || !s.submitted) return false;
+        }
+        return true;
+      }
+      case 'all_approvals_present': {
+        const a = c.approval;
+        return !!(
+          a &&
+          a.user1Approved &&
+          a.user2Approved &&
+          a.caseManagerApproved
+        );
+      }
+      case 'pre_questionnaires_submitted':
+        return !!(
+          c.preQuestionnaireUser1?.submitted &&
+          c.preQuestionnaireUser2?.submitted
+        );
+      default:
+        return false;
+    }
+  }
+
+  private applyStateEffect(
+    c: CaseDocument,
+    effect: WorkflowEffectName,
+    actorObjId: Types.ObjectId | null,
+    reason: string,
+  ) {
+    const now = new Date();
+    switch (effect) {
+      case 'lock_case':
+        c.fullyLocked = true;
+        c.fullyLockedBy = actorObjId;
+        c.fullyLockedAt = now;
+        return;
+      case 'unlock_steps': {
+        c.fullyLocked = false;
+        c.fullyLockedBy = null;
+        c.fullyLockedAt = null;
+        c.status = c.status || {};
+        for (let i = 1; i <= 7; i++) {
+          const sk = `step${i}`;
+          const statusAny = c.status as any;
+          if (!statusAny[sk]) statusAny[sk] = {};
+          const s = statusAny[sk] as StepStatus;
+          s.locked = false;
+          s.lockedBy = null;
+          s.lockedAt = null;
+          s.unlockedBy = actorObjId;
+          s.unlockedAt = now;
+          s.unlockReason = reason;
+        }
+        return;
+      }
+      case 'reset_pre_questionnaires':
+        for (const pq of [c.preQuestionnaireUser1, c.preQuestionnaireUser2]) {
+          if (!pq) continue;
+          pq.submitted = false;
+          pq.submittedBy = null;
+          pq.submittedAt = null;
+        }
+        return;
+      default:
+        return;
+    }
+  }
+
+  private async runNotificationEffect(
+    c: CaseDocument,
+    effect: WorkflowEffectName,
+  ) {
+    switch (effect) {
+      case 'notify_case_managers':
+        return this.notifyCaseManagersOfNewCmCase(c);
+      case 'notify_pre_lawyer':
+        return this.notifyUsersToCompletePreLawyer(c);
+      case 'notify_paid':
+        return this.notifyUsersCaseMovedToPaid(c);
+      case 'notify_first_phase_completed': {
+        const populated = await this.caseModel
+          .findById(c._id)
+          .populate('owner invitedUser')
+          .exec();
+        return this.mailService.sendFirstPhaseCompletedForCase(populated);
+      }
+      default:
+        return;
+    }
+  }
+
+  private toObjectId(id: WorkflowActor['id']): Types.ObjectId | null {
+    if (!id) return null;
+    if (id instanceof Types.ObjectId) return id;
+    return Types.ObjectId.isValid(id) ? new Types.ObjectId(id) : null;
+  }
+
+  private async participantEmails(c: CaseDocument): Promise<string[]> {
+    const populated = await this.caseModel
+      .findById(c._id)
+      .populate('owner invitedUser')
+      .exec();
+    const recipients: string[] = [];
+    if ((populated as any)?.owner?.email)
+      recipients.push((populated as any).owner.email);
+    if ((populated as any)?.invitedUser?.email)
+      recipients.push((populated as any).invitedUser.email);
+    else if (c.invitedEmail) recipients.push(c.invitedEmail);
+    return Array.from(new Set(recipients)).filter(Boolean);
+  }
+
+  private async sendToAll(recipients: string[], subject: string, body: string) {
+    for (const to of recipients) {
+      try {
+        await this.mailService.sendMail(to, subject, body);
+      } catch (err) {
+        this.logger.error(`Could not send "${subject}" to ${to}`, err);
+      }
+    }
+  }
+
+  private async notifyCaseManagersOfNewCmCase(c: CaseDocument) {
+    try {
+      await this.mailService.sendCaseManagerIntimation(c);
+      return;
+    } catch (err) {
+      this.logger.warn(
+        `Case manager intimation failed for case ${c._id}; mailing CASE_MANAGER_EMAILS instead: ${err}`,
+      );
+    }
+    const env = this.config.get('CASE_MANAGER_EMAILS') || '';
+    const emails = (env as string)
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    const subject = `New case ready for Case Manager — ${c._id}`;
+    const body = `A case has reached the Case Manager stage.
+
+Case: ${c._id}
+Title: ${(c as any).title ?? 'N/A'}
+
+Please login to the platform to review and manage this case.
+`;
+    await this.sendToAll(emails, subject, body);
+  }
+
+  private async notifyUsersToCompletePreLawyer(c: CaseDocument) {
+    const recipients = await this.participantEmails(c);
+    const rates = await this.lawyers.ratesSummary();
+    const subject = `Next steps — please complete pre-lawyer questionnaire and select a lawyer`;
+    const body = `Hi,
+
+Thank you both for your emails.
+
+To move forward, could you each please access the platform, complete the pre-lawyer questionnaire, and select your lawyers?
+
+${rates ? `${rates}\n\n` : ''}Each of you needs to select a different lawyer, and your lawyers cannot work at the same law firm. This ensures that both of you will receive independent legal advice. Please note, you will each need to complete all 4 steps in the process before you are connected to your lawyers.
+
+If you have any questions or need further assistance with these steps, please don’t hesitate to reach out.
+
+Best wishes,
+
+Your Case Manager
+`;
+    await this.sendToAll(recipients, subject, body);
+  }
+
+  private async notifyUsersCaseMovedToPaid(c: CaseDocument) {
+    const recipients = await this.participantEmails(c);
+    const subject = `Case moved to PAID — please re-open pre-questionnaire`;
+    const body = `Hi,
+
+Your case ${c._id} has been moved to 'Paid' by the Case Manager. This means the pre-lawyer questionnaire statuses have been reset and you can now update your answers.
+
+Please login to the platform and edit your pre-lawyer questionnaire and required steps.
+
+Regards,
+Wenup
+`;
+    await this.sendToAll(recipients, subject, body);
+  }
+}
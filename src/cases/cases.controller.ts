@@ -1,13 +1,21 @@
 // src/cases/cases.controller.ts
-import { Body, Controller, ForbiddenException, Get, Param, Post, Req, UseGuards, BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Body, Controller, Delete, ForbiddenException, Get, Headers, Param, Post, Put, Query, Req, Res, UseGuards, BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { JwtAuthGuard } from '../common/jwt-auth.guard';
 import { CasesService } from './cases.service';
+import type { ApprovalKey } from './cases.service';
 import { CreateCaseDto } from './dto/create-case.dto';
 import { LawyersService } from './lawyer.service';
+import type { LawyerDirectoryFilter } from './lawyer.service';
+import type { FeeBasis, VatStatus } from './lawyer-pricing';
+import { LawyerEligibilityService } from './lawyer-eligibility.service';
+import { partyOf } from './step-ownership';
+import type { CaseParty } from './step-ownership';
+import { caseEtag, parseIfMatch } from './case-revision';
+import type { Response } from 'express';
 
 @Controller('cases')
 export class CasesController {
-  constructor(private casesService: CasesService, private lawyersService: LawyersService) {}
+  constructor(private casesService: CasesService, private lawyersService: LawyersService, private lawyerEligibility: LawyerEligibilityService) {}
   private ensureUser(req: any) {
     const user = req.user;
     if (!user) throw new UnauthorizedException('Authentication required');
@@ -25,21 +33,27 @@ export class CasesController {
   }
   @UseGuards(JwtAuthGuard)
   @Get()
-  async list(@Req() req) {
+  async list(@Req() req, @Query() query: Record<string, string>) {
     const user = this.ensureUser(req);
     const isPrivileged = this.isPrivilegedRole(user.role);
     if (isPrivileged) {
-      return this.casesService.findAll();
+      const { page = '1', limit = '25', sort = '-updatedAt', q, workflowStatus, assignedCaseManager, fullyLocked, createdFrom, createdTo, updatedFrom, updatedTo, approved, notApproved, lawyerId } = query;
+      const list = (v?: string) => (v ? v.split(',').map((x) => x.trim()).filter(Boolean) : undefined);
+      return this.casesService.searchCases(
+        { q, workflowStatus: list(workflowStatus), assignedCaseManager: assignedCaseManager === 'me' ? user.id : assignedCaseManager, fullyLocked: fullyLocked === undefined ? undefined : fullyLocked === 'true', createdFrom, createdTo, updatedFrom, updatedTo, approved: list(approved) as ApprovalKey[], notApproved: list(notApproved) as ApprovalKey[], lawyerId },
+        Number(page) || 1,
+        Number(limit) || 25,
+        sort,
+      );
     }
     return this.casesService.findByUser(user.id);
   }
   @UseGuards(JwtAuthGuard)
   @Get(':id')
-  async findById(@Req() req, @Param('id') id: string) {
+  async findById(@Req() req, @Param('id') id: string, @Res({ passthrough: true }) res: Response) {
     const user = this.ensureUser(req);
-    const c = await this.casesService.findById(id, true);
-    if (!c) throw new NotFoundException('Case not found');
-   
+    const c = await this.casesService.getCaseForUser(id, user);
+    res.setHeader('ETag', caseEtag(c.revision));
     return c;
   }
   @UseGuards(JwtAuthGuard)
@@ -63,29 +77,110 @@ export class CasesController {
   }
   @UseGuards(JwtAuthGuard)
   @Get(':id/steps/:stepNumber')
-  async getStep(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string) {
+  async getStep(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Res({ passthrough: true }) res: Response) {
     const user = this.ensureUser(req);
-    return this.casesService.getStepForUi(id, Number(stepNumberStr), user);
+    const step = await this.casesService.getStepForUi(id, Number(stepNumberStr), user);
+    res.setHeader('ETag', caseEtag(step.revision));
+    return step;
   }
   @UseGuards(JwtAuthGuard)
   @Post(':id/steps/:stepNumber')
-  async updateStep(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Body() body: any) {
+  async updateStep(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Body() body: any, @Headers('if-match') ifMatch: string, @Res({ passthrough: true }) res: Response) {
     const user = this.ensureUser(req);
     const isPrivileged = this.isPrivilegedRole(user.role);
-    const updated = await this.casesService.updateStep(id, Number(stepNumberStr), body, user.id ?? user._id, isPrivileged, user);
+    const updated = await this.casesService.updateStep(id, Number(stepNumberStr), body, user.id ?? user._id, isPrivileged, user, parseIfMatch(ifMatch));
+    res.setHeader('ETag', caseEtag(updated.revision));
     return updated;
   }
   @UseGuards(JwtAuthGuard)
+  @Get(':id/progress')
+  async getProgress(@Req() req, @Param('id') id: string) {
+    const user = this.ensureUser(req);
+    return this.casesService.getProgress(id, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/financial-summary')
+  async getFinancialSummary(@Req() req, @Param('id') id: string) {
+    const user = this.ensureUser(req);
+    return this.casesService.getFinancialSummary(id, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/steps/:stepNumber/versions')
+  async listStepVersions(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string) {
+    const user = this.ensureUser(req);
+    return this.casesService.listStepVersions(id, Number(stepNumberStr), user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/steps/:stepNumber/versions/:version')
+  async getStepVersion(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Param('version') versionStr: string) {
+    const user = this.ensureUser(req);
+    return this.casesService.getStepVersion(id, Number(stepNumberStr), Number(versionStr), user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/steps/:stepNumber/diff')
+  async diffStepVersions(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Query('from') from?: string, @Query('to') to?: string) {
+    const user = this.ensureUser(req);
+    return this.casesService.diffStepVersions(id, Number(stepNumberStr), user, from !== undefined ? Number(from) : undefined, to !== undefined ? Number(to) : undefined);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Put(':id/steps/:stepNumber/draft')
+  async saveStepDraft(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Body() body: any, @Headers('if-match') ifMatch: string, @Res({ passthrough: true }) res: Response) {
+    const user = this.ensureUser(req);
+    const saved = await this.casesService.saveStepDraft(id, Number(stepNumberStr), body, user.id ?? user._id, this.isPrivilegedRole(user.role), user, parseIfMatch(ifMatch));
+    res.setHeader('ETag', caseEtag(saved.revision));
+    return saved;
+  }
+  @UseGuards(JwtAuthGuard)
+  @Delete(':id/steps/:stepNumber/draft')
+  async discardStepDraft(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Headers('if-match') ifMatch: string, @Res({ passthrough: true }) res: Response) {
+    const user = this.ensureUser(req);
+    const result = await this.casesService.discardStepDraft(id, Number(stepNumberStr), user.id ?? user._id, this.isPrivilegedRole(user.role), parseIfMatch(ifMatch));
+    res.setHeader('ETag', caseEtag(result.revision));
+    return result;
+  }
+  @UseGuards(JwtAuthGuard)
   @Post(':id/unlock')
-  async unlockCase(@Req() req, @Param('id') id: string) {
+  async unlockCase(@Req() req, @Param('id') id: string, @Body() body: { reason?: string }) {
     const user = this.ensureUser(req);
     const isPrivileged = this.isPrivilegedRole(user.role);
     if (!isPrivileged) throw new ForbiddenException('Only privileged users may unlock cases');
-    return this.casesService.unlockCase(id, user.id);
+    return this.casesService.unlockCase(id, user.id, typeof body?.reason === 'string' ? body.reason : undefined);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/steps/:stepNumber/unlock')
+  async unlockStep(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Body() body: { reason?: string }) {
+    const user = this.ensureUser(req);
+    if (!this.isPrivilegedRole(user.role)) throw new ForbiddenException('Only privileged users may unlock steps');
+    return this.casesService.unlockStep(id, Number(stepNumberStr), body?.reason ?? '', user.id ?? user._id, user.role);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/steps/:stepNumber/lock')
+  async lockStep(@Req() req, @Param('id') id: string, @Param('stepNumber') stepNumberStr: string, @Body() body: { reason?: string }) {
+    const user = this.ensureUser(req);
+    if (!this.isPrivilegedRole(user.role)) throw new ForbiddenException('Only privileged users may lock steps');
+    return this.casesService.lockStep(id, Number(stepNumberStr), user.id ?? user._id, user.role, typeof body?.reason === 'string' ? body.reason : undefined);
+  }
+  // dry run of the independent-advice rules so the UI can grey out lawyers; staff pass ?party=owner|invited
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/lawyers/eligibility')
+  async getLawyerEligibility(@Req() req, @Param('id') id: string, @Query('party') partyParam?: string, @Query('lawyerId') lawyerId?: string) {
+    const user = this.ensureUser(req);
+    const c = await this.casesService.findById(id);
+    if (!c) throw new NotFoundException('Case not found');
+    let party: CaseParty | null = partyOf(c, user.id ?? user._id);
+    if (this.isPrivilegedRole(user.role)) {
+      if (partyParam !== 'owner' && partyParam !== 'invited') throw new BadRequestException('party must be "owner" or "invited"');
+      party = partyParam;
+    }
+    if (!party) throw new ForbiddenException('Forbidden');
+    const lawyers = await this.lawyerEligibility.forCase(c, party);
+    const filtered = lawyerId ? lawyers.filter((l) => l.lawyerId === lawyerId) : lawyers;
+    if (lawyerId && !filtered.length) throw new NotFoundException('Lawyer not found');
+    return { party, total: filtered.length, lawyers: filtered };
   }
   @UseGuards(JwtAuthGuard)
   @Get(':id/lawyers')
-  async getLawyersForCase(@Req() req, @Param('id') id: string) {
+  async getLawyersForCase(@Req() req, @Param('id') id: string, @Query() query: Record<string, string>) {
     const user = this.ensureUser(req);
     const isPrivileged = this.isPrivilegedRole(user.role);
     const c = await this.casesService.findById(id);
@@ -102,7 +197,20 @@ export class CasesController {
         throw new ForbiddenException('Lawyer listing/selection is allowed only after all steps are submitted and the case is fully locked.');
       }
     }
-    const lawyers = await this.lawyersService.listAll();
+    const { page = '1', limit = '25', sort = 'name', status, verified, company, feeBasis, vatStatus, minPrice, maxPrice, location, specialism } = query;
+    const list = (v?: string) => (v ? v.split(',').map((x) => x.trim()).filter(Boolean) : undefined);
+    const amount = (v?: string) => (v === undefined || v === '' ? undefined : Number(v));
+    const filter: LawyerDirectoryFilter = { companyId: company, feeBasis: feeBasis as FeeBasis | undefined, vatStatus: list(vatStatus) as VatStatus[] | undefined, minPrice: amount(minPrice), maxPrice: amount(maxPrice), location, specialism: list(specialism) };
+    if (isPrivileged) {
+      filter.status = list(status);
+      filter.verified = verified === undefined ? undefined : verified === 'true';
+    } else {
+      // partners only ever see lawyers they could actually select
+      filter.status = ['available'];
+      filter.verified = true;
+    }
+    const result = await this.lawyersService.search(filter, Number(page) || 1, Number(limit) || 25, sort);
+    const lawyers = result.docs;
     const p1SelectedId = c.preQuestionnaireUser1?.selectedLawyer?.toString() ?? null;
     const p2SelectedId = c.preQuestionnaireUser2?.selectedLawyer?.toString() ?? null;
     const userIdStr = (user.id ?? user._id)?.toString();
@@ -120,9 +228,12 @@ export class CasesController {
       } else if (selectedByUser2) {
         selectedBy = isInvited ? 'you' : 'partner';
       }
-      return { id: lid, externalId: l.externalId, name: l.name, priceText: l.priceText, avatarUrl: l.avatarUrl, selectedBy };
+      return { id: lid, externalId: l.externalId, name: l.name, priceText: this.lawyersService.priceTextOf(l), pricing: this.lawyersService.pricingOf(l), quote: this.lawyersService.quote(l), avatarUrl: l.avatarUrl, selectedBy };
     });
-    return { total: mapped.length, lawyers: mapped, yourSelected: isOwner ? p1SelectedId : p2SelectedId, partnerSelected: isOwner ? p2SelectedId : p1SelectedId };
+    // the selected lawyers may be filtered out of this page, so look them up directly
+    const [p1Lawyer, p2Lawyer] = await Promise.all([p1SelectedId, p2SelectedId].map((lid) => (lid ? this.lawyersService.findById(lid) : null)));
+    const caseQuote = this.lawyersService.caseQuote(p1Lawyer, p2Lawyer);
+    return { total: result.total, page: result.page, limit: result.limit, lawyers: mapped, yourSelected: isOwner ? p1SelectedId : p2SelectedId, partnerSelected: isOwner ? p2SelectedId : p1SelectedId, caseQuote };
   }
   @UseGuards(JwtAuthGuard)
   @Post('seed')
@@ -141,30 +252,38 @@ export class CasesController {
   }
   @UseGuards(JwtAuthGuard)
   @Post(':id/select-lawyer')
-  async selectLawyerEndpoint(@Req() req, @Param('id') id: string, @Body() body: { lawyerId?: string; force?: boolean; message?: string }) {
+  async selectLawyerEndpoint(@Req() req, @Param('id') id: string, @Body() body: { lawyerId?: string; force?: boolean; message?: string; party?: CaseParty; overrideReason?: string }) {
     const user = this.ensureUser(req);
     if (!body || !body.lawyerId) throw new BadRequestException('Request body must include "lawyerId" (Mongo _id of the lawyer)');
-    const updatedCase = await this.casesService.selectLawyer(id, user.id ?? user._id, body.lawyerId, !!body.force, typeof body.message === 'string' ? body.message : undefined);
+    const party = body.party === 'owner' || body.party === 'invited' ? body.party : undefined;
+    const updatedCase = await this.casesService.selectLawyer(id, user.id ?? user._id, body.lawyerId, !!body.force, typeof body.message === 'string' ? body.message : undefined, { actorRole: user.role, party, overrideReason: typeof body.overrideReason === 'string' ? body.overrideReason : undefined });
     return { message: 'Lawyer selected', case: updatedCase };
   }
   @UseGuards(JwtAuthGuard)
   @Post(':id/approve')
-  async approveByUser(@Req() req, @Param('id') id: string) {
+  async approveByUser(@Req() req, @Param('id') id: string, @Headers('if-match') ifMatch: string, @Res({ passthrough: true }) res: Response) {
     const user = this.ensureUser(req);
-    return this.casesService.approveCaseByUser(id, user.id ?? user._id);
+    const updated = await this.casesService.approveCaseByUser(id, user.id ?? user._id, parseIfMatch(ifMatch));
+    res.setHeader('ETag', caseEtag(updated.revision));
+    return updated;
   }
   @UseGuards(JwtAuthGuard)
   @Post(':id/approve-lawyer')
-  async approveByLawyer(@Req() req, @Param('id') id: string, @Body() body: { lawyerId?: string }) {
-    if (!body?.lawyerId) throw new BadRequestException('lawyerId required');
-    return this.casesService.approveCaseByLawyer(id, body.lawyerId);
+  async approveByLawyer(@Req() req, @Param('id') id: string, @Headers('if-match') ifMatch: string, @Res({ passthrough: true }) res: Response) {
+    const user = this.ensureUser(req);
+    if (user.role !== 'lawyer' || !user.lawyer) throw new ForbiddenException('Only the selected lawyer can approve');
+    const updated = await this.casesService.approveCaseByLawyer(id, { id: user.id, lawyerId: String(user.lawyer) }, parseIfMatch(ifMatch));
+    res.setHeader('ETag', caseEtag(updated.revision));
+    return updated;
   }
   @UseGuards(JwtAuthGuard)
   @Post(':id/approve-manager')
-  async approveByCaseManager(@Req() req, @Param('id') id: string) {
+  async approveByCaseManager(@Req() req, @Param('id') id: string, @Headers('if-match') ifMatch: string, @Res({ passthrough: true }) res: Response) {
     const user = this.ensureUser(req);
     if (!this.isPrivilegedRole(user.role)) throw new ForbiddenException('Only case managers/admins');
-    return this.casesService.approveCaseByManager(id, user.id ?? user._id);
+    const updated = await this.casesService.approveCaseByManager(id, user.id ?? user._id, user.role, parseIfMatch(ifMatch));
+    res.setHeader('ETag', caseEtag(updated.revision));
+    return updated;
   }
   @UseGuards(JwtAuthGuard)
   @Post(':id/assign-manager')
@@ -172,16 +291,30 @@ export class CasesController {
     const user = this.ensureUser(req);
     if (!this.isPrivilegedRole(user.role)) throw new ForbiddenException('Only case managers/admins');
     const managerId = body?.managerId || user.id || user._id;
-    return this.casesService.assignCaseManager(id, managerId, user.id ?? user._id);
+    return this.casesService.assignCaseManager(id, managerId, user.id ?? user._id, user.role);
   }
   @UseGuards(JwtAuthGuard)
   @Post(':id/change-status')
-  async changeStatus(@Req() req, @Param('id') id: string, @Body() body: { status?: string }) {
+  async changeStatus(@Req() req, @Param('id') id: string, @Body() body: { status?: string; reason?: string }) {
     const user = this.ensureUser(req);
     if (!this.isPrivilegedRole(user.role)) throw new ForbiddenException('Only case managers/admins can change workflow status');
     if (!body || !body.status) throw new BadRequestException('Request body must include "status"');
     const allowed = ['CM', 'PAID', 'LAWYER'];
     if (!allowed.includes(body.status)) throw new BadRequestException('Invalid status');
-    return this.casesService.changeWorkflowStatus(id, body.status, user.id ?? user._id);
+    return this.casesService.changeWorkflowStatus(id, body.status, user.id ?? user._id, user.role, typeof body.reason === 'string' ? body.reason : undefined);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/workflow')
+  async getWorkflow(@Req() req, @Param('id') id: string) {
+    const user = this.ensureUser(req);
+    return this.casesService.getWorkflow(id, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/audit')
+  async getAuditLog(@Req() req, @Param('id') id: string, @Query() query: Record<string, string>) {
+    const user = this.ensureUser(req);
+    if (!this.isPrivilegedRole(user.role)) throw new ForbiddenException('Only case managers/admins can view the audit log');
+    const { page = '1', limit = '50', action, actor, step, path, from, to } = query;
+    return this.casesService.getAuditLog(id, { action, actorId: actor, stepNumber: step ? Number(step) : undefined, path, from, to }, Number(page) || 1, Number(limit) || 50);
   }
 }
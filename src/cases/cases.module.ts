@@ -3,12 +3,31 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { Case, CaseSchema } from './schemas/case.schema';
 import { CompaniesService } from './companies.service';
 import { CasesService } from './cases.service';
+import { CaseWorkflowService } from './case-workflow.service';
+import { CaseAuditService } from './case-audit.service';
+import { StepPayloadService } from './step-payload.service';
+import { StepVersionService } from './step-version.service';
+import { CaseProgressService } from './case-progress.service';
+import { CaseQueueService } from './case-queue.service';
+import { ChangeRequestService } from './change-request.service';
+import { StepVersion, StepVersionSchema } from './schemas/step-version.schema';
+import { ChangeRequest, ChangeRequestSchema } from './schemas/change-request.schema';
+import { CaseEvent, CaseEventSchema } from './schemas/case-event.schema';
 import { LawyersService } from './lawyer.service';
+import { LawyerEligibilityService } from './lawyer-eligibility.service';
+import { LawyerPortalService } from './lawyer-portal.service';
+import { LawyerIntroductionService } from './lawyer-introduction.service';
 import { CasesController } from './cases.controller';
+import { CaseManagerController } from './case-manager.controller';
+import { ChangeRequestsController } from './change-requests.controller';
+import { LawyerPortalController } from './lawyer-portal.controller';
+import { LawyerIntroductionsController } from './lawyer-introductions.controller';
 import { MailModule } from '../mail/mail.module';
 import { UsersModule } from '../users/users.module';
 import { Lawyer, LawyerSchema } from './schemas/lawyer.schema';
 import { Company, CompanySchema } from './schemas/company.schema';
+import { AgreementsModule } from '../agreements/agreements.module';
+import { CurrencyModule } from '../currency/currency.module';
 
 @Module({
   imports: [
@@ -17,12 +36,17 @@ import { Company, CompanySchema } from './schemas/company.schema';
       { name: Lawyer.name, schema: LawyerSchema },
       { name: Lawyer.name, schema: LawyerSchema },
       { name: Company.name, schema: CompanySchema },
+      { name: CaseEvent.name, schema: CaseEventSchema },
+      { name: StepVersion.name, schema: StepVersionSchema },
+      { name: ChangeRequest.name, schema: ChangeRequestSchema },
     ]),
     MailModule,
     UsersModule,
+    CurrencyModule,
+    forwardRef(() => AgreementsModule),
   ],
-  providers: [CasesService, LawyersService, CompaniesService],
-  controllers: [CasesController],
-  exports: [CasesService, LawyersService, CompaniesService],
+  providers: [CasesService, LawyersService, LawyerEligibilityService, LawyerPortalService, LawyerIntroductionService, CompaniesService, CaseWorkflowService, CaseAuditService, StepPayloadService, StepVersionService, CaseProgressService, CaseQueueService, ChangeRequestService],
+  controllers: [CasesController, CaseManagerController, ChangeRequestsController, LawyerPortalController, LawyerIntroductionsController],
+  exports: [CasesService, LawyersService, LawyerEligibilityService, LawyerPortalService, LawyerIntroductionService, CompaniesService, CaseWorkflowService, CaseAuditService, StepPayloadService, StepVersionService, CaseProgressService, ChangeRequestService],
 })
 export class CasesModule {}
@@ -1,25 +1,65 @@
 // src/cases/cases.service.ts
-import { BadRequestException, Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import crypto from 'crypto';
 import { Model, Types } from 'mongoose';
 import { ConfigService } from '@nestjs/config';
-import { Case, CaseDocument, StepStatus, PreQuestionnaire, Approval } from './schemas/case.schema';
+import { Case, CaseDocument, StepStatus, PreQuestionnaire, Approval, WorkflowStatus } from './schemas/case.schema';
 import { Lawyer, LawyerDocument } from './schemas/lawyer.schema';
 import { MailService } from '../mail/mail.service';
+import { CaseWorkflowService } from './case-workflow.service';
+import { CaseAuditService, CaseEventFilter } from './case-audit.service';
+import { StepPayloadService } from './step-payload.service';
+import { StepVersionService } from './step-version.service';
+import { assertRevision, saveCaseChanges } from './case-revision';
+import { AgreementsService } from '../agreements/agreements.service';
+import { CurrencyService } from '../currency/currency.service';
+import { CaseProgressService, STEP_LABELS } from './case-progress.service';
+import { UsersService } from '../users/users.service';
+
+export interface CaseListFilter {
+  q?: string;
+  workflowStatus?: string[];
+  /** A user id, or 'none' for unassigned cases. */
+  assignedCaseManager?: string;
+  fullyLocked?: boolean;
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  approved?: ApprovalKey[];
+  notApproved?: ApprovalKey[];
+  lawyerId?: string;
+}
+export type ApprovalKey = 'user1' | 'user2' | 'lawyer' | 'caseManager';
+const APPROVAL_FIELDS: Record<ApprovalKey, string> = { user1: 'approval.user1Approved', user2: 'approval.user2Approved', lawyer: 'approval.lawyerApproved', caseManager: 'approval.caseManagerApproved' };
+const CASE_SORT_FIELDS = ['createdAt', 'updatedAt', 'title', 'workflowStatus', 'fullyLockedAt'];
+// Fields returned by the privileged case list; step payloads are left out.
+const CASE_LIST_PROJECTION = 'title caseType owner invitedUser invitedEmail workflowStatus fullyLocked fullyLockedAt assignedCaseManager approval status preQuestionnaireUser1.submitted preQuestionnaireUser1.selectedLawyer preQuestionnaireUser2.submitted preQuestionnaireUser2.selectedLawyer step1.firstName step1.lastName step3.firstName step3.lastName revision createdAt updatedAt';
+const LIST_USER_FIELDS = 'firstName lastName email role';
+// what partners and lawyers get to see of the case record and of the users on it
+const READER_HIDDEN_FIELDS = '-inviteCredentials -inviteToken';
+const READER_USER_FIELDS = 'firstName lastName email phone';
+import { DISCLOSURE_STEP, computeFinancialSummary } from './financial-summary';
+import { FINAL_STEP, STEP_NUMBERS, caseLockState, lockedStepNumbers } from './step-locks';
+import { ChangeRequestService } from './change-request.service';
+import { LawyersService } from './lawyer.service';
+import { LawyerEligibilityService } from './lawyer-eligibility.service';
+import { LawyerIntroductionService } from './lawyer-introduction.service';
+import { formatMoney } from './lawyer-pricing';
+import { CaseParty, PARTY_LABELS, StepOwnershipPolicy, canReadStep, canWriteStep, clientsOfLawyer, partyOf, policyFor, stepsFilledBy } from './step-ownership';
 
 @Injectable()
 export class CasesService {
-  private DUMMY_AGREEMENT_DRIVE_LINK = 'https://drive.google.com/file/d/FAKE_GOOGLE_DRIVE_ID/view';
-  constructor(@InjectModel(Case.name) private caseModel: Model<CaseDocument>, @InjectModel(Lawyer.name) private lawyerModel: Model<LawyerDocument>, private config: ConfigService, private mailService: MailService) { }
+  constructor(@InjectModel(Case.name) private caseModel: Model<CaseDocument>, @InjectModel(Lawyer.name) private lawyerModel: Model<LawyerDocument>, private config: ConfigService, private mailService: MailService, private workflow: CaseWorkflowService, private audit: CaseAuditService, private stepPayloads: StepPayloadService, private stepVersions: StepVersionService, private agreements: AgreementsService, private currency: CurrencyService, private progress: CaseProgressService, private users: UsersService, private changeRequests: ChangeRequestService, private lawyers: LawyersService, private lawyerEligibility: LawyerEligibilityService, private introductions: LawyerIntroductionService) { }
   private isPrivilegedRole(role?: string): boolean {
     return role === 'superadmin' || role === 'admin' || role === 'case_manager';
   }
   private defaultStepStatus(): StepStatus {
-    return { submitted: false, submittedBy: null, submittedAt: null, locked: false, lockedBy: null, lockedAt: null, unlockedBy: null, unlockedAt: null } as StepStatus;
+    return { submitted: false, submittedBy: null, submittedAt: null, locked: false, lockedBy: null, lockedAt: null, unlockedBy: null, unlockedAt: null, unlockReason: null, draftSavedBy: null, draftSavedAt: null } as StepStatus;
   }
   private ensureStepStatusObj(c: CaseDocument, stepKey: `step${1 | 2 | 3 | 4 | 5 | 6 | 7}`): StepStatus {
-    c.status = c.status || {};
+    if (!c.status) c.status = {};
     const statusAny = c.status as any;
     if (!statusAny[stepKey]) {
       statusAny[stepKey] = this.defaultStepStatus();
@@ -40,7 +80,9 @@ export class CasesService {
   }
   async create(ownerId: string, title?: string): Promise<CaseDocument> {
     const c = new this.caseModel({ title: title || 'Untitled case', owner: new Types.ObjectId(ownerId), workflowStatus: 'DRAFT' });
-    return c.save();
+    await c.save();
+    await this.audit.record({ caseId: c._id as Types.ObjectId, action: 'case.created', actorId: ownerId, after: { title: c.title, owner: c.owner } });
+    return c;
   }
   async findById(id: string, populate = false): Promise<CaseDocument | null> {
     if (!Types.ObjectId.isValid(id)) return null;
@@ -53,6 +95,62 @@ export class CasesService {
   async findAll(): Promise<CaseDocument[]> {
     return this.caseModel.find().exec();
   }
+  /** Paginated, filtered case list for admins and case managers. */
+  async searchCases(filter: CaseListFilter, page = 1, limit = 25, sort = '-updatedAt') {
+    const q: Record<string, any> = {};
+    const and: Record<string, any>[] = [];
+    const toId = (v: string, name: string) => {
+      if (!Types.ObjectId.isValid(v)) throw new BadRequestException(`Invalid ${name}`);
+      return new Types.ObjectId(v);
+    };
+    const toDate = (v: string, name: string) => {
+      const d = new Date(v);
+      if (Number.isNaN(d.getTime())) throw new BadRequestException(`Invalid "${name}" date`);
+      return d;
+    };
+    if (filter.workflowStatus?.length) q.workflowStatus = { $in: filter.workflowStatus };
+    if (filter.assignedCaseManager) q.assignedCaseManager = filter.assignedCaseManager === 'none' ? null : toId(filter.assignedCaseManager, 'assignedCaseManager');
+    if (filter.fullyLocked !== undefined) q.fullyLocked = filter.fullyLocked ? true : { $ne: true };
+    if (filter.createdFrom || filter.createdTo) {
+      q.createdAt = {};
+      if (filter.createdFrom) q.createdAt.$gte = toDate(filter.createdFrom, 'createdFrom');
+      if (filter.createdTo) q.createdAt.$lte = toDate(filter.createdTo, 'createdTo');
+    }
+    if (filter.updatedFrom || filter.updatedTo) {
+      q.updatedAt = {};
+      if (filter.updatedFrom) q.updatedAt.$gte = toDate(filter.updatedFrom, 'updatedFrom');
+      if (filter.updatedTo) q.updatedAt.$lte = toDate(filter.updatedTo, 'updatedTo');
+    }
+    for (const key of filter.approved ?? []) {
+      if (!APPROVAL_FIELDS[key]) throw new BadRequestException(`Unknown approval "${key}"`);
+      q[APPROVAL_FIELDS[key]] = true;
+    }
+    for (const key of filter.notApproved ?? []) {
+      if (!APPROVAL_FIELDS[key]) throw new BadRequestException(`Unknown approval "${key}"`);
+      q[APPROVAL_FIELDS[key]] = { $ne: true };
+    }
+    if (filter.lawyerId) {
+      const lawyer = toId(filter.lawyerId, 'lawyerId');
+      and.push({ $or: [{ 'preQuestionnaireUser1.selectedLawyer': lawyer }, { 'preQuestionnaireUser2.selectedLawyer': lawyer }] });
+    }
+    const text = filter.q?.trim();
+    if (text) {
+      const rx = new RegExp(text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      const userIds = await this.users.findIdsBySearch(text);
+      and.push({ $or: [{ title: rx }, { invitedEmail: rx }, { 'step1.firstName': rx }, { 'step1.lastName': rx }, { 'step3.firstName': rx }, { 'step3.lastName': rx }, ...(userIds.length ? [{ owner: { $in: userIds } }, { invitedUser: { $in: userIds } }] : [])] });
+    }
+    if (and.length) q.$and = and;
+    const sortField = sort.replace(/^-/, '');
+    if (!CASE_SORT_FIELDS.includes(sortField)) throw new BadRequestException(`Cannot sort by "${sortField}"`);
+    const safeLimit = Math.min(Math.max(limit, 1), 100);
+    const safePage = Math.max(page, 1);
+    const [docs, total] = await Promise.all([
+      this.caseModel.find(q).select(CASE_LIST_PROJECTION).sort({ [sortField]: sort.startsWith('-') ? -1 : 1, _id: -1 }).skip((safePage - 1) * safeLimit).limit(safeLimit)
+        .populate([{ path: 'owner', select: LIST_USER_FIELDS }, { path: 'invitedUser', select: LIST_USER_FIELDS }, { path: 'assignedCaseManager', select: LIST_USER_FIELDS }]).lean().exec(),
+      this.caseModel.countDocuments(q).exec(),
+    ]);
+    return { total, page: safePage, limit: safeLimit, docs };
+  }
   async findByUser(userId: string | Types.ObjectId): Promise<CaseDocument[]> {
     const id = typeof userId === 'string' ? new Types.ObjectId(userId) : userId;
     return this.caseModel.find({ $or: [{ owner: id }, { invitedUser: id }] }).exec();
@@ -61,22 +159,26 @@ export class CasesService {
     return this.caseModel.findOne({ _id: caseId }).exec();
   }
   async attachInvitedUser(caseId: string, userId: string): Promise<CaseDocument> {
-    const c = await this.caseModel.findById(caseId);
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
+    const previousInvited = c.invitedUser;
     c.invitedUser = new Types.ObjectId(userId);
     c.inviteToken = null;
     c.inviteTokenExpires = null;
-    return c.save();
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'invite.accepted', actorId: userId, before: { invitedUser: previousInvited }, after: { invitedUser: c.invitedUser } });
+    return c;
   }
   async invite(caseId: string, inviterId: string, inviteEmail: string) {
-    const c = await this.caseModel.findById(caseId);
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
     const token = crypto.randomBytes(32).toString('hex');
     const expires = new Date(Date.now() + Number(this.config.get('INVITE_TOKEN_EXPIRY_HOURS') || 72) * 3600 * 1000);
     c.invitedEmail = inviteEmail.toLowerCase();
     c.inviteToken = token;
     c.inviteTokenExpires = expires;
-    await c.save();
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'invite.sent', actorId: inviterId, after: { invitedEmail: c.invitedEmail, inviteTokenExpires: expires } });
     const inviteUrl = `${this.config.get('APP_SERVER_URL')}/auth/accept-invite?token=${token}&caseId=${c._id}&email=${encodeURIComponent(inviteEmail)}`;
     if (typeof (this.mailService as any).sendInvite === 'function') {
       await (this.mailService as any).sendInvite(inviteEmail, inviteUrl);
@@ -85,27 +187,95 @@ export class CasesService {
     }
     return { inviteUrl };
   }
-  async updateStep(caseId: string, stepNumber: number, data: any, actorId: string, isPrivileged = false, actorFull?: any): Promise<CaseDocument> {
+  private async loadStepForWrite(caseId: string, stepNumber: number, actorId: string, isPrivileged: boolean, expectedRevision?: number) {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
     const c = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
     if (!Number.isInteger(stepNumber) || stepNumber < 1 || stepNumber > 7) throw new BadRequestException('Invalid step');
-    if (c.workflowStatus === 'CM' && !isPrivileged) {
+    assertRevision(c, expectedRevision);
+    const stepLocked = !!(c.status as any)?.[`step${stepNumber}`]?.locked;
+    // an open change request reopens the step for the partner it is addressed to
+    const requested = !isPrivileged && (c.workflowStatus === 'CM' || c.fullyLocked || stepLocked) && (await this.changeRequests.hasOpen(caseId, stepNumber, partyOf(c, actorId)));
+    if (c.workflowStatus === 'CM' && !isPrivileged && !requested) {
       const actorObjId = Types.ObjectId.isValid(actorId) ? new Types.ObjectId(actorId) : null;
       const assignedId = (c as any).assignedCaseManager;
       const assignedMatches = assignedId && (Types.ObjectId.isValid(assignedId) ? new Types.ObjectId(assignedId).toString() === actorObjId?.toString() : (assignedId as any).toString() === actorObjId?.toString());
       if (!assignedMatches) throw new ForbiddenException('Only the assigned Case Manager may edit while case is in CM stage');
     }
-    if (c.fullyLocked && !isPrivileged) throw new ForbiddenException('Case is fully locked and cannot be modified');
+    if (c.fullyLocked && !isPrivileged && !requested) throw new ForbiddenException('Case is fully locked and cannot be modified');
+    if (stepLocked && !isPrivileged && !requested) throw new ForbiddenException(`Step ${stepNumber} is locked and cannot be modified`);
+    const policy = policyFor(c.caseType);
+    const party = partyOf(c, actorId);
+    if (!isPrivileged) {
+      if (!party) throw new ForbiddenException('Forbidden');
+      if (!canWriteStep(policy, stepNumber, party)) throw new ForbiddenException(`Step ${stepNumber} can only be completed by the ${PARTY_LABELS[policy[stepNumber].filledBy]}`);
+    }
     const key = `step${stepNumber}` as `step${1 | 2 | 3 | 4 | 5 | 6 | 7}`;
-    (c as any)[key] = data;
+    return { c, policy, party, key };
+  }
+  private async recordOwnershipOverride(caseId: string, stepNumber: number, actorId: string, actorRole: string | null, policy: StepOwnershipPolicy, party: CaseParty | null) {
+    await this.audit.record({ caseId, action: 'step.ownership_override', actorId, actorRole, stepNumber, paths: [`step${stepNumber}`], meta: { filledBy: policy[stepNumber].filledBy, actorParty: party } });
+  }
+  async saveStepDraft(caseId: string, stepNumber: number, data: any, actorId: string, isPrivileged = false, actorFull?: any, expectedRevision?: number) {
+    const target = await this.loadStepForWrite(caseId, stepNumber, actorId, isPrivileged, expectedRevision);
+    const { policy, party, key } = target;
+    let c: CaseDocument = target.c;
+    const stored = await this.stepPayloads.toStored(stepNumber, data, true);
+    c.stepDrafts = { ...(c.stepDrafts ?? {}), [key]: stored };
+    c.markModified('stepDrafts');
     const stepStatus = this.ensureStepStatusObj(c, key);
+    stepStatus.draftSavedBy = new Types.ObjectId(actorId);
+    stepStatus.draftSavedAt = new Date();
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'step.draft_saved', actorId, stepNumber, paths: [`stepDrafts.${key}`] });
+    if (isPrivileged && !canWriteStep(policy, stepNumber, party)) await this.recordOwnershipOverride(caseId, stepNumber, actorId, actorFull?.role ?? null, policy, party);
+    return { stepNumber, draft: this.stepPayloads.toUi(stepNumber, stored, stepStatus.draftSavedAt), draftSavedAt: stepStatus.draftSavedAt, revision: c.revision };
+  }
+  async discardStepDraft(caseId: string, stepNumber: number, actorId: string, isPrivileged = false, expectedRevision?: number) {
+    const target = await this.loadStepForWrite(caseId, stepNumber, actorId, isPrivileged, expectedRevision);
+    const { key } = target;
+    let c: CaseDocument = target.c;
+    if (!c.stepDrafts?.[key]) throw new NotFoundException('No draft saved for this step');
+    const drafts = { ...c.stepDrafts };
+    delete drafts[key];
+    c.stepDrafts = drafts;
+    c.markModified('stepDrafts');
+    const stepStatus = this.ensureStepStatusObj(c, key);
+    stepStatus.draftSavedBy = null;
+    stepStatus.draftSavedAt = null;
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'step.draft_discarded', actorId, stepNumber, paths: [`stepDrafts.${key}`] });
+    return { stepNumber, discarded: true, revision: c.revision };
+  }
+  /** Submit a step. An empty body submits the saved draft, if there is one. */
+  async updateStep(caseId: string, stepNumber: number, data: any, actorId: string, isPrivileged = false, actorFull?: any, expectedRevision?: number): Promise<CaseDocument> {
+    const target = await this.loadStepForWrite(caseId, stepNumber, actorId, isPrivileged, expectedRevision);
+    const { policy, party, key } = target;
+    let c: CaseDocument = target.c;
+    const draft = c.stepDrafts?.[key];
+    const useDraft = draft && (!data || (typeof data === 'object' && !Object.keys(data).length));
+    const stored = useDraft ? draft : await this.stepPayloads.toStored(stepNumber, data);
+    this.stepPayloads.assertComplete(stepNumber, stored);
+    await this.currency.convertStep(stepNumber, stored);
+    const beforeStep = c.toObject()[key];
+    const beforeStatus = c.toObject().status?.[key];
+    (c as any)[key] = stored;
+    if (draft) {
+      const drafts = { ...c.stepDrafts };
+      delete drafts[key];
+      c.stepDrafts = drafts;
+      c.markModified('stepDrafts');
+    }
+    const stepStatus = this.ensureStepStatusObj(c, key);
+    const relockedSteps: number[] = [];
+    stepStatus.draftSavedBy = null;
+    stepStatus.draftSavedAt = null;
     stepStatus.submitted = true;
     stepStatus.submittedBy = new Types.ObjectId(actorId);
     stepStatus.submittedAt = new Date();
     if (stepNumber === 7) {
-      const requiredUser1 = [1, 2, 5, 6, 7];
-      const requiredUser2 = [3, 4];
+      const requiredUser1 = stepsFilledBy(policy, 'owner');
+      const requiredUser2 = stepsFilledBy(policy, 'invited');
       const statusAny = c.status || {};
       const isSubmitted = (n: number) => Boolean(statusAny[`step${n}`] && statusAny[`step${n}`].submitted);
       const missingUser1 = requiredUser1.filter((n) => !isSubmitted(n));
@@ -121,15 +291,26 @@ export class CasesService {
       c.fullyLockedBy = new Types.ObjectId(actorId);
       c.fullyLockedAt = new Date();
       const now = new Date();
-      for (let i = 1; i <= 7; i++) {
-        const sk = `step${i}` as `step${1 | 2 | 3 | 4 | 5 | 6 | 7}`;
-        const s = this.ensureStepStatusObj(c, sk);
+      // after a partial unlock only the reopened steps are locked again; the rest keep their original lock
+      for (const i of STEP_NUMBERS) {
+        const s = this.ensureStepStatusObj(c, `step${i}`);
+        if (s.locked) continue;
+        relockedSteps.push(i);
         s.locked = true;
         s.lockedBy = new Types.ObjectId(actorId);
         s.lockedAt = now;
       }
     }
-    await c.save();
+    c = await saveCaseChanges(this.caseModel, c);
+    const previousVersion = beforeStatus?.submitted ? { caseId, stepNumber, data: beforeStep, submittedBy: beforeStatus.submittedBy, submittedAt: beforeStatus.submittedAt } : null;
+    await this.stepVersions.record({ caseId, stepNumber, data: c.toObject()[key], submittedBy: actorId, submittedByRole: actorFull?.role ?? null, submittedAt: stepStatus.submittedAt }, previousVersion);
+    await this.audit.record({ caseId, action: 'step.submitted', actorId, stepNumber, before: { [key]: beforeStep }, after: { [key]: c.toObject()[key] }, meta: useDraft ? { fromDraft: true } : null });
+    // only the partner the step belongs to answers change requests; staff overrides leave them open
+    if (canWriteStep(policy, stepNumber, party)) await this.changeRequests.markResponded(caseId, stepNumber, party, actorId, actorFull?.role ?? null);
+    else if (isPrivileged) await this.recordOwnershipOverride(caseId, stepNumber, actorId, actorFull?.role ?? null, policy, party);
+    if (stepNumber === 7) {
+      await this.audit.record({ caseId, action: 'case.locked', actorId, paths: ['fullyLocked', 'status'], after: { fullyLocked: true, fullyLockedAt: c.fullyLockedAt }, meta: { relockedSteps } });
+    }
     try {
       if (c.fullyLocked && this.areAllStepsSubmitted(c)) {
         const populated = await this.caseModel.findById(c._id).populate('owner invitedUser').exec();
@@ -147,7 +328,7 @@ export class CasesService {
         const agreementBody = `${greetingNames}
 Thank you for submitting your responses to the Wenup questionnaire.
 
-A draft of your nuptial agreement has now been generated. You’ll receive this as a Google Document shortly, and a PDF version will also be available for you to access via the Wenup platform.
+A draft of your nuptial agreement has now been generated. A PDF version is available for you to download via the Wenup platform.
 
 Your case manager will be in touch with you both within the next 1–2 business days, once your agreement has been reviewed, to discuss the next steps. Please keep an eye out for an email from them.
 
@@ -195,21 +376,27 @@ Please login to the platform to review and assign the case.
             }
           }
         } catch (e) { }
-        const docLink = this.DUMMY_AGREEMENT_DRIVE_LINK;
+        let docLink: string | null = null;
+        try {
+          const generated = await this.agreements.generate(String(c._id), actorId, 'case_locked');
+          docLink = generated.downloadUrl;
+        } catch (err) {
+          console.error(`Failed to generate agreement document for case ${c._id}`, err);
+        }
         const linkSubject = `Your draft agreement is ready — case ${c._id}`;
         const linkBody = `${greetingNames}
 A draft document of your agreement has been uploaded.
 
-You can view the draft here:
+You can download the draft PDF here (sign-in required):
 ${docLink}
 
-This link is provided for review. The official PDF will be available on the Wenup platform.
-
 Regards,
 Wenup
 `;
         try {
-          if (this.mailService && typeof (this.mailService as any).sendAgreementDocumentLink === 'function') {
+          if (!docLink) {
+            // nothing to link to; the case manager can regenerate the document
+          } else if (this.mailService && typeof (this.mailService as any).sendAgreementDocumentLink === 'function') {
             await (this.mailService as any).sendAgreementDocumentLink(c, docLink, uniqueRecipients.map(u => u.email));
           } else if (this.mailService && typeof (this.mailService as any).sendMail === 'function') {
             for (const r of uniqueRecipients) {
@@ -221,9 +408,9 @@ Wenup
     } catch (err) { }
     return c;
   }
-  async unlockCase(caseId: string, actorId: string): Promise<CaseDocument> {
+  async unlockCase(caseId: string, actorId: string, reason?: string): Promise<CaseDocument> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
-    const c = await this.caseModel.findById(caseId);
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
     this.ensureStepStatusObj(c, 'step7');
     const step7Status = (c.status as any).step7 as StepStatus;
@@ -242,6 +429,7 @@ Wenup
       s.lockedAt = null;
       s.unlockedBy = actorObjId;
       s.unlockedAt = now;
+      s.unlockReason = reason?.trim() || null;
     }
     if (c.preQuestionnaireUser1) {
       c.preQuestionnaireUser1.locked = false;
@@ -253,21 +441,95 @@ Wenup
       c.preQuestionnaireUser2.lockedBy = null;
       c.preQuestionnaireUser2.lockedAt = null;
     }
-    await c.save();
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'case.unlocked', actorId, paths: ['fullyLocked', 'status', 'preQuestionnaireUser1.locked', 'preQuestionnaireUser2.locked'], before: { fullyLocked: true }, after: { fullyLocked: false }, meta: { reason: reason?.trim() || null } });
     return c;
   }
-  async updatePreQuestionnaire(caseId: string, updatePatch: any): Promise<CaseDocument> {
+  /**
+   * Reopen one step for correction. The final step is reopened with it so the
+   * case can be submitted again; every other step stays locked.
+   */
+  async unlockStep(caseId: string, stepNumber: number, reason: string, actorId: string, actorRole = 'case_manager'): Promise<CaseDocument> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
-    const updated = await this.caseModel.findByIdAndUpdate(caseId, { $set: updatePatch }, { new: true }).exec();
-    if (!updated) throw new NotFoundException('Case not found');
-    return updated;
+    if (!STEP_NUMBERS.includes(stepNumber as any)) throw new BadRequestException('Invalid step');
+    const why = typeof reason === 'string' ? reason.trim() : '';
+    if (!why) throw new BadRequestException('A reason is required to unlock a step');
+    if (why.length > 1000) throw new BadRequestException('Reason must be at most 1000 characters');
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
+    if (!c) throw new NotFoundException('Case not found');
+    const target = this.ensureStepStatusObj(c, `step${stepNumber}` as `step${1 | 2 | 3 | 4 | 5 | 6 | 7}`);
+    if (!c.fullyLocked && !target.locked) throw new BadRequestException(`Step ${stepNumber} is not locked`);
+    const before = { lockState: caseLockState(c), lockedSteps: lockedStepNumbers(c) };
+    const actorObjId = Types.ObjectId.isValid(actorId) ? new Types.ObjectId(actorId) : null;
+    const now = new Date();
+    // a case locked as a whole may have no per-step locks; pin them before lifting the case lock
+    for (const i of STEP_NUMBERS) {
+      const s = this.ensureStepStatusObj(c, `step${i}`);
+      if (s.locked || !c.fullyLocked) continue;
+      s.locked = true;
+      s.lockedBy = c.fullyLockedBy ?? actorObjId;
+      s.lockedAt = c.fullyLockedAt ?? now;
+    }
+    const reopened = stepNumber === FINAL_STEP ? [FINAL_STEP] : [stepNumber, FINAL_STEP];
+    for (const i of reopened) {
+      const s = this.ensureStepStatusObj(c, `step${i}` as `step${1 | 2 | 3 | 4 | 5 | 6 | 7}`);
+      if (!s.locked) continue;
+      s.locked = false;
+      s.lockedBy = null;
+      s.lockedAt = null;
+      s.unlockedBy = actorObjId;
+      s.unlockedAt = now;
+      s.unlockReason = why;
+    }
+    c.fullyLocked = false;
+    c.fullyLockedBy = null;
+    c.fullyLockedAt = null;
+    c.markModified('status');
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'step.unlocked', actorId, actorRole, stepNumber, paths: ['fullyLocked', ...reopened.map((i) => `status.step${i}`)], before, after: { lockState: caseLockState(c), lockedSteps: lockedStepNumbers(c) }, meta: { reason: why, reopened } });
+    return c;
+  }
+  /** Lock a single step again; locking the last open step locks the whole case. */
+  async lockStep(caseId: string, stepNumber: number, actorId: string, actorRole = 'case_manager', reason?: string): Promise<CaseDocument> {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    if (!STEP_NUMBERS.includes(stepNumber as any)) throw new BadRequestException('Invalid step');
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
+    if (!c) throw new NotFoundException('Case not found');
+    const s = this.ensureStepStatusObj(c, `step${stepNumber}` as `step${1 | 2 | 3 | 4 | 5 | 6 | 7}`);
+    if (c.fullyLocked || s.locked) throw new BadRequestException(`Step ${stepNumber} is already locked`);
+    if (!s.submitted) throw new BadRequestException(`Step ${stepNumber} must be submitted before it can be locked`);
+    const before = { lockState: caseLockState(c), lockedSteps: lockedStepNumbers(c) };
+    const actorObjId = Types.ObjectId.isValid(actorId) ? new Types.ObjectId(actorId) : null;
+    const now = new Date();
+    s.locked = true;
+    s.lockedBy = actorObjId;
+    s.lockedAt = now;
+    if (lockedStepNumbers(c).length === STEP_NUMBERS.length) {
+      c.fullyLocked = true;
+      c.fullyLockedBy = actorObjId;
+      c.fullyLockedAt = now;
+    }
+    c.markModified('status');
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'step.locked', actorId, actorRole, stepNumber, paths: [`status.step${stepNumber}`, 'fullyLocked'], before, after: { lockState: caseLockState(c), lockedSteps: lockedStepNumbers(c) }, meta: { reason: reason?.trim() || null } });
+    return c;
+  }
+  async updatePreQuestionnaire(caseId: string, updatePatch: any, expectedRevision?: number): Promise<CaseDocument> {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
+    if (!c) throw new NotFoundException('Case not found');
+    assertRevision(c, expectedRevision);
+    c.set(updatePatch || {});
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'pre_questionnaire.updated', paths: Object.keys(updatePatch || {}), after: updatePatch });
+    return c;
   }
   // submitPreQuestionnaire
   async submitPreQuestionnaire(caseId: string, actorId: string, answers: string[]): Promise<CaseDocument> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
     if (!Array.isArray(answers)) throw new BadRequestException('Answers must be an array');
 
-    const c = await this.caseModel.findById(caseId).exec();
+    let c: CaseDocument | null = await this.caseModel.findById(caseId).exec();
     if (!c) throw new NotFoundException('Case not found');
 
     // enforce workflow state
@@ -284,6 +546,8 @@ Wenup
     if (!isOwner && !isInvited) throw new ForbiddenException('Actor not part of this case');
 
     const now = new Date();
+    const pqKey = isOwner ? 'preQuestionnaireUser1' : 'preQuestionnaireUser2';
+    const previousAnswers = c.toObject()[pqKey]?.answers ?? [];
     if (isOwner) {
       if (!c.preQuestionnaireUser1) c.preQuestionnaireUser1 = this.makeEmptyPreQuestionnaire() as any;
       c.preQuestionnaireUser1.answers = answers ?? [];
@@ -298,7 +562,8 @@ Wenup
       c.preQuestionnaireUser2.submittedAt = now;
     }
 
-    await c.save();
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'pre_questionnaire.submitted', actorId, before: { [pqKey]: { answers: previousAnswers } }, after: { [pqKey]: { answers: answers ?? [] } } });
 
     // reload populated doc for email resolution
     const populated = await this.caseModel.findById(c._id).populate('owner invitedUser').exec();
@@ -332,13 +597,7 @@ Wenup
     const ownerName = personName(populated?.owner, 'Owner');
     const invitedName = personName(populated?.invitedUser ?? 'Invited user');
 
-    const taskStatus = (done: boolean) => done ? 'COMPLETED' : 'PENDING';
-    const taskLines = [
-      `Task 1 - ${ownerName} Pre-Lawyer Questionnaire\n\nStatus: ${taskStatus(!!(c.preQuestionnaireUser1 && c.preQuestionnaireUser1.submitted))}`,
-      `Task 2 - ${ownerName} Lawyer Selection\n\nStatus: ${taskStatus(!!(c.preQuestionnaireUser1 && c.preQuestionnaireUser1.selectedLawyer))}`,
-      `Task 3 - ${invitedName} Pre-Lawyer Questionnaire\n\nStatus: ${taskStatus(!!(c.preQuestionnaireUser2 && c.preQuestionnaireUser2.submitted))}`,
-      `Task 4 - ${invitedName} Lawyer Selection\n\nStatus: ${taskStatus(!!(c.preQuestionnaireUser2 && c.preQuestionnaireUser2.selectedLawyer))}`,
-    ];
+    const taskLines = this.progress.taskLines(this.progress.compute(c.toObject()), { owner: ownerName, invited: invitedName });
 
     const actorDisplayName = isOwner ? ownerName : invitedName;
     const subject = `Agreement update — case ${c._id}`;
@@ -369,46 +628,28 @@ ${taskLines.join('\n\n')}`;
             console.warn('mailService send methods not available; skipping email send');
           }
         } catch (err) {
-          console.error(`Failed to send pre-questionnaire notification to ${r} for case ${c._id}`, err);
+          console.error(`Failed to send pre-questionnaire notification to ${r} for case ${caseId}`, err);
         }
       }));
     }
 
-    // complete transition if both submitted
-    const p1Submitted = !!(c.preQuestionnaireUser1 && c.preQuestionnaireUser1.submitted);
-    const p2Submitted = !!(c.preQuestionnaireUser2 && c.preQuestionnaireUser2.submitted);
-    if (p1Submitted && p2Submitted) {
-      c.workflowStatus = 'CM';
-      await c.save();
-
-      // notify both users using mailService helper (it internally resolves emails)
-      try {
-        if (typeof (this.mailService as any).sendFirstPhaseCompletedForCase === 'function') {
-          await (this.mailService as any).sendFirstPhaseCompletedForCase(populated);
-        }
-      } catch (err) {
-        console.error(`Failed to send first-phase completed email for case ${c._id}`, err);
-      }
-
-      // notify case managers (keep original behavior)
-      try {
-        await this.notifyCaseManagersOfNewCmCase(c);
-      } catch (err) {
-        console.error(`Failed to notify case managers for case ${c._id}`, err);
-      }
+    // complete transition if both submitted (the workflow notifies both users and the case managers)
+    const actor = { id: actorObjId, role: 'end_user' };
+    if (this.workflow.canApply(c, 'complete_pre_lawyer', actor)) {
+      c = await this.workflow.apply(c, 'complete_pre_lawyer', actor, 'Both pre-lawyer questionnaires submitted');
     }
 
     return c;
   }
 
 
-  // selectLawyer
-  async selectLawyer(caseId: string, actorId: string, lawyerId: string, force = false, message?: string): Promise<CaseDocument> {
+  // selectLawyer; staff may select on a partner's behalf and override overridable conflicts with a reason
+  async selectLawyer(caseId: string, actorId: string, lawyerId: string, force = false, message?: string, opts: { actorRole?: string; party?: CaseParty; overrideReason?: string } = {}): Promise<CaseDocument> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
     if (!Types.ObjectId.isValid(lawyerId)) throw new BadRequestException('Invalid lawyer id');
     if (!Types.ObjectId.isValid(actorId)) throw new BadRequestException('Invalid actor id');
 
-    const c = await this.caseModel.findById(caseId).exec();
+    let c: CaseDocument | null = await this.caseModel.findById(caseId).exec();
     if (!c) throw new NotFoundException('Case not found');
 
     if (!c.fullyLocked || !this.areAllStepsSubmitted(c)) {
@@ -434,9 +675,12 @@ ${taskLines.join('\n\n')}`;
       return idA.toString() === idB.toString();
     };
 
-    const isOwner = equalsId(ownerId, actorObjId);
-    const isInvited = equalsId(invitedId, actorObjId);
+    const privileged = this.isPrivilegedRole(opts.actorRole);
+    if (privileged && !opts.party) throw new BadRequestException('party is required when selecting a lawyer on behalf of a partner');
+    const isOwner = privileged ? opts.party === 'owner' : equalsId(ownerId, actorObjId);
+    const isInvited = privileged ? opts.party === 'invited' : equalsId(invitedId, actorObjId);
     if (!isOwner && !isInvited) throw new ForbiddenException('Actor not part of this case');
+    if (force && !privileged) throw new ForbiddenException('Only case managers/admins may override lawyer conflicts');
 
     const p1Submitted = !!(c.preQuestionnaireUser1 && c.preQuestionnaireUser1.submitted);
     const p2Submitted = !!(c.preQuestionnaireUser2 && c.preQuestionnaireUser2.submitted);
@@ -445,21 +689,35 @@ ${taskLines.join('\n\n')}`;
     const lawyerDoc = await this.lawyerModel.findById(lawyerId).exec();
     if (!lawyerDoc) throw new NotFoundException('Lawyer not found');
 
+    const party: CaseParty = isOwner ? 'owner' : 'invited';
+    const eligibility = await this.lawyerEligibility.check(c, party, lawyerDoc.toObject());
+    const overridden = eligibility.eligible ? [] : eligibility.conflicts;
+    if (overridden.length) {
+      if (!force || !eligibility.overridable) throw new BadRequestException({ message: overridden.map((x) => x.message).join('; '), conflicts: overridden });
+      if (!opts.overrideReason?.trim()) throw new BadRequestException('overrideReason is required to override lawyer conflicts');
+    }
+
+    const selectionKey = isOwner ? 'preQuestionnaireUser1' : 'preQuestionnaireUser2';
+    const previousLawyer = (c as any)[selectionKey]?.selectedLawyer ?? null;
+    // every selection starts a new introduction, which voids links sent for an earlier one
+    const introduction = this.introductions.open(lawyerId);
     if (isOwner) {
-      const otherSelected = c.preQuestionnaireUser2?.selectedLawyer?.toString();
-      if (otherSelected === lawyerId && !force) throw new BadRequestException('This lawyer has already been chosen by the other party');
       if (!c.preQuestionnaireUser1) c.preQuestionnaireUser1 = this.makeEmptyPreQuestionnaire() as any;
       c.preQuestionnaireUser1.selectedLawyer = new Types.ObjectId(lawyerId);
       (c.preQuestionnaireUser1 as any).selectedAt = new Date();
+      c.preQuestionnaireUser1.introduction = introduction;
     } else {
-      const otherSelected = c.preQuestionnaireUser1?.selectedLawyer?.toString();
-      if (otherSelected === lawyerId && !force) throw new BadRequestException('This lawyer has already been chosen by the other party');
       if (!c.preQuestionnaireUser2) c.preQuestionnaireUser2 = this.makeEmptyPreQuestionnaire() as any;
       c.preQuestionnaireUser2.selectedLawyer = new Types.ObjectId(lawyerId);
       (c.preQuestionnaireUser2 as any).selectedAt = new Date();
+      c.preQuestionnaireUser2.introduction = introduction;
     }
 
-    await c.save();
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'lawyer.selected', actorId, actorRole: opts.actorRole, before: { [selectionKey]: { selectedLawyer: previousLawyer } }, after: { [selectionKey]: { selectedLawyer: new Types.ObjectId(lawyerId) } }, meta: overridden.length ? { party, overridden: overridden.map((x) => x.code) } : { party } });
+    if (overridden.length) {
+      await this.audit.record({ caseId, action: 'lawyer.conflict_overridden', actorId, actorRole: opts.actorRole, meta: { party, lawyerId, conflicts: overridden.map((x) => ({ code: x.code, message: x.message })), reason: opts.overrideReason!.trim() } });
+    }
 
     // reload populated doc for email resolution
     const populated = await this.caseModel.findById(c._id).populate('owner invitedUser').exec();
@@ -492,13 +750,7 @@ ${taskLines.join('\n\n')}`;
     const ownerName = personName(populated?.owner, 'Owner');
     const invitedName = personName(populated?.invitedUser ?? 'Invited user');
 
-    const taskStatus = (done: boolean) => done ? 'COMPLETED' : 'PENDING';
-    const taskLines = [
-      `Task 1 - ${ownerName} Pre-Lawyer Questionnaire\n\nStatus: ${taskStatus(!!(c.preQuestionnaireUser1 && c.preQuestionnaireUser1.submitted))}`,
-      `Task 2 - ${ownerName} Lawyer Selection\n\nStatus: ${taskStatus(!!(c.preQuestionnaireUser1 && c.preQuestionnaireUser1.selectedLawyer))}`,
-      `Task 3 - ${invitedName} Pre-Lawyer Questionnaire\n\nStatus: ${taskStatus(!!(c.preQuestionnaireUser2 && c.preQuestionnaireUser2.submitted))}`,
-      `Task 4 - ${invitedName} Lawyer Selection\n\nStatus: ${taskStatus(!!(c.preQuestionnaireUser2 && c.preQuestionnaireUser2.selectedLawyer))}`,
-    ];
+    const taskLines = this.progress.taskLines(this.progress.compute(c.toObject()), { owner: ownerName, invited: invitedName });
 
     const actorDisplayName = isOwner ? ownerName : invitedName;
     const subject = `Agreement update — case ${c._id}`;
@@ -506,7 +758,7 @@ ${taskLines.join('\n\n')}`;
 
 ${actorDisplayName} has selected their lawyer.
 
-Thank you for completing all steps. You will be connected with your lawyers within 15 minutes.
+Thank you for completing all steps. We have asked the lawyer to confirm the introduction and will let you know as soon as they respond.
 
 ${taskLines.join('\n\n')}`;
 
@@ -537,7 +789,7 @@ ${taskLines.join('\n\n')}`;
     try {
       const actorEmailDirect = isOwner ? resolveEmailLocal(populated?.owner) : resolveEmailLocal(populated?.invitedUser, populated?.invitedEmail ?? undefined);
       if (actorEmailDirect) {
-        const requiredSteps = isOwner ? [1, 2, 5, 6, 7] : [3, 4];
+        const requiredSteps = stepsFilledBy(policyFor(c.caseType), isOwner ? 'owner' : 'invited');
         const missing = requiredSteps.filter((n) => {
           const s = (c.status as any)[`step${n}`];
           return !(s && s.submitted);
@@ -551,7 +803,7 @@ Completed: Select lawyer (second step).
 Remaining required steps for you: ${friendlyMissing.length > 0 ? friendlyMissing.join(', ') : 'None — you have completed your required steps.'}
 
 Your selected lawyer:
-${(lawyerDoc as any).name ?? 'N/A'}${this.getLawyerContactEmail(lawyerDoc) ? `\nEmail: ${this.getLawyerContactEmail(lawyerDoc)}` : ''}
+${(lawyerDoc as any).name ?? 'N/A'}${this.getLawyerContactEmail(lawyerDoc) ? `\nEmail: ${this.getLawyerContactEmail(lawyerDoc)}` : ''}${this.feeLines(lawyerDoc)}
 
 Regards,
 LetsPrenup Team
@@ -583,7 +835,10 @@ Client email: ${clientInfo.email}
 Client message (if any):
 ${message || '(no message provided)'}
 
-Please login to LetsPrenup to view the case and begin the process:
+Please accept or decline this introduction by ${introduction.expiresAt.toUTCString()}:
+${this.introductions.linkFor(c._id as Types.ObjectId, party, introduction)}
+
+If you have a LetsPrenup lawyer account you can also respond, and view the case, after logging in:
 ${loginUrl}
 
 Regards,
@@ -601,6 +856,13 @@ LetsPrenup Team
   }
 
 
+  private feeLines(lawyerDoc: any): string {
+    const quote = this.lawyers.quote(lawyerDoc);
+    if (!quote) return '';
+    const lines = [`\nFee: ${quote.priceText}`];
+    if (quote.estimate) lines.push(`Estimated cost: ${formatMoney(quote.estimate.gross, quote.currency)} (${formatMoney(quote.estimate.net, quote.currency)} + ${formatMoney(quote.estimate.vat, quote.currency)} VAT)`);
+    return lines.join('\n');
+  }
   private getLawyerContactEmail(lawyerDoc: LawyerDocument | any): string | null {
     try { return (lawyerDoc as any).directEmail ?? (lawyerDoc as any).publicEmail ?? null; } catch (err) { return null; }
   }
@@ -620,23 +882,48 @@ LetsPrenup Team
     const total = await this.lawyerModel.countDocuments().exec();
     return { total, docs };
   }
-  async setInviteCredentials(caseId: string, creds: { email: string; password: string; createdAt: Date }) {
+  async setInviteCredentials(caseId: string, creds: { email: string; password: string; createdAt: Date }, expectedRevision?: number) {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
-    return this.caseModel.findByIdAndUpdate(caseId, { inviteCredentials: creds }, { new: true, useFindAndModify: false }).exec();
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
+    if (!c) return null;
+    assertRevision(c, expectedRevision);
+    c.inviteCredentials = creds;
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'invite.credentials_set', paths: ['inviteCredentials'], after: { inviteCredentials: { email: creds.email, createdAt: creds.createdAt } } });
+    return c;
   }
-  async deleteCaseDataForPartner(caseId: string): Promise<void> {
+  async deleteCaseDataForPartner(caseId: string, expectedRevision?: number): Promise<void> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
-    const updated = await this.caseModel.findByIdAndUpdate(caseId, { $set: { step3: {}, step4: {}, 'status.step3.submitted': false, 'status.step3.submittedBy': null, 'status.step3.submittedAt': null, 'status.step4.submitted': false, 'status.step4.submittedBy': null, 'status.step4.submittedAt': null } }, { new: true });
-    if (!updated) throw new NotFoundException('Case not found');
+    const c = await this.caseModel.findById(caseId);
+    if (!c) throw new NotFoundException('Case not found');
+    assertRevision(c, expectedRevision);
+    const before = { step3: c.toObject().step3, step4: c.toObject().step4 };
+    c.set({ step3: {}, step4: {} });
+    for (const key of ['step3', 'step4'] as const) {
+      const s = this.ensureStepStatusObj(c, key);
+      s.submitted = false;
+      s.submittedBy = null;
+      s.submittedAt = null;
+    }
+    c.markModified('status');
+    await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'partner.data_removed', before, after: { step3: {}, step4: {} } });
   }
   private ensureApprovalObj(c: CaseDocument): Approval {
     if (!c.approval) (c as any).approval = {};
     return (c as any).approval as Approval;
   }
-  async approveCaseByUser(caseId: string, actorId: string): Promise<CaseDocument> {
+  private async openLawyerSelectionIfApproved(c: CaseDocument, actor: { id: string; role: string }): Promise<CaseDocument> {
+    if (this.workflow.canApply(c, 'open_lawyer_selection', actor)) {
+      return this.workflow.apply(c, 'open_lawyer_selection', actor, 'All approvals received');
+    }
+    return c;
+  }
+  async approveCaseByUser(caseId: string, actorId: string, expectedRevision?: number): Promise<CaseDocument> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
-    const c = await this.caseModel.findById(caseId);
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
+    assertRevision(c, expectedRevision);
     if (!c.fullyLocked || !this.areAllStepsSubmitted(c)) throw new BadRequestException('Case must be fully locked and completed before approval');
     const actorObjId = new Types.ObjectId(actorId);
     const isOwner = c.owner?.toString() === actorObjId.toString();
@@ -644,6 +931,7 @@ LetsPrenup Team
     if (!isOwner && !isInvited) throw new ForbiddenException('Actor not part of this case');
     const now = new Date();
     const approval = this.ensureApprovalObj(c);
+    const approvalBefore = c.toObject().approval ?? {};
     if (isOwner) {
       approval.user1Approved = true;
       approval.user1ApprovedAt = now;
@@ -651,53 +939,89 @@ LetsPrenup Team
       approval.user2Approved = true;
       approval.user2ApprovedAt = now;
     }
-    await c.save();
-    if (approval.user1Approved && approval.user2Approved && approval.caseManagerApproved) {
-      c.workflowStatus = 'LAWYER';
-      c.fullyLocked = true;
-      await c.save();
-      await this.notifyUsersToCompletePreLawyer(c);
-    }
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: isOwner ? 'approval.user1' : 'approval.user2', actorId, actorRole: 'end_user', before: { approval: approvalBefore }, after: { approval: c.toObject().approval } });
+    c = await this.openLawyerSelectionIfApproved(c, { id: actorId, role: 'end_user' });
     return c;
   }
-  async approveCaseByLawyer(caseId: string, lawyerId: string): Promise<CaseDocument> {
-    if (!Types.ObjectId.isValid(caseId) || !Types.ObjectId.isValid(lawyerId)) throw new BadRequestException('Invalid ids');
-    const c = await this.caseModel.findById(caseId);
+  /** `actor` is the lawyer's login; the lawyer record comes from that account, never from the request. */
+  async approveCaseByLawyer(caseId: string, actor: { id: string; lawyerId: string }, expectedRevision?: number): Promise<CaseDocument> {
+    const { lawyerId } = actor;
+    if (!Types.ObjectId.isValid(caseId) || !Types.ObjectId.isValid(String(lawyerId))) throw new BadRequestException('Invalid ids');
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
-    const selected = c.preQuestionnaireUser1?.selectedLawyer?.toString() === lawyerId || c.preQuestionnaireUser2?.selectedLawyer?.toString() === lawyerId;
-    if (!selected) throw new ForbiddenException('Lawyer not selected for this case');
+    assertRevision(c, expectedRevision);
+    const clients = clientsOfLawyer(c, lawyerId);
+    if (!clients.length) throw new ForbiddenException('Lawyer not selected for this case');
+    // selections made before introductions existed have none and are treated as accepted
+    const selections = { owner: c.preQuestionnaireUser1, invited: c.preQuestionnaireUser2 };
+    const unaccepted = clients.filter((p) => { const intro = selections[p]?.introduction; return intro && intro.status !== 'accepted'; });
+    if (unaccepted.length) throw new ForbiddenException('Accept the client introduction before approving the case');
     const approval = this.ensureApprovalObj(c);
+    const approvalBefore = c.toObject().approval ?? {};
     approval.lawyerApproved = true;
     approval.lawyerApprovedAt = new Date();
-    approval.approvedLawyer = new Types.ObjectId(lawyerId);
-    await c.save();
+    approval.approvedLawyer = new Types.ObjectId(String(lawyerId));
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'approval.lawyer', actorId: actor.id, actorRole: 'lawyer', before: { approval: approvalBefore }, after: { approval: c.toObject().approval }, meta: { lawyerId: String(lawyerId) } });
     return c;
   }
-  async approveCaseByManager(caseId: string, actorId: string): Promise<CaseDocument> {
+  async approveCaseByManager(caseId: string, actorId: string, actorRole = 'case_manager', expectedRevision?: number): Promise<CaseDocument> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
-    const c = await this.caseModel.findById(caseId);
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
+    assertRevision(c, expectedRevision);
     const approval = this.ensureApprovalObj(c);
+    const approvalBefore = c.toObject().approval ?? {};
     approval.caseManagerApproved = true;
     approval.caseManagerApprovedAt = new Date();
     (approval as any).approvedBy = new Types.ObjectId(actorId);
-    await c.save();
-    if (approval.user1Approved && approval.user2Approved && approval.caseManagerApproved) {
-      c.workflowStatus = 'LAWYER';
-      c.fullyLocked = true;
-      await c.save();
-      await this.notifyUsersToCompletePreLawyer(c);
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({ caseId, action: 'approval.case_manager', actorId, actorRole, before: { approval: approvalBefore }, after: { approval: c.toObject().approval } });
+    c = await this.openLawyerSelectionIfApproved(c, { id: actorId, role: actorRole });
+    return c;
+  }
+  /**
+   * Take an unassigned case that is in case manager review. The case is only
+   * updated while it is still in CM and unassigned, so of two managers
+   * claiming at once one gets a 409; admins reassign through assignCaseManager.
+   */
+  async claimCase(caseId: string, managerId: string, actorRole = 'case_manager'): Promise<CaseDocument> {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    if (!managerId || !Types.ObjectId.isValid(managerId)) throw new BadRequestException('Invalid manager id');
+    const c = await this.caseModel.findOneAndUpdate(
+      { _id: caseId, workflowStatus: 'CM', assignedCaseManager: null },
+      { $set: { assignedCaseManager: new Types.ObjectId(managerId) }, $inc: { revision: 1 } },
+      { new: true },
+    ).exec();
+    if (!c) {
+      const current = await this.caseModel.findById(caseId).select('workflowStatus').lean().exec();
+      if (!current) throw new NotFoundException('Case not found');
+      if (current.workflowStatus !== 'CM') throw new ConflictException('Only cases in case manager review can be claimed');
+      throw new ConflictException('Case is already assigned to a case manager');
     }
+    await this.audit.record({ caseId, action: 'case_manager.assigned', actorId: managerId, actorRole, before: { assignedCaseManager: null }, after: { assignedCaseManager: c.assignedCaseManager } });
+    await this.notifyCaseManagerAssigned(c);
     return c;
   }
-  async assignCaseManager(caseId: string, managerId: string, actorId: string): Promise<CaseDocument> {
+  async assignCaseManager(caseId: string, managerId: string, actorId: string, actorRole = 'case_manager'): Promise<CaseDocument> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
     if (!managerId || !Types.ObjectId.isValid(managerId)) throw new BadRequestException('Invalid manager id');
-    const c = await this.caseModel.findById(caseId);
+    let c: CaseDocument | null = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
+    const previousManager = c.assignedCaseManager ?? null;
     (c as any).assignedCaseManager = new Types.ObjectId(managerId);
-    c.workflowStatus = 'CM';
-    await c.save();
+    const actor = { id: actorId, role: actorRole };
+    if (this.workflow.canApply(c, 'start_review', actor)) {
+      c = await this.workflow.apply(c, 'start_review', actor, 'Case manager assigned');
+    } else {
+      c = await saveCaseChanges(this.caseModel, c);
+    }
+    await this.audit.record({ caseId, action: 'case_manager.assigned', actorId, actorRole, before: { assignedCaseManager: previousManager }, after: { assignedCaseManager: c.assignedCaseManager } });
+    await this.notifyCaseManagerAssigned(c);
+    return c;
+  }
+  private async notifyCaseManagerAssigned(c: CaseDocument) {
     const populated = await this.caseModel.findById(c._id).populate('assignedCaseManager owner invitedUser').exec();
     const cmObj = (populated as any).assignedCaseManager;
     const cmDetails = { name: cmObj && cmObj.name ? cmObj.name : 'Case Manager', email: cmObj && cmObj.email ? cmObj.email : null, phone: cmObj && cmObj.phone ? cmObj.phone : null };
@@ -728,124 +1052,31 @@ Wenup
         try { await (this.mailService as any).sendMail(to.email, subject, body); } catch (e) { }
       }
     }
-    return c;
   }
-  async changeWorkflowStatus(caseId: string, status: string, actorId: string): Promise<CaseDocument> {
+  async changeWorkflowStatus(caseId: string, status: string, actorId: string, actorRole = 'case_manager', reason?: string): Promise<CaseDocument> {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
     const c = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
     const normalized = (status || '').toUpperCase();
     if (!['CM', 'PAID', 'LAWYER'].includes(normalized)) throw new BadRequestException('Invalid status');
-    if (normalized === 'CM') {
-      c.workflowStatus = 'CM';
-      if (!c.assignedCaseManager) c.assignedCaseManager = Types.ObjectId.isValid(actorId) ? new Types.ObjectId(actorId) : null;
-      await c.save();
-      await this.notifyCaseManagersOfNewCmCase(c);
-      return c;
-    }
-    if (normalized === 'PAID') {
-      c.workflowStatus = 'PAID';
-      c.fullyLocked = false;
-      c.fullyLockedBy = null;
-      c.fullyLockedAt = null;
-      if (c.preQuestionnaireUser1) { c.preQuestionnaireUser1.submitted = false; c.preQuestionnaireUser1.submittedBy = null; c.preQuestionnaireUser1.submittedAt = null; }
-      if (c.preQuestionnaireUser2) { c.preQuestionnaireUser2.submitted = false; c.preQuestionnaireUser2.submittedBy = null; c.preQuestionnaireUser2.submittedAt = null; }
-      for (let i = 1; i <= 7; i++) {
-        const sk = `step${i}` as `step${1 | 2 | 3 | 4 | 5 | 6 | 7}`;
-        const s = this.ensureStepStatusObj(c, sk);
-        s.locked = false;
-        s.lockedBy = null;
-        s.lockedAt = null;
-        s.unlockedBy = Types.ObjectId.isValid(actorId) ? new Types.ObjectId(actorId) : null;
-        s.unlockedAt = new Date();
-      }
-      await c.save();
-      await this.notifyUsersCaseMovedToPaid(c);
-      return c;
-    }
-    if (normalized === 'LAWYER') {
-      c.workflowStatus = 'LAWYER';
-      c.fullyLocked = true;
-      c.fullyLockedBy = Types.ObjectId.isValid(actorId) ? new Types.ObjectId(actorId) : null;
-      c.fullyLockedAt = new Date();
-      await c.save();
-      await this.notifyUsersToCompletePreLawyer(c);
-      return c;
-    }
-    return c;
+    if (normalized === 'CM' && !c.assignedCaseManager) c.assignedCaseManager = Types.ObjectId.isValid(actorId) ? new Types.ObjectId(actorId) : null;
+    return this.workflow.transitionTo(c, normalized as WorkflowStatus, { id: actorId, role: actorRole }, reason);
   }
-  private async notifyCaseManagersOfNewCmCase(c: CaseDocument) {
-    try {
-      if (this.mailService && typeof (this.mailService as any).sendCaseManagerIntimation === 'function') { await (this.mailService as any).sendCaseManagerIntimation(c); return; }
-    } catch (e) { }
-    const env = this.config.get('CASE_MANAGER_EMAILS') || '';
-    const emails = (env as string).split(',').map((s) => s.trim()).filter(Boolean);
-    const subject = `New case ready for Case Manager — ${c._id}`;
-    const body = `A case has reached the Case Manager stage.
-
-Case: ${c._id}
-Title: ${(c as any).title ?? 'N/A'}
-
-Please login to the platform to review and manage this case.
-`;
-    if (emails.length > 0 && typeof (this.mailService as any).sendMail === 'function') {
-      for (const to of emails) {
-        try { await (this.mailService as any).sendMail(to, subject, body); } catch (e) { }
-      }
-    }
-  }
-  private async notifyUsersToCompletePreLawyer(c: CaseDocument) {
-    const populated = await this.caseModel.findById(c._id).populate('owner invitedUser').exec();
-    const recipients: string[] = [];
-    if ((populated as any).owner && (populated as any).owner.email) recipients.push((populated as any).owner.email);
-    if ((populated as any).invitedUser && (populated as any).invitedUser.email) recipients.push((populated as any).invitedUser.email);
-    else if (c.invitedEmail) recipients.push(c.invitedEmail);
-    const uniqueRecipients = Array.from(new Set(recipients)).filter(Boolean) as string[];
-    const subject = `Next steps — please complete pre-lawyer questionnaire and select a lawyer`;
-    const body = `Hi,
-
-Thank you both for your emails.
-
-To move forward, could you each please access the platform, complete the pre-lawyer questionnaire, and select your lawyers?
-
-On the platform you will see a selection of lawyers to choose from, you will notice that some are £300 inclusive of VAT or VAT exempt, and others are £300 + VAT. You are both of course welcome to choose whichever lawyers you prefer, the difference is that there would be £60 of VAT applicable to the hourly rate of the lawyers who charge VAT.
-
-Each of you needs to select a different lawyer, and your lawyers cannot work at the same law firm. This ensures that both of you will receive independent legal advice. Please note, you will each need to complete all 4 steps in the process before you are connected to your lawyers.
-
-If you have any questions or need further assistance with these steps, please don’t hesitate to reach out. 
-
-Best wishes,
-
-Your Case Manager
-`;
-    if (uniqueRecipients.length > 0 && typeof (this.mailService as any).sendMail === 'function') {
-      for (const to of uniqueRecipients) {
-        try { await (this.mailService as any).sendMail(to, subject, body); } catch (e) { }
-      }
+  async getWorkflow(caseId: string, user: any) {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId);
+    if (!c) throw new NotFoundException('Case not found');
+    if (!this.isPrivilegedRole(user?.role)) {
+      const userIdStr = (user.id ?? user._id)?.toString();
+      if (c.owner?.toString() !== userIdStr && c.invitedUser?.toString() !== userIdStr) throw new ForbiddenException('Forbidden');
     }
+    return this.workflow.describe(c, { id: user.id ?? user._id, role: user.role });
   }
-  private async notifyUsersCaseMovedToPaid(c: CaseDocument) {
-    const populated = await this.caseModel.findById(c._id).populate('owner invitedUser').exec();
-    const recipients: string[] = [];
-    if ((populated as any).owner && (populated as any).owner.email) recipients.push((populated as any).owner.email);
-    if ((populated as any).invitedUser && (populated as any).invitedUser.email) recipients.push((populated as any).invitedUser.email);
-    else if (c.invitedEmail) recipients.push(c.invitedEmail);
-    const uniqueRecipients = Array.from(new Set(recipients)).filter(Boolean) as string[];
-    const subject = `Case moved to PAID — please re-open pre-questionnaire`;
-    const body = `Hi,
-
-Your case ${c._id} has been moved to 'Paid' by the Case Manager. This means the pre-lawyer questionnaire statuses have been reset and you can now update your answers.
-
-Please login to the platform and edit your pre-lawyer questionnaire and required steps.
-
-Regards,
-Wenup
-`;
-    if (uniqueRecipients.length > 0 && typeof (this.mailService as any).sendMail === 'function') {
-      for (const to of uniqueRecipients) {
-        try { await (this.mailService as any).sendMail(to, subject, body); } catch (e) { }
-      }
-    }
+  async getAuditLog(caseId: string, filter: CaseEventFilter, page = 1, limit = 50) {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    const exists = await this.caseModel.exists({ _id: caseId });
+    if (!exists) throw new NotFoundException('Case not found');
+    return this.audit.listForCase(caseId, filter, page, limit);
   }
   private resolveEmailForActor(c: CaseDocument, actorObjId: Types.ObjectId | null): string | null {
     try {
@@ -868,83 +1099,109 @@ Wenup
     } catch (err) { return null; }
   }
   private friendlyStepName(stepNumber: number): string {
-    switch (stepNumber) {
-      case 1: return 'Personal details (step 1)';
-      case 2: return 'Select lawyer (step 2)';
-      case 3: return 'Partner personal details (step 3)';
-      case 4: return 'Partner finances (step 4)';
-      case 5: return 'Joint assets (step 5)';
-      case 6: return 'Future assets (step 6)';
-      case 7: return 'Finalise & submit (step 7)';
-      default: return `Step ${stepNumber}`;
+    return STEP_LABELS[stepNumber] ? `${STEP_LABELS[stepNumber]} (step ${stepNumber})` : `Step ${stepNumber}`;
+  }
+  private assertStepReadable(c: CaseDocument, stepNumber: number, user: any) {
+    if (!Number.isInteger(stepNumber) || stepNumber < 1 || stepNumber > 7) throw new BadRequestException('Invalid step number');
+    const policy = policyFor(c.caseType);
+    const party = partyOf(c, user?.id ?? user?._id);
+    if (user?.role === 'lawyer') {
+      // a lawyer sees their own client's disclosure and the joint steps
+      const clients = clientsOfLawyer(c, user.lawyer);
+      if (!clients.length) throw new NotFoundException('Case not found');
+      if (!clients.some((p) => canReadStep(policy, stepNumber, p))) throw new ForbiddenException(`Step ${stepNumber} is private to the ${PARTY_LABELS[policy[stepNumber].filledBy]}`);
+    } else if (!this.isPrivilegedRole(user?.role)) {
+      if (!party) throw new ForbiddenException('Forbidden');
+      if (!canReadStep(policy, stepNumber, party)) throw new ForbiddenException(`Step ${stepNumber} is private to the ${PARTY_LABELS[policy[stepNumber].filledBy]}`);
+    }
+    return { policy, party };
+  }
+  async listStepVersions(caseId: string, stepNumber: number, user: any) {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId).select('owner invitedUser caseType preQuestionnaireUser1.selectedLawyer preQuestionnaireUser2.selectedLawyer');
+    if (!c) throw new NotFoundException('Case not found');
+    this.assertStepReadable(c, stepNumber, user);
+    return this.stepVersions.list(caseId, stepNumber);
+  }
+  async getStepVersion(caseId: string, stepNumber: number, version: number, user: any) {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId).select('owner invitedUser caseType preQuestionnaireUser1.selectedLawyer preQuestionnaireUser2.selectedLawyer');
+    if (!c) throw new NotFoundException('Case not found');
+    this.assertStepReadable(c, stepNumber, user);
+    return this.stepVersions.get(caseId, stepNumber, version);
+  }
+  async diffStepVersions(caseId: string, stepNumber: number, user: any, from?: number, to?: number) {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId).select('owner invitedUser caseType preQuestionnaireUser1.selectedLawyer preQuestionnaireUser2.selectedLawyer');
+    if (!c) throw new NotFoundException('Case not found');
+    this.assertStepReadable(c, stepNumber, user);
+    return this.stepVersions.diff(caseId, stepNumber, from, to);
+  }
+  /** The case as `user` may see it: 404 unless they are on it, and without the steps and drafts that are private to someone else. */
+  async getCaseForUser(caseId: string, user: any) {
+    if (this.isPrivilegedRole(user?.role)) {
+      const c = await this.findById(caseId, true);
+      if (!c) throw new NotFoundException('Case not found');
+      return c.toObject();
+    }
+    if (!Types.ObjectId.isValid(caseId)) throw new NotFoundException('Case not found');
+    const c = await this.caseModel.findById(caseId).select(READER_HIDDEN_FIELDS)
+      .populate([{ path: 'owner', select: READER_USER_FIELDS }, { path: 'invitedUser', select: READER_USER_FIELDS }, { path: 'assignedCaseManager', select: READER_USER_FIELDS }, { path: 'preQuestionnaireUser1.selectedLawyer' }, { path: 'preQuestionnaireUser2.selectedLawyer' }]).exec();
+    if (!c) throw new NotFoundException('Case not found');
+    const doc: any = c.toObject();
+    const policy = policyFor(c.caseType);
+    // a lawyer reads as each of their clients on the case
+    const party = partyOf(c, user?.id ?? user?._id);
+    const readers = user?.role === 'lawyer' ? clientsOfLawyer(c, user.lawyer) : party ? [party] : [];
+    if (!readers.length) throw new NotFoundException('Case not found');
+    for (const n of STEP_NUMBERS) {
+      if (readers.some((p) => canReadStep(policy, n, p))) continue;
+      delete doc[`step${n}`];
+      if (doc.stepDrafts) delete doc.stepDrafts[`step${n}`];
     }
+    return doc;
+  }
+  async getProgress(caseId: string, user: any) {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId).lean();
+    if (!c) throw new NotFoundException('Case not found');
+    const party = partyOf(c, user?.id ?? user?._id);
+    const privileged = this.isPrivilegedRole(user?.role);
+    if (!privileged && !party) throw new ForbiddenException('Forbidden');
+    const viewer = { party, privileged };
+    return this.progress.compute(c, viewer, await this.changeRequests.outstanding(c, viewer));
+  }
+  /** Totals per party and for joint assets; a party's section is left out when the viewer may not read that disclosure step. */
+  async getFinancialSummary(caseId: string, user: any) {
+    if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId).select('owner invitedUser caseType step2 step4 step5').lean();
+    if (!c) throw new NotFoundException('Case not found');
+    const policy = policyFor(c.caseType);
+    const party = partyOf(c, user?.id ?? user?._id);
+    const privileged = this.isPrivilegedRole(user?.role);
+    if (!privileged && !party) throw new ForbiddenException('Forbidden');
+    const visible = (['owner', 'invited'] as CaseParty[]).filter((p) => privileged || canReadStep(policy, DISCLOSURE_STEP[p], party!));
+    const summary = computeFinancialSummary(c, visible);
+    return { caseId, ...summary, hiddenParties: (['owner', 'invited'] as CaseParty[]).filter((p) => !visible.includes(p)) };
   }
   async getStepForUi(caseId: string, stepNumber: number, user: any) {
     if (!Types.ObjectId.isValid(caseId)) throw new BadRequestException('Invalid case id');
     const c = await this.caseModel.findById(caseId);
     if (!c) throw new NotFoundException('Case not found');
-    const isPrivileged = this.isPrivilegedRole(user?.role);
-    if (!isPrivileged) {
-      const userIdStr = (user.id ?? user._id)?.toString();
-      if (c.owner?.toString() !== userIdStr && c.invitedUser?.toString() !== userIdStr) throw new ForbiddenException('Forbidden');
-    }
-    if (!Number.isInteger(stepNumber) || stepNumber < 1 || stepNumber > 7) throw new BadRequestException('Invalid step number');
+    const { policy, party } = this.assertStepReadable(c, stepNumber, user);
     const key = `step${stepNumber}` as `step${1 | 2 | 3 | 4 | 5 | 6 | 7}`;
     const doc = (c as any).toObject ? (c as any).toObject() : c;
     const storedStepData = doc[key] ?? {};
     const rawStatus = (doc.status && doc.status[key]) || {};
-    const getEmptyStepTemplate = (n: number) => {
-      switch (n) {
-        case 1:
-        case 3:
-          return { firstName: null, middleNames: null, lastName: null, dateOfBirth: null, address: null, dateOfMarriage: null, hasChildren: false, fluentInEnglish: false, nationality: null, domicileResidencyStatus: null, occupation: null, incomeGBP: null, overviewAim: null, currentLivingSituation: null, confirm_wenup_platform_used: false, property_personal_possessions_remain: false, family_home_divided_equally: false, court_can_depart_for_children: false, agree_costs_shared: false };
-        case 2:
-        case 4:
-          return { separateEarnings: false, earningsEntries: [], separateProperties: false, propertyEntries: [], separateSavings: false, savingsEntries: [], separatePensions: false, pensionEntries: [], separateDebts: false, debtEntries: [], separateBusinesses: false, businessEntries: [], separateChattels: false, chattelEntries: [], separateOtherAssets: false, otherAssetEntries: [] };
-        case 5:
-          return { sharedEarnings: false, sharedEarningsDetails: {}, sharedDebts: false, sharedDebtsDetails: {}, sharedBusinesses: false, sharedBusinessesDetails: {}, sharedChattels: false, sharedChattelsDetails: {}, sharedOtherAssets: false, sharedOtherAssetsDetails: {}, liveInRentedOrOwned: false, sharedSavings: false, sharedPensions: false };
-        case 6:
-          return { inheritanceConsideredSeparate: false, giftConsideredSeparate: false, futureAssetsTreatedJointOrSeparate: false, willBeSameAsDivorceSplit: false, wantWillHelp: false, person1FutureInheritance: { originalAmount: null, originalCurrency: null, gbpEquivalent: null, basisOfEstimate: null }, person2FutureInheritance: { originalAmount: null, originalCurrency: null, gbpEquivalent: null, basisOfEstimate: null } };
-        case 7:
-          return { isOnePregnant: false, isOnePregnantOverview: null, businessWorkedTogether: false, businessWorkedTogetherOverview: null, oneOutOfWorkOrDependent: false, oneOutOfWorkOverview: null, familyHomeOwnedWith3rdParty: false, familyHome3rdPartyOverview: null, combinedAssetsOver3m: false, combinedAssetsOver3mOverview: null, childFromPreviousRelationshipsLivingWithYou: false, childFromPreviousOverview: null, additionalComplexities: {} };
-        default:
-          return {};
-      }
-    };
-    const mergedData = { ...getEmptyStepTemplate(stepNumber), ...storedStepData };
-    const statusNormalized = { submitted: !!rawStatus.submitted, submittedBy: rawStatus.submittedBy ? rawStatus.submittedBy.toString() : null, submittedAt: rawStatus.submittedAt ? rawStatus.submittedAt : null, locked: !!rawStatus.locked, lockedBy: rawStatus.lockedBy ? rawStatus.lockedBy.toString() : null, lockedAt: rawStatus.lockedAt ? rawStatus.lockedAt : null, unlockedBy: rawStatus.unlockedBy ? rawStatus.unlockedBy.toString() : null, unlockedAt: rawStatus.unlockedAt ? rawStatus.unlockedAt : null };
-    const defaultStatus = { submitted: false, submittedBy: null, submittedAt: null, locked: false, lockedBy: null, lockedAt: null, unlockedBy: null, unlockedAt: null };
+    const data = this.stepPayloads.toUi(stepNumber, storedStepData, doc.updatedAt);
+    const statusNormalized = { submitted: !!rawStatus.submitted, submittedBy: rawStatus.submittedBy ? rawStatus.submittedBy.toString() : null, submittedAt: rawStatus.submittedAt ? rawStatus.submittedAt : null, locked: !!rawStatus.locked, lockedBy: rawStatus.lockedBy ? rawStatus.lockedBy.toString() : null, lockedAt: rawStatus.lockedAt ? rawStatus.lockedAt : null, unlockedBy: rawStatus.unlockedBy ? rawStatus.unlockedBy.toString() : null, unlockedAt: rawStatus.unlockedAt ? rawStatus.unlockedAt : null, unlockReason: rawStatus.unlockReason ?? null, draftSavedBy: rawStatus.draftSavedBy ? rawStatus.draftSavedBy.toString() : null, draftSavedAt: rawStatus.draftSavedAt ? rawStatus.draftSavedAt : null };
+    const defaultStatus = { submitted: false, submittedBy: null, submittedAt: null, locked: false, lockedBy: null, lockedAt: null, unlockedBy: null, unlockedAt: null, unlockReason: null, draftSavedBy: null, draftSavedAt: null };
     const finalStatus = Object.values(statusNormalized).some((v) => v !== null && v !== false) ? statusNormalized : defaultStatus;
-    if (stepNumber === 5) {
-      const STEP5_HEADING = 'Joint assets';
-      const STEP5_QUESTIONS = [
-        `Do you have any shared earnings or earnings you'd like to share in the event of a divorce or separation?`,
-        `Do you currently (or will you once married) live in a property that is rented or owned by one or both of you?`,
-        `Do you have any shared savings or savings you'd like to share in the event of a divorce or separation?`,
-        `Do you have any shared pensions or pensions you'd like to share in the event of a divorce or separation?`,
-      ];
-      const STEP5_FOLLOW_UPS = [
-        `Do you have any shared debts or debts you'd like to share in the event of a divorce or separation? This includes current credit card balances, loans, etc.`,
-        `Do you have any shared businesses or businesses you'd like to share in the event of a divorce or separation?`,
-        `Do you have any shared chattels or chattels you'd like to share in the event of a divorce or separation?`,
-        `Do you have any other shared assets or any other assets you'd like to share in the event of a divorce or separation?`,
-      ];
-      const uiQuestions = STEP5_QUESTIONS.map((q, idx) => ({ question: q, answer: idx === 0 ? mergedData.sharedEarnings ? 'yes' : 'no' : idx === 1 ? mergedData.liveInRentedOrOwned ? 'yes' : 'no' : idx === 2 ? mergedData.sharedSavings ? 'yes' : 'no' : idx === 3 ? mergedData.sharedPensions ? 'yes' : 'no' : null }));
-      const uiFollowUps = STEP5_FOLLOW_UPS.map((q, idx) => ({ question: q, answer: idx === 0 ? mergedData.sharedDebts ? 'yes' : 'no' : idx === 1 ? mergedData.sharedBusinesses ? 'yes' : 'no' : idx === 2 ? mergedData.sharedChattels ? 'yes' : 'no' : idx === 3 ? mergedData.sharedOtherAssets ? 'yes' : 'no' : null, details: idx === 0 ? mergedData.sharedDebtsDetails || {} : idx === 1 ? mergedData.sharedBusinessesDetails || {} : idx === 2 ? mergedData.sharedChattelsDetails || {} : idx === 3 ? mergedData.sharedOtherAssetsDetails || {} : {} }));
-      return { stepNumber, data: { heading: STEP5_HEADING, questions: uiQuestions, followUpsShown: !!mergedData.sharedEarnings, followUps: uiFollowUps, savedAt: (mergedData.sharedEarningsDetails && mergedData.sharedEarningsDetails.ui && mergedData.sharedEarningsDetails.ui.savedAt) || doc.updatedAt || null }, status: finalStatus, fullyLocked: !!doc.fullyLocked };
-    }
-    if (stepNumber === 6) {
-      const STEP6_HEADING = 'Future Assets';
-      const STEP6_QUESTIONS = [
-        `If one of you inherits something, will the inheritance be considered the separate asset (Separate) for the person who inherits it, or a joint asset (Joint) shared between both of you?`,
-        `If one of you is gifted something, will the gift be considered a separate asset (Separate) for whichever of you receives it, or a joint asset (Joint) shared between both of you?`,
-        `Do you want any future assets or debts acquired in either of your sole names to be treated as Joint or Separate?`,
-        `This agreement governs what happens in the event of divorce not death, however it is advisable that you make a new Will once you are married. Do you expect what you leave each other in the event of one of your deaths to be the same as the way your assets will be split in the event of a divorce?`,
-      ];
-      const uiQuestions = STEP6_QUESTIONS.map((q, idx) => ({ question: q, answer: idx === 0 ? mergedData.inheritanceConsideredSeparate ? 'yes' : 'no' : idx === 1 ? mergedData.giftConsideredSeparate ? 'yes' : 'no' : idx === 2 ? mergedData.futureAssetsTreatedJointOrSeparate ? 'yes' : 'no' : idx === 3 ? mergedData.willBeSameAsDivorceSplit ? 'yes' : 'no' : null }));
-      const uiPayload = { heading: STEP6_HEADING, questions: uiQuestions, inheritanceSeparate: !!mergedData.inheritanceConsideredSeparate, giftsSeparate: !!mergedData.giftConsideredSeparate, futureSoleAssetsSeparate: !!mergedData.futureAssetsTreatedJointOrSeparate, sameAsWill: !!mergedData.willBeSameAsDivorceSplit, wantWillAssistance: !!mergedData.wantWillHelp, sooriyaFutureInheritance: { originalAmount: mergedData.person1FutureInheritance?.originalAmount ?? null, originalCurrency: mergedData.person1FutureInheritance?.originalCurrency ?? null, gbpEquivalent: mergedData.person1FutureInheritance?.gbpEquivalent ?? null, basisOfEstimate: mergedData.person1FutureInheritance?.basisOfEstimate ?? null }, gomathiFutureInheritance: { originalAmount: mergedData.person2FutureInheritance?.originalAmount ?? null, originalCurrency: mergedData.person2FutureInheritance?.originalCurrency ?? null, gbpEquivalent: mergedData.person2FutureInheritance?.gbpEquivalent ?? null, basisOfEstimate: mergedData.person2FutureInheritance?.basisOfEstimate ?? null }, savedAt: (mergedData.person1FutureInheritance && (mergedData.person1FutureInheritance as any).savedAt) || doc.updatedAt || null };
-      return { stepNumber, data: uiPayload, status: finalStatus, fullyLocked: !!doc.fullyLocked };
-    }
-    return { stepNumber, data: mergedData, status: finalStatus, fullyLocked: !!doc.fullyLocked };
+    const ownership = { filledBy: policy[stepNumber].filledBy, visibility: policy[stepNumber].visibility, canEdit: canWriteStep(policy, stepNumber, party) };
+    // `data` is the submitted version; `draft` is any unsubmitted work on top of it
+    const storedDraft = doc.stepDrafts?.[key];
+    const draft = storedDraft ? this.stepPayloads.toUi(stepNumber, storedDraft, rawStatus.draftSavedAt) : null;
+    const changeRequests = await this.changeRequests.outstanding(doc, undefined, stepNumber);
+    return { stepNumber, data, draft, hasDraft: !!storedDraft, status: finalStatus, fullyLocked: !!doc.fullyLocked, lockState: caseLockState(doc), ownership, changeRequests, revision: doc.revision ?? 0 };
   }
 }
@@ -0,0 +1,289 @@
+// src/cases/change-request.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Case, CaseDocument } from './schemas/case.schema';
+import {
+  CHANGE_REQUEST_STATUSES,
+  ChangeRequest,
+  ChangeRequestDocument,
+  ChangeRequestStatus,
+} from './schemas/change-request.schema';
+import { CaseAuditService } from './case-audit.service';
+import { MailService } from '../mail/mail.service';
+import { STEP_LABELS } from './case-progress.service';
+import { CaseParty, canReadStep, partyOf, policyFor } from './step-ownership';
+
+export interface ChangeRequestInput {
+  stepNumber: number;
+  fieldPath?: string | null;
+  message: string;
+}
+
+/** What the step and progress views show for a request still needing attention. */
+export interface ChangeRequestSummary {
+  id: string;
+  stepNumber: number;
+  fieldPath: string | null;
+  message: string;
+  status: ChangeRequestStatus;
+  targetParty: CaseParty;
+  createdAt: Date | null;
+  respondedAt: Date | null;
+}
+
+const OUTSTANDING: ChangeRequestStatus[] = ['open', 'responded'];
+const FIELD_PATH = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
+
+@Injectable()
+export class ChangeRequestService {
+  constructor(
+    @InjectModel(ChangeRequest.name)
+    private requestModel: Model<ChangeRequestDocument>,
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    private mailService: MailService,
+    private audit: CaseAuditService,
+  ) {}
+
+  /**
+   * Ask the partner who fills in a step to correct it. While the request is
+   * open that partner may edit the step again, whatever the case's locks.
+   */
+  async raise(
+    caseId: string,
+    input: ChangeRequestInput,
+    actor: { id: string; role: string },
+  ) {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const stepNumber = Number(input?.stepNumber);
+    if (!Number.isInteger(stepNumber) || stepNumber < 1 || stepNumber > 7)
+      throw new BadRequestException('Invalid step');
+    const message =
+      typeof input?.message === 'string' ? input.message.trim() : '';
+    if (!message) throw new BadRequestException('message is required');
+    const fieldPath = input?.fieldPath?.trim() || null;
+    if (fieldPath && !FIELD_PATH.test(fieldPath))
+      throw new BadRequestException(`Invalid field path "${fieldPath}"`);
+
+    const c = await this.caseModel
+      .findById(caseId)
+      .populate('owner invitedUser', 'email')
+      .exec();
+    if (!c) throw new NotFoundException('Case not found');
+    if (!(c.status as any)?.[`step${stepNumber}`]?.submitted)
+      throw new BadRequestException(
+        `Step ${stepNumber} has not been submitted yet`,
+      );
+    const targetParty = policyFor(c.caseType)[stepNumber].filledBy;
+    const target: any = targetParty === 'owner' ? c.owner : c.invitedUser;
+    if (!target)
+      throw new BadRequestException(
+        'The partner responsible for this step has not joined the case',
+      );
+
+    const doc = await this.requestModel.create({
+      case: c._id,
+      stepNumber,
+      fieldPath,
+      message,
+      targetParty,
+      targetUser: target._id ?? target,
+      raisedBy: this.toObjectId(actor.id),
+      raisedByRole: actor.role,
+    });
+    await this.audit.record({
+      caseId,
+      action: 'change_request.raised',
+      actorId: actor.id,
+      actorRole: actor.role,
+      stepNumber,
+      paths: fieldPath
+        ? [`step${stepNumber}.${fieldPath}`]
+        : [`step${stepNumber}`],
+      meta: { changeRequestId: String(doc._id), targetParty, message },
+    });
+
+    const email =
+      target.email ?? (targetParty === 'invited' ? c.invitedEmail : null);
+    if (email)
+      await this.mailService.sendChangeRequest(email, c, {
+        stepLabel: STEP_LABELS[stepNumber] ?? `Step ${stepNumber}`,
+        fieldPath,
+        message,
+      });
+    return doc.toObject();
+  }
+
+  /** Privileged users see every request; partners only those addressed to them. */
+  async list(
+    caseId: string,
+    user: any,
+    filter: { status?: string[]; stepNumber?: number } = {},
+  ) {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel
+      .findById(caseId)
+      .select('owner invitedUser')
+      .lean()
+      .exec();
+    if (!c) throw new NotFoundException('Case not found');
+    const q: any = { case: new Types.ObjectId(caseId) };
+    if (!this.isPrivilegedRole(user?.role)) {
+      const party = partyOf(c, user?.id ?? user?._id);
+      if (!party) throw new ForbiddenException('Forbidden');
+      q.targetParty = party;
+    }
+    if (filter.status?.length) {
+      const bad = filter.status.filter(
+        (s) => !CHANGE_REQUEST_STATUSES.includes(s as ChangeRequestStatus),
+      );
+      if (bad.length)
+        throw new BadRequestException(`Invalid status: ${bad.join(', ')}`);
+      q.status = { $in: filter.status };
+    }
+    if (filter.stepNumber !== undefined) q.stepNumber = filter.stepNumber;
+    const docs = await this.requestModel
+      .find(q)
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+    return { total: docs.length, docs };
+  }
+
+  async resolve(
+    caseId: string,
+    requestId: string,
+    actor: { id: string; role: string },
+    note?: string,
+  ) {
+    if (!Types.ObjectId.isValid(caseId) || !Types.ObjectId.isValid(requestId))
+      throw new BadRequestException('Invalid id');
+    const doc = await this.requestModel.findOne({
+      _id: requestId,
+      case: new Types.ObjectId(caseId),
+    });
+    if (!doc) throw new NotFoundException('Change request not found');
+    if (doc.status === 'resolved')
+      throw new BadRequestException('Change request is already resolved');
+    const before = doc.status;
+    doc.status = 'resolved';
+    doc.resolvedBy = this.toObjectId(actor.id);
+    doc.resolvedAt = new Date();
+    doc.resolutionNote = note?.trim() || null;
+    await doc.save();
+    await this.audit.record({
+      caseId,
+      action: 'change_request.resolved',
+      actorId: actor.id,
+      actorRole: actor.role,
+      stepNumber: doc.stepNumber,
+      before: { status: before },
+      after: { status: 'resolved' },
+      meta: { changeRequestId: requestId, note: doc.resolutionNote },
+    });
+    return doc.toObject();
+  }
+
+  /** True when `party` has an open request on the step, which lets them edit it. */
+  async hasOpen(caseId: string, stepNumber: number, party: CaseParty | null) {
+    if (!party) return false;
+    const found = await this.requestModel.exists({
+      case: new Types.ObjectId(caseId),
+      stepNumber,
+      targetParty: party,
+      status: 'open',
+    });
+    return !!found;
+  }
+
+  /** A step resubmitted by `party` answers the open requests addressed to them. */
+  async markResponded(
+    caseId: string,
+    stepNumber: number,
+    party: CaseParty | null,
+    actorId: string,
+    actorRole?: string | null,
+  ) {
+    if (!party) return 0;
+    const caseObjId = new Types.ObjectId(caseId);
+    const open = await this.requestModel
+      .find({ case: caseObjId, stepNumber, targetParty: party, status: 'open' })
+      .select('_id')
+      .lean()
+      .exec();
+    if (!open.length) return 0;
+    const ids = open.map((r) => r._id);
+    await this.requestModel.updateMany(
+      { _id: { $in: ids } },
+      {
+        $set: {
+          status: 'responded',
+          respondedBy: this.toObjectId(actorId),
+          respondedAt: new Date(),
+        },
+      },
+    );
+    await this.audit.record({
+      caseId,
+      action: 'change_request.responded',
+      actorId,
+      actorRole,
+      stepNumber,
+      meta: { changeRequestIds: ids.map(String) },
+    });
+    return ids.length;
+  }
+
+  /**
+   * Open and responded requests on a case, limited to steps the viewer may
+   * read (`viewer` omitted means no restriction).
+   */
+  async outstanding(
+    c: any,
+    viewer?: { party: CaseParty | null; privileged: boolean },
+    stepNumber?: number,
+  ): Promise<ChangeRequestSummary[]> {
+    const q: any = { case: c._id, status: { $in: OUTSTANDING } };
+    if (stepNumber !== undefined) q.stepNumber = stepNumber;
+    const docs = await this.requestModel
+      .find(q)
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+    const policy = policyFor(c.caseType);
+    return docs
+      .filter(
+        (r) =>
+          !viewer ||
+          viewer.privileged ||
+          canReadStep(policy, r.stepNumber, viewer.party),
+      )
+      .map((r) => ({
+        id: String(r._id),
+        stepNumber: r.stepNumber,
+        fieldPath: r.fieldPath ?? null,
+        message: r.message,
+        status: r.status,
+        targetParty: r.targetParty,
+        createdAt: r.createdAt ?? null,
+        respondedAt: r.respondedAt ?? null,
+      }));
+  }
+
+  private isPrivilegedRole(role?: string) {
+    return role === 'superadmin' || role === 'admin' || role === 'case_manager';
+  }
+
+  private toObjectId(id: any): Types.ObjectId | null {
+    return id && Types.ObjectId.isValid(String(id))
+      ? new Types.ObjectId(String(id))
+      : null;
+  }
+}
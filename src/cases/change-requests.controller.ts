@@ -0,0 +1,88 @@
+// src/cases/change-requests.controller.ts
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { ChangeRequestService } from './change-request.service';
+import {
+  CreateChangeRequestDto,
+  ResolveChangeRequestDto,
+} from './dto/change-request.dto';
+
+@Controller('cases/:id/change-requests')
+export class ChangeRequestsController {
+  constructor(private changeRequests: ChangeRequestService) {}
+  private ensureUser(req: any) {
+    const user = req.user;
+    if (!user) throw new UnauthorizedException('Authentication required');
+    return user;
+  }
+  private isPrivilegedRole(role?: string) {
+    return role === 'superadmin' || role === 'admin' || role === 'case_manager';
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  async list(
+    @Req() req,
+    @Param('id') id: string,
+    @Query('status') status?: string,
+    @Query('stepNumber') stepNumber?: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.changeRequests.list(id, user, {
+      status: status
+        ? status
+            .split(',')
+            .map((s) => s.trim())
+            .filter(Boolean)
+        : undefined,
+      stepNumber: stepNumber ? Number(stepNumber) : undefined,
+    });
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post()
+  async raise(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() body: CreateChangeRequestDto,
+  ) {
+    const user = this.ensureUser(req);
+    if (!this.isPrivilegedRole(user.role))
+      throw new ForbiddenException(
+        'Only case managers/admins may request changes',
+      );
+    return this.changeRequests.raise(id, body, {
+      id: String(user.id ?? user._id),
+      role: user.role,
+    });
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post(':requestId/resolve')
+  async resolve(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('requestId') requestId: string,
+    @Body() body: ResolveChangeRequestDto,
+  ) {
+    const user = this.ensureUser(req);
+    if (!this.isPrivilegedRole(user.role))
+      throw new ForbiddenException(
+        'Only case managers/admins may resolve change requests',
+      );
+    return this.changeRequests.resolve(
+      id,
+      requestId,
+      { id: String(user.id ?? user._id), role: user.role },
+      body?.note,
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateChangeRequestDto {
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  stepNumber: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  fieldPath?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  message: string;
+}
+
+export class ResolveChangeRequestDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
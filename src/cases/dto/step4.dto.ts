@@ -1,11 +1,14 @@
 // src/cases/dto/step2.dto.ts
 import { Type } from 'class-transformer';
-import { IsArray, IsBoolean, IsNumber, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { IsArray, IsBoolean, IsISO4217CurrencyCode, IsNumber, IsOptional, IsString, ValidateNested } from 'class-validator';
 
 class IncomeEntryDto {
   @IsString() source: string;
   @IsNumber() amount: number;
   @IsOptional() @IsString() notes?: string;
+  // ISO code; omitted means GBP. gbpEquivalent is recomputed server-side.
+  @IsOptional() @IsISO4217CurrencyCode() currency?: string;
+  @IsOptional() @IsNumber() gbpEquivalent?: number;
 }
 
 class PropertyEntryDto {
@@ -16,18 +19,24 @@ class PropertyEntryDto {
   @IsOptional() @IsNumber() value?: number;
   @IsOptional() @IsString() mortgageOutstanding?: string;
   @IsOptional() @IsString() notes?: string;
+  @IsOptional() @IsISO4217CurrencyCode() currency?: string;
+  @IsOptional() @IsNumber() gbpEquivalent?: number;
 }
 
 class SavingEntryDto {
   @IsOptional() @IsString() name?: string;
   @IsOptional() @IsNumber() amount?: number;
   @IsOptional() @IsString() notes?: string;
+  @IsOptional() @IsISO4217CurrencyCode() currency?: string;
+  @IsOptional() @IsNumber() gbpEquivalent?: number;
 }
 
 class PensionEntryDto {
   @IsOptional() @IsString() name?: string;
   @IsOptional() @IsNumber() value?: number;
   @IsOptional() @IsString() notes?: string;
+  @IsOptional() @IsISO4217CurrencyCode() currency?: string;
+  @IsOptional() @IsNumber() gbpEquivalent?: number;
 }
 
 class DebtEntryDto {
@@ -35,6 +44,8 @@ class DebtEntryDto {
   @IsOptional() @IsString() description?: string;
   @IsOptional() @IsNumber() amount?: number;
   @IsOptional() @IsString() notes?: string;
+  @IsOptional() @IsISO4217CurrencyCode() currency?: string;
+  @IsOptional() @IsNumber() gbpEquivalent?: number;
 }
 
 class BusinessEntryDto {
@@ -43,6 +54,8 @@ class BusinessEntryDto {
   @IsOptional() @IsNumber() value?: number;
   @IsOptional() @IsNumber() ownershipPercentage?: number;
   @IsOptional() @IsString() explanation?: string;
+  @IsOptional() @IsISO4217CurrencyCode() currency?: string;
+  @IsOptional() @IsNumber() gbpEquivalent?: number;
 }
 
 class ChattelEntryDto {
@@ -50,6 +63,8 @@ class ChattelEntryDto {
   @IsOptional() @IsNumber() value?: number;
   @IsOptional() @IsString() registrationOrId?: string;
   @IsOptional() @IsString() notes?: string;
+  @IsOptional() @IsISO4217CurrencyCode() currency?: string;
+  @IsOptional() @IsNumber() gbpEquivalent?: number;
 }
 
 class OtherAssetEntryDto {
@@ -57,6 +72,8 @@ class OtherAssetEntryDto {
   @IsOptional() @IsString() description?: string;
   @IsOptional() @IsNumber() value?: number;
   @IsOptional() @IsString() notes?: string;
+  @IsOptional() @IsISO4217CurrencyCode() currency?: string;
+  @IsOptional() @IsNumber() gbpEquivalent?: number;
 }
 
 export class Step4Dto {
@@ -1,5 +1,12 @@
 // src/cases/dto/step7.dto.ts
-import { IsBoolean, IsOptional, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
 
 // Sub DTO for a question with optional overview
 class Step7QuestionDto {
@@ -14,39 +21,75 @@ class Step7QuestionDto {
 export class Step7Dto {
   // 1. Pregnancy
   @IsOptional()
+  @IsString()
   overview?: string;
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   pregnancy?: Step7QuestionDto;
 
   // 2. Business worked in together
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   businessTogether?: Step7QuestionDto;
 
   // 3. Out of work / financially dependent
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   outOfWorkDependent?: Step7QuestionDto;
 
   // 4. Family home owned with a 3rd party
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   familyHomeThirdParty?: Step7QuestionDto;
 
   // 5. Combined assets worth more than £3m
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   assetsOver3M?: Step7QuestionDto;
 
   // 6. Repeated: Out of work / financially dependent
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   outOfWorkDependent2?: Step7QuestionDto;
 
   // 7. Repeated: Family home owned with 3rd party
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   familyHomeThirdParty2?: Step7QuestionDto;
 
   // 8. Repeated: Combined assets worth more than £3m
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   assetsOver3M2?: Step7QuestionDto;
 
   // 9. Child from current or previous relationships living with you
   @IsOptional()
+  @ValidateNested()
+  @Type(() => Step7QuestionDto)
   childLivingWithYou?: Step7QuestionDto;
+
+  // Stored shape, as returned by GET /cases/:id/steps/7
+  @IsOptional() @IsBoolean() isOnePregnant?: boolean;
+  @IsOptional() @IsString() isOnePregnantOverview?: string | null;
+  @IsOptional() @IsBoolean() businessWorkedTogether?: boolean;
+  @IsOptional() @IsString() businessWorkedTogetherOverview?: string | null;
+  @IsOptional() @IsBoolean() oneOutOfWorkOrDependent?: boolean;
+  @IsOptional() @IsString() oneOutOfWorkOverview?: string | null;
+  @IsOptional() @IsBoolean() familyHomeOwnedWith3rdParty?: boolean;
+  @IsOptional() @IsString() familyHome3rdPartyOverview?: string | null;
+  @IsOptional() @IsBoolean() combinedAssetsOver3m?: boolean;
+  @IsOptional() @IsString() combinedAssetsOver3mOverview?: string | null;
+  @IsOptional()
+  @IsBoolean()
+  childFromPreviousRelationshipsLivingWithYou?: boolean;
+  @IsOptional() @IsString() childFromPreviousOverview?: string | null;
+  @IsOptional() @IsObject() additionalComplexities?: Record<string, any>;
 }
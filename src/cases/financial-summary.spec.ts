@@ -0,0 +1,145 @@
+import {
+  FinancialWarning,
+  computeFinancialSummary,
+  parseAmount,
+  summariseDisclosure,
+  summariseJoint,
+} from './financial-summary';
+
+describe('parseAmount', () => {
+  it('reads typed amounts', () => {
+    expect(parseAmount(1500)).toBe(1500);
+    expect(parseAmount('£120,000')).toBe(120000);
+    expect(parseAmount('120k')).toBe(120000);
+    expect(parseAmount('1.2m')).toBe(1200000);
+    expect(parseAmount('none')).toBe(0);
+  });
+
+  it('rejects what it cannot read', () => {
+    expect(parseAmount('about 100 or so')).toBeNull();
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount(NaN)).toBeNull();
+    expect(parseAmount(undefined)).toBeNull();
+  });
+});
+
+describe('summariseDisclosure', () => {
+  it('totals assets, equity and liabilities', () => {
+    const warnings: FinancialWarning[] = [];
+    const f = summariseDisclosure(
+      'owner',
+      {
+        earningsEntries: [{ source: 'Salary', amount: 50000 }],
+        propertyEntries: [{ value: 300000, mortgageOutstanding: '£200k' }],
+        savingsEntries: [{ amount: 10000 }],
+        businessEntries: [{ value: 100000, ownershipPercentage: 25 }],
+        debtEntries: [{ amount: 5000 }],
+      },
+      warnings,
+    );
+    expect(warnings).toEqual([]);
+    expect(f.annualEarnings).toBe(50000);
+    expect(f.categories.property).toEqual({
+      count: 1,
+      total: 100000,
+      value: 300000,
+      mortgage: 200000,
+    });
+    expect(f.grossAssets).toBe(335000);
+    expect(f.liabilities).toBe(205000);
+    expect(f.netWorth).toBe(130000);
+  });
+
+  it('warns about gaps instead of guessing', () => {
+    const warnings: FinancialWarning[] = [];
+    summariseDisclosure(
+      'invited',
+      {
+        separateSavings: true,
+        pensionEntries: [{ name: 'Work pension' }],
+        propertyEntries: [{ value: 100, mortgageOutstanding: 'some' }],
+        businessEntries: [{ value: 10, ownershipPercentage: 150 }],
+      },
+      warnings,
+    );
+    expect(warnings.map((w) => [w.scope, w.category, w.code])).toEqual([
+      ['invited', 'savings', 'declared_without_entries'],
+      ['invited', 'pensions', 'missing_value'],
+      ['invited', 'property', 'unparseable_amount'],
+      ['invited', 'businesses', 'invalid_ownership_percentage'],
+    ]);
+  });
+
+  it('flags negative equity', () => {
+    const warnings: FinancialWarning[] = [];
+    summariseDisclosure(
+      'owner',
+      { propertyEntries: [{ value: 100000, mortgageOutstanding: 150000 }] },
+      warnings,
+    );
+    expect(warnings.map((w) => w.code)).toEqual(['negative_equity']);
+  });
+});
+
+describe('summariseJoint', () => {
+  it('totals joint amounts from the step 5 details', () => {
+    const warnings: FinancialWarning[] = [];
+    const f = summariseJoint(
+      {
+        sharedEarnings: true,
+        sharedEarningsDetails: { amount: '60k' },
+        sharedDebts: true,
+        sharedDebtsDetails: { balance: 2000 },
+      },
+      warnings,
+    );
+    expect(warnings).toEqual([]);
+    expect(f.annualEarnings).toBe(60000);
+    expect(f.liabilities).toBe(2000);
+  });
+
+  it('counts yes/no answers without amounts and does not warn about them', () => {
+    const warnings: FinancialWarning[] = [];
+    const f = summariseJoint(
+      { liveInRentedOrOwned: true, sharedSavings: true, sharedPensions: true },
+      warnings,
+    );
+    expect(warnings).toEqual([]);
+    expect(f.categories.savings.count).toBe(1);
+    expect(f.categories.pensions.count).toBe(1);
+    expect(f.categories.property.count).toBe(0);
+    expect(f.grossAssets).toBe(0);
+  });
+
+  it('warns when declared details carry no readable amount', () => {
+    const warnings: FinancialWarning[] = [];
+    summariseJoint(
+      {
+        sharedChattels: true,
+        sharedChattelsDetails: { description: 'Car' },
+        sharedBusinesses: true,
+        sharedBusinessesDetails: { value: 'lots' },
+      },
+      warnings,
+    );
+    expect(warnings.map((w) => [w.category, w.field, w.code])).toEqual([
+      ['businesses', 'value', 'unparseable_amount'],
+      ['chattels', 'sharedChattelsDetails', 'missing_value'],
+    ]);
+  });
+});
+
+describe('computeFinancialSummary', () => {
+  it('leaves out parties that were not asked for', () => {
+    const summary = computeFinancialSummary(
+      {
+        step2: { savingsEntries: [{ amount: 1000 }] },
+        step4: { savingsEntries: [{ amount: 2000 }] },
+        step5: {},
+      },
+      ['owner'],
+    );
+    expect(Object.keys(summary.parties)).toEqual(['owner']);
+    expect(summary.combined.grossAssets).toBe(1000);
+  });
+});
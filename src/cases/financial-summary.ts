@@ -0,0 +1,375 @@
+// src/cases/financial-summary.ts
+// Aggregates the step 2/4 disclosures and step 5 joint assets into per-party totals.
+import type { CaseParty } from './step-ownership';
+
+export type SummaryScope = CaseParty | 'joint';
+
+export interface FinancialWarning {
+  scope: SummaryScope;
+  category: string;
+  /** Position of the entry in its array; absent for category-level warnings. */
+  index?: number;
+  field?: string;
+  code:
+    | 'missing_value'
+    | 'unparseable_amount'
+    | 'negative_equity'
+    | 'declared_without_entries'
+    | 'invalid_ownership_percentage'
+    | 'missing_exchange_rate'
+    | 'currency_deviation';
+  message: string;
+}
+
+export interface CategoryTotal {
+  count: number;
+  total: number;
+}
+
+export interface PropertyTotal extends CategoryTotal {
+  /** Sum of property values; `total` is the equity (value minus mortgages). */
+  value: number;
+  mortgage: number;
+}
+
+export interface PartyFinancials {
+  categories: {
+    earnings: CategoryTotal;
+    property: PropertyTotal;
+    savings: CategoryTotal;
+    pensions: CategoryTotal;
+    businesses: CategoryTotal;
+    chattels: CategoryTotal;
+    otherAssets: CategoryTotal;
+    debts: CategoryTotal;
+  };
+  /** Annual earnings are reported alongside, not counted towards net worth. */
+  annualEarnings: number;
+  grossAssets: number;
+  liabilities: number;
+  netWorth: number;
+}
+
+export interface FinancialSummary {
+  currency: 'GBP';
+  parties: Partial<Record<CaseParty, PartyFinancials>>;
+  joint: PartyFinancials;
+  combined: { grossAssets: number; liabilities: number; netWorth: number };
+  warnings: FinancialWarning[];
+}
+
+// Disclosure step behind each party's separate finances.
+export const DISCLOSURE_STEP: Record<CaseParty, number> = {
+  owner: 2,
+  invited: 4,
+};
+
+const NIL_WORDS =
+  /^(none|nil|n\/a|na|no|no mortgage|mortgage free|paid off|-)$/i;
+
+/**
+ * Parse a user-typed amount such as "£120,000", "120k", "1.2m" or "none".
+ * Returns null when the text cannot be read as a single amount.
+ */
+export function parseAmount(raw: any): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+  const text = raw.trim();
+  if (!text) return null;
+  if (NIL_WORDS.test(text)) return 0;
+  const m = text
+    .replace(/,/g, '')
+    .match(
+      /^(?:gbp|£)?\s*(\d+(?:\.\d+)?)\s*(k|m|thousand|million)?\s*(?:gbp|£)?$/i,
+    );
+  if (!m) return null;
+  const n = Number(m[1]);
+  const unit = (m[2] ?? '').toLowerCase();
+  if (unit === 'k' || unit === 'thousand') return n * 1_000;
+  if (unit === 'm' || unit === 'million') return n * 1_000_000;
+  return n;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const emptyTotal = (): CategoryTotal => ({ count: 0, total: 0 });
+
+function emptyFinancials(): PartyFinancials {
+  return {
+    categories: {
+      earnings: emptyTotal(),
+      property: { count: 0, total: 0, value: 0, mortgage: 0 },
+      savings: emptyTotal(),
+      pensions: emptyTotal(),
+      businesses: emptyTotal(),
+      chattels: emptyTotal(),
+      otherAssets: emptyTotal(),
+      debts: emptyTotal(),
+    },
+    annualEarnings: 0,
+    grossAssets: 0,
+    liabilities: 0,
+    netWorth: 0,
+  };
+}
+
+function finalise(f: PartyFinancials): PartyFinancials {
+  const c = f.categories;
+  for (const t of Object.values(c)) t.total = round(t.total);
+  c.property.value = round(c.property.value);
+  c.property.mortgage = round(c.property.mortgage);
+  f.annualEarnings = c.earnings.total;
+  f.grossAssets = round(
+    c.property.value +
+      c.savings.total +
+      c.pensions.total +
+      c.businesses.total +
+      c.chattels.total +
+      c.otherAssets.total,
+  );
+  f.liabilities = round(c.property.mortgage + c.debts.total);
+  f.netWorth = round(f.grossAssets - f.liabilities);
+  return f;
+}
+
+// [category, declared flag, entries key, value field]
+const SEPARATE_CATEGORIES: [
+  Exclude<keyof PartyFinancials['categories'], 'property' | 'businesses'>,
+  string,
+  string,
+  string,
+][] = [
+  ['earnings', 'separateEarnings', 'earningsEntries', 'amount'],
+  ['savings', 'separateSavings', 'savingsEntries', 'amount'],
+  ['pensions', 'separatePensions', 'pensionEntries', 'value'],
+  ['chattels', 'separateChattels', 'chattelEntries', 'value'],
+  ['otherAssets', 'separateOtherAssets', 'otherAssetEntries', 'value'],
+  ['debts', 'separateDebts', 'debtEntries', 'amount'],
+];
+
+export function summariseDisclosure(
+  scope: CaseParty,
+  d: any,
+  warnings: FinancialWarning[],
+): PartyFinancials {
+  const f = emptyFinancials();
+  const entriesOf = (key: string): any[] =>
+    Array.isArray(d?.[key]) ? d[key] : [];
+  const warn = (w: Omit<FinancialWarning, 'scope'>) =>
+    warnings.push({ scope, ...w });
+  // Multiplier taking an entry's own currency to GBP, using the rate stored
+  // when the step was submitted; null when no rate was available.
+  const gbpFactor = (e: any, category: string, index: number) => {
+    if (!e?.currency || String(e.currency).toUpperCase() === 'GBP') return 1;
+    if (e.fx?.flagged && !e.fx.missingRate)
+      warn({
+        category,
+        index,
+        field: 'gbpEquivalent',
+        code: 'currency_deviation',
+        message: `${category} entry ${index + 1}: declared GBP value ${e.fx.declaredGbpEquivalent} differs from the computed ${e.gbpEquivalent} by ${Math.round((e.fx.deviation ?? 0) * 100)}%`,
+      });
+    if (e.fx?.unitsPerGbp) return 1 / e.fx.unitsPerGbp;
+    warn({
+      category,
+      index,
+      field: 'currency',
+      code: 'missing_exchange_rate',
+      message: `${category} entry ${index + 1}: no ${e.currency} exchange rate; left out of totals`,
+    });
+    return null;
+  };
+  const declaredEmpty = (category: string, flag: string, key: string) => {
+    if (d?.[flag] && !entriesOf(key).length)
+      warn({
+        category,
+        code: 'declared_without_entries',
+        message: `${category} declared but no entries given`,
+      });
+  };
+
+  for (const [category, flag, key, field] of SEPARATE_CATEGORIES) {
+    declaredEmpty(category, flag, key);
+    entriesOf(key).forEach((e, index) => {
+      f.categories[category].count++;
+      const amount = parseAmount(e?.[field]);
+      if (amount === null) {
+        warn({
+          category,
+          index,
+          field,
+          code: 'missing_value',
+          message: `${category} entry ${index + 1} has no ${field}`,
+        });
+        return;
+      }
+      const factor = gbpFactor(e, category, index);
+      if (factor !== null) f.categories[category].total += amount * factor;
+    });
+  }
+
+  declaredEmpty('property', 'separateProperties', 'propertyEntries');
+  entriesOf('propertyEntries').forEach((e, index) => {
+    const p = f.categories.property;
+    p.count++;
+    const value = parseAmount(e?.value);
+    if (value === null)
+      warn({
+        category: 'property',
+        index,
+        field: 'value',
+        code: 'missing_value',
+        message: `property entry ${index + 1} has no value`,
+      });
+    let mortgage = 0;
+    const rawMortgage = e?.mortgageOutstanding;
+    if (
+      rawMortgage !== undefined &&
+      rawMortgage !== null &&
+      rawMortgage !== ''
+    ) {
+      const parsed = parseAmount(rawMortgage);
+      if (parsed === null)
+        warn({
+          category: 'property',
+          index,
+          field: 'mortgageOutstanding',
+          code: 'unparseable_amount',
+          message: `property entry ${index + 1}: could not read mortgage "${rawMortgage}"; treated as 0`,
+        });
+      else mortgage = parsed;
+    }
+    const factor = gbpFactor(e, 'property', index);
+    if (factor === null) return;
+    p.value += (value ?? 0) * factor;
+    p.mortgage += mortgage * factor;
+    p.total += ((value ?? 0) - mortgage) * factor;
+    if (value !== null && mortgage > value)
+      warn({
+        category: 'property',
+        index,
+        code: 'negative_equity',
+        message: `property entry ${index + 1} has a mortgage larger than its value`,
+      });
+  });
+
+  declaredEmpty('businesses', 'separateBusinesses', 'businessEntries');
+  entriesOf('businessEntries').forEach((e, index) => {
+    const b = f.categories.businesses;
+    b.count++;
+    const value = parseAmount(e?.value);
+    if (value === null) {
+      warn({
+        category: 'businesses',
+        index,
+        field: 'value',
+        code: 'missing_value',
+        message: `business entry ${index + 1} has no value`,
+      });
+      return;
+    }
+    let share = 1;
+    const pct = e?.ownershipPercentage;
+    if (pct !== undefined && pct !== null) {
+      if (typeof pct !== 'number' || pct < 0 || pct > 100)
+        warn({
+          category: 'businesses',
+          index,
+          field: 'ownershipPercentage',
+          code: 'invalid_ownership_percentage',
+          message: `business entry ${index + 1} has an ownership percentage outside 0-100; full value used`,
+        });
+      else share = pct / 100;
+    }
+    const factor = gbpFactor(e, 'businesses', index);
+    if (factor !== null) b.total += value * share * factor;
+  });
+
+  return finalise(f);
+}
+
+// step 5 flag -> [category, free-form details key]. Shared savings and
+// pensions are yes/no answers with no details to read an amount from, so they
+// are counted but not totalled. Living together (`liveInRentedOrOwned`) does
+// not say whether the home is owned and is not an asset here.
+const JOINT_CATEGORIES: [
+  string,
+  keyof PartyFinancials['categories'],
+  string | null,
+][] = [
+  ['sharedEarnings', 'earnings', 'sharedEarningsDetails'],
+  ['sharedSavings', 'savings', null],
+  ['sharedPensions', 'pensions', null],
+  ['sharedDebts', 'debts', 'sharedDebtsDetails'],
+  ['sharedBusinesses', 'businesses', 'sharedBusinessesDetails'],
+  ['sharedChattels', 'chattels', 'sharedChattelsDetails'],
+  ['sharedOtherAssets', 'otherAssets', 'sharedOtherAssetsDetails'],
+];
+
+// keys looked for, in order, in the free-form step 5 details objects
+const JOINT_AMOUNT_KEYS = ['amount', 'value', 'total', 'balance'];
+
+export function summariseJoint(
+  s5: any,
+  warnings: FinancialWarning[],
+): PartyFinancials {
+  const f = emptyFinancials();
+  for (const [flag, category, detailsKey] of JOINT_CATEGORIES) {
+    if (!s5?.[flag]) continue;
+    const t = f.categories[category];
+    t.count++;
+    if (!detailsKey) continue;
+    const details = s5[detailsKey];
+    const key = JOINT_AMOUNT_KEYS.find(
+      (k) => details?.[k] !== undefined && details[k] !== '',
+    );
+    const amount = key ? parseAmount(details[key]) : null;
+    if (amount === null) {
+      warnings.push({
+        scope: 'joint',
+        category,
+        field: key ?? detailsKey,
+        code: key ? 'unparseable_amount' : 'missing_value',
+        message: key
+          ? `joint ${category}: could not read ${key} "${details[key]}"`
+          : `joint ${category} declared without an amount`,
+      });
+      continue;
+    }
+    t.total += amount;
+  }
+  return finalise(f);
+}
+
+/**
+ * Per-party and joint totals for a case. Only the parties listed in
+ * `parties` are computed, so callers can leave out a disclosure the viewer
+ * may not see.
+ */
+export function computeFinancialSummary(
+  c: any,
+  parties: CaseParty[],
+): FinancialSummary {
+  const warnings: FinancialWarning[] = [];
+  const out: FinancialSummary['parties'] = {};
+  for (const party of parties)
+    out[party] = summariseDisclosure(
+      party,
+      c[`step${DISCLOSURE_STEP[party]}`],
+      warnings,
+    );
+  const joint = summariseJoint(c.step5, warnings);
+  const all = [...Object.values(out), joint] as PartyFinancials[];
+  const sum = (k: 'grossAssets' | 'liabilities' | 'netWorth') =>
+    round(all.reduce((acc, f) => acc + f[k], 0));
+  return {
+    currency: 'GBP',
+    parties: out,
+    joint,
+    combined: {
+      grossAssets: sum('grossAssets'),
+      liabilities: sum('liabilities'),
+      netWorth: sum('netWorth'),
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,113 @@
+import { Types } from 'mongoose';
+import { checkLawyerConflicts } from './lawyer-conflicts';
+
+const firmA = new Types.ObjectId();
+const firmB = new Types.ObjectId();
+const lawyer = (over: Record<string, any> = {}) => ({
+  _id: new Types.ObjectId(),
+  status: 'available',
+  verified: true,
+  company: firmA,
+  conflicts: [],
+  ...over,
+});
+const client = { id: String(new Types.ObjectId()), email: 'sam@example.com' };
+const codes = (input: Parameters<typeof checkLawyerConflicts>[0]) =>
+  checkLawyerConflicts(input).map((c) => [c.code, c.overridable]);
+
+describe('checkLawyerConflicts', () => {
+  it('passes an available, verified lawyer from another firm', () => {
+    expect(
+      codes({
+        lawyer: lawyer(),
+        party: 'owner',
+        client,
+        otherLawyer: lawyer({ company: firmB }),
+      }),
+    ).toEqual([]);
+  });
+
+  it('blocks archived lawyers and flags unavailable or unverified ones', () => {
+    expect(
+      codes({
+        lawyer: lawyer({ status: 'archived' }),
+        party: 'owner',
+        client,
+        otherLawyer: null,
+      }),
+    ).toEqual([['lawyer_archived', false]]);
+    expect(
+      codes({
+        lawyer: lawyer({ status: 'unavailable', verified: false }),
+        party: 'owner',
+        client,
+        otherLawyer: null,
+      }),
+    ).toEqual([
+      ['lawyer_unavailable', true],
+      ['lawyer_unverified', true],
+    ]);
+  });
+
+  it('requires independent lawyers for the two partners', () => {
+    const chosen = lawyer();
+    expect(
+      codes({
+        lawyer: chosen,
+        party: 'invited',
+        client,
+        otherLawyer: { ...chosen },
+      }),
+    ).toEqual([['same_lawyer', true]]);
+    expect(
+      codes({
+        lawyer: lawyer({ company: { _id: firmA, name: 'Firm A' } }),
+        party: 'invited',
+        client,
+        otherLawyer: chosen,
+      }),
+    ).toEqual([['same_firm', true]]);
+    expect(
+      codes({
+        lawyer: lawyer({ company: null }),
+        party: 'invited',
+        client,
+        otherLawyer: lawyer({ company: null }),
+      }),
+    ).toEqual([]);
+  });
+
+  it('matches recorded conflicts by user or email', () => {
+    const byUser = checkLawyerConflicts({
+      lawyer: lawyer({
+        conflicts: [{ user: new Types.ObjectId(client.id) }],
+      }),
+      party: 'invited',
+      client,
+      otherLawyer: null,
+    });
+    expect(byUser).toEqual([
+      {
+        code: 'party_conflict',
+        message: 'This lawyer has a recorded conflict with the second partner',
+        overridable: true,
+      },
+    ]);
+    expect(
+      codes({
+        lawyer: lawyer({ conflicts: [{ email: 'Sam@Example.com' }] }),
+        party: 'owner',
+        client: { id: null, email: ' sam@example.com ' },
+        otherLawyer: null,
+      }),
+    ).toEqual([['party_conflict', true]]);
+    expect(
+      codes({
+        lawyer: lawyer({ conflicts: [{ email: 'other@example.com' }] }),
+        party: 'owner',
+        client,
+        otherLawyer: null,
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+// src/cases/lawyer-conflicts.ts
+// Independent-advice rules for lawyer selection: each partner needs their own
+// lawyer, from a different firm, with no recorded conflict with that partner.
+import type { CaseParty } from './step-ownership';
+
+export type LawyerConflictCode =
+  | 'lawyer_archived'
+  | 'lawyer_unavailable'
+  | 'lawyer_unverified'
+  | 'same_lawyer'
+  | 'same_firm'
+  | 'party_conflict';
+
+export interface LawyerConflict {
+  code: LawyerConflictCode;
+  message: string;
+  /** Whether a case manager/admin may select the lawyer anyway. */
+  overridable: boolean;
+}
+
+export interface ConflictCheckInput {
+  lawyer: any;
+  party: CaseParty;
+  /** The partner the lawyer would act for. */
+  client: { id: string | null; email: string | null };
+  /** The lawyer the other partner has selected, if any. */
+  otherLawyer: any | null;
+}
+
+const idOf = (ref: any): string | null => (ref ? String(ref._id ?? ref) : null);
+
+export function checkLawyerConflicts({
+  lawyer,
+  party,
+  client,
+  otherLawyer,
+}: ConflictCheckInput): LawyerConflict[] {
+  const conflicts: LawyerConflict[] = [];
+  const status = lawyer.status ?? 'available';
+  if (status === 'archived')
+    conflicts.push({
+      code: 'lawyer_archived',
+      message: 'This lawyer is no longer on the panel',
+      overridable: false,
+    });
+  else if (status === 'unavailable')
+    conflicts.push({
+      code: 'lawyer_unavailable',
+      message: 'This lawyer is not taking new clients at the moment',
+      overridable: true,
+    });
+  if (!lawyer.verified)
+    conflicts.push({
+      code: 'lawyer_unverified',
+      message: 'This lawyer has not been verified yet',
+      overridable: true,
+    });
+
+  if (otherLawyer) {
+    if (idOf(otherLawyer) === idOf(lawyer))
+      conflicts.push({
+        code: 'same_lawyer',
+        message: 'This lawyer has already been chosen by the other party',
+        overridable: true,
+      });
+    else if (
+      idOf(lawyer.company) &&
+      idOf(lawyer.company) === idOf(otherLawyer.company)
+    )
+      conflicts.push({
+        code: 'same_firm',
+        message:
+          'This lawyer works at the same firm as the lawyer chosen by the other party',
+        overridable: true,
+      });
+  }
+
+  const email = client.email?.trim().toLowerCase() || null;
+  const flagged = (lawyer.conflicts ?? []).find(
+    (f: any) =>
+      (client.id && idOf(f.user) === client.id) ||
+      (email && f.email && String(f.email).toLowerCase() === email),
+  );
+  if (flagged)
+    conflicts.push({
+      code: 'party_conflict',
+      message: `This lawyer has a recorded conflict with the ${party === 'owner' ? 'first' : 'second'} partner`,
+      overridable: true,
+    });
+  return conflicts;
+}
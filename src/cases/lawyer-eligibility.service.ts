@@ -0,0 +1,89 @@
+// src/cases/lawyer-eligibility.service.ts
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Lawyer, LawyerDocument } from './schemas/lawyer.schema';
+import { UsersService } from '../users/users.service';
+import { checkLawyerConflicts } from './lawyer-conflicts';
+import type { LawyerConflict } from './lawyer-conflicts';
+import type { CaseParty } from './step-ownership';
+
+export interface LawyerEligibility {
+  lawyerId: string;
+  name: string;
+  eligible: boolean;
+  /** True when every conflict may be overridden by a case manager/admin. */
+  overridable: boolean;
+  conflicts: LawyerConflict[];
+}
+
+/** Runs the conflict rules against a case, for selection and for dry runs. */
+@Injectable()
+export class LawyerEligibilityService {
+  constructor(
+    @InjectModel(Lawyer.name) private lawyerModel: Model<LawyerDocument>,
+    private users: UsersService,
+  ) {}
+
+  /** Every lawyer still on the panel, with whether `party` may select them. */
+  async forCase(c: any, party: CaseParty): Promise<LawyerEligibility[]> {
+    const lawyers = await this.lawyerModel
+      .find({ status: { $ne: 'archived' } })
+      .sort({ name: 1 })
+      .lean()
+      .exec();
+    const ctx = await this.context(c, party);
+    return lawyers.map((l) => this.evaluate(l, party, ctx));
+  }
+
+  async check(c: any, party: CaseParty, lawyer: any) {
+    return this.evaluate(lawyer, party, await this.context(c, party));
+  }
+
+  private evaluate(
+    lawyer: any,
+    party: CaseParty,
+    ctx: Awaited<ReturnType<LawyerEligibilityService['context']>>,
+  ): LawyerEligibility {
+    const conflicts = checkLawyerConflicts({
+      lawyer,
+      party,
+      client: ctx.client,
+      otherLawyer: ctx.otherLawyer,
+    });
+    return {
+      lawyerId: String(lawyer._id),
+      name: lawyer.name,
+      eligible: conflicts.length === 0,
+      overridable: conflicts.every((x) => x.overridable),
+      conflicts,
+    };
+  }
+
+  private async context(c: any, party: CaseParty) {
+    const clientRef = party === 'owner' ? c.owner : c.invitedUser;
+    const clientId = clientRef ? String(clientRef._id ?? clientRef) : null;
+    const [contact] = clientId
+      ? await this.users.findContactsByIds([clientId])
+      : [];
+    const otherSelection = (
+      party === 'owner' ? c.preQuestionnaireUser2 : c.preQuestionnaireUser1
+    )?.selectedLawyer;
+    const otherId = otherSelection
+      ? String(otherSelection._id ?? otherSelection)
+      : null;
+    const otherLawyer = otherId
+      ? await this.lawyerModel.findById(otherId).select('company').lean().exec()
+      : null;
+    return {
+      client: {
+        id: clientId,
+        email:
+          contact?.email ??
+          (party === 'invited' ? c.invitedEmail : null) ??
+          null,
+      },
+      otherLawyer,
+    };
+  }
+}
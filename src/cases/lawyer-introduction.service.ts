@@ -0,0 +1,391 @@
+// src/cases/lawyer-introduction.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import crypto from 'crypto';
+import { Model, Types } from 'mongoose';
+import { Case, CaseDocument, LawyerIntroduction } from './schemas/case.schema';
+import { Lawyer, LawyerDocument } from './schemas/lawyer.schema';
+import { CaseAuditService } from './case-audit.service';
+import { saveCaseChanges } from './case-revision';
+import { MailService } from '../mail/mail.service';
+import { UsersService } from '../users/users.service';
+import { CaseParty, PARTY_LABELS, clientsOfLawyer } from './step-ownership';
+
+type Decision = 'accept' | 'decline';
+type Via = 'email' | 'portal' | 'system';
+
+const SELECTION_KEY: Record<
+  CaseParty,
+  'preQuestionnaireUser1' | 'preQuestionnaireUser2'
+> = {
+  owner: 'preQuestionnaireUser1',
+  invited: 'preQuestionnaireUser2',
+};
+
+/**
+ * Lifecycle of a lawyer's introduction to a partner: pending until the lawyer
+ * accepts or declines (from the emailed link or the portal), or until it
+ * expires. A decline or expiry frees the partner's selection.
+ */
+@Injectable()
+export class LawyerIntroductionService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(LawyerIntroductionService.name);
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    @InjectModel(Lawyer.name) private lawyerModel: Model<LawyerDocument>,
+    private config: ConfigService,
+    private audit: CaseAuditService,
+    private mail: MailService,
+    private users: UsersService,
+  ) {}
+
+  onModuleInit() {
+    const minutes = Number(this.config.get('LAWYER_INTRO_SWEEP_MINUTES') || 15);
+    if (minutes <= 0) return;
+    this.timer = setInterval(
+      () => {
+        this.expireDue().catch((err) =>
+          this.logger.error('Introduction expiry sweep failed', err),
+        );
+      },
+      minutes * 60 * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /** A fresh pending introduction, to be stored on the partner's selection. */
+  open(
+    lawyerId: string | Types.ObjectId,
+    now = new Date(),
+  ): LawyerIntroduction {
+    const hours = Number(this.config.get('LAWYER_INTRO_EXPIRY_HOURS') || 48);
+    return {
+      _id: new Types.ObjectId(),
+      lawyer: new Types.ObjectId(String(lawyerId)),
+      status: 'pending',
+      sentAt: now,
+      expiresAt: new Date(now.getTime() + hours * 3600 * 1000),
+      respondedAt: null,
+      respondedVia: null,
+      declineReason: null,
+    };
+  }
+
+  /** Frontend URL carrying the signed response token for the lawyer's email. */
+  linkFor(
+    caseId: string | Types.ObjectId,
+    party: CaseParty,
+    intro: LawyerIntroduction,
+  ) {
+    const payload = Buffer.from(
+      JSON.stringify({ c: String(caseId), p: party, i: String(intro._id) }),
+    ).toString('base64url');
+    const token = `${payload}.${this.sign(payload).toString('base64url')}`;
+    return `${this.config.get('APP_SERVER_URL')}/lawyer/introductions/${token}`;
+  }
+
+  async viewByToken(token: string) {
+    const { caseId, party } = this.verify(token);
+    const { c, intro } = await this.load(caseId, party);
+    const lawyer = await this.lawyerModel
+      .findById(intro.lawyer)
+      .select('name')
+      .lean()
+      .exec();
+    return {
+      caseId,
+      party,
+      clientRole: PARTY_LABELS[party],
+      lawyerName: lawyer?.name ?? null,
+      status: this.isOverdue(intro) ? 'expired' : intro.status,
+      sentAt: intro.sentAt,
+      expiresAt: intro.expiresAt,
+      respondedAt: intro.respondedAt,
+      caseTitle: c.title,
+    };
+  }
+
+  async respondByToken(token: string, decision: Decision, reason?: string) {
+    const { caseId, party, introId } = this.verify(token);
+    return this.respond(
+      caseId,
+      party,
+      decision,
+      'email',
+      null,
+      reason,
+      introId,
+    );
+  }
+
+  /** Portal response; the lawyer must be the one currently selected by `party`. */
+  async respondAsLawyer(
+    caseId: string,
+    party: CaseParty,
+    user: any,
+    decision: Decision,
+    reason?: string,
+  ) {
+    if (party !== 'owner' && party !== 'invited')
+      throw new BadRequestException('Invalid party');
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel
+      .findById(caseId)
+      .select(
+        'preQuestionnaireUser1.selectedLawyer preQuestionnaireUser2.selectedLawyer',
+      )
+      .lean()
+      .exec();
+    if (!c || !clientsOfLawyer(c, user?.lawyer).includes(party))
+      throw new NotFoundException('Introduction not found');
+    return this.respond(caseId, party, decision, 'portal', user.id, reason);
+  }
+
+  /** Expire every overdue pending introduction; returns how many were closed. */
+  async expireDue(now = new Date()): Promise<number> {
+    let expired = 0;
+    for (const party of ['owner', 'invited'] as CaseParty[]) {
+      const key = SELECTION_KEY[party];
+      const due = await this.caseModel
+        .find({
+          [`${key}.introduction.status`]: 'pending',
+          [`${key}.introduction.expiresAt`]: { $lte: now },
+        })
+        .select('_id')
+        .lean()
+        .exec();
+      for (const { _id } of due) {
+        try {
+          const c = await this.caseModel.findById(_id).exec();
+          const intro = c?.[key]?.introduction;
+          if (!c || intro?.status !== 'pending' || intro.expiresAt > now)
+            continue;
+          await this.close(c, party, 'expired', 'system', null);
+          expired++;
+        } catch (err) {
+          // most likely a concurrent write; the next sweep retries
+          this.logger.warn(
+            `Could not expire introduction on case ${_id}: ${(err as Error).message}`,
+          );
+        }
+      }
+    }
+    return expired;
+  }
+
+  private async respond(
+    caseId: string,
+    party: CaseParty,
+    decision: Decision,
+    via: Via,
+    actorId: string | null,
+    reason?: string,
+    introId?: string,
+  ) {
+    const { c, intro } = await this.load(caseId, party);
+    if (introId && String(intro._id) !== introId)
+      throw new BadRequestException(
+        'This introduction link is no longer valid',
+      );
+    if (intro.status === 'pending' && this.isOverdue(intro)) {
+      await this.close(c, party, 'expired', 'system', null);
+      throw new BadRequestException('This introduction has expired');
+    }
+    if (intro.status !== 'pending')
+      throw new BadRequestException(
+        `This introduction has already been ${intro.status}`,
+      );
+    if (decision === 'decline') {
+      if (!reason?.trim())
+        throw new BadRequestException('A reason is required to decline');
+      await this.close(c, party, 'declined', via, actorId, reason.trim());
+    } else {
+      await this.accept(c, party, via, actorId);
+    }
+    return {
+      caseId,
+      party,
+      ...this.summary(c[SELECTION_KEY[party]]!.introduction!),
+    };
+  }
+
+  private async accept(
+    c: CaseDocument,
+    party: CaseParty,
+    via: Via,
+    actorId: string | null,
+  ) {
+    const intro = c[SELECTION_KEY[party]]!.introduction!;
+    const before = this.summary(intro);
+    intro.status = 'accepted';
+    intro.respondedAt = new Date();
+    intro.respondedVia = via;
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({
+      caseId: c._id as Types.ObjectId,
+      action: 'lawyer.introduction_accepted',
+      actorId,
+      actorRole: actorId ? 'lawyer' : null,
+      before,
+      after: this.summary(intro),
+      meta: { party, lawyerId: String(intro.lawyer), via },
+    });
+    const [to, lawyerName] = await Promise.all([
+      this.clientEmail(c, party),
+      this.lawyerName(intro.lawyer),
+    ]);
+    if (to)
+      await this.mail
+        .sendIntroductionAccepted(to, String(c._id), lawyerName)
+        .catch(() => null);
+  }
+
+  /** Declines or expires the introduction and clears the partner's selection. */
+  private async close(
+    c: CaseDocument,
+    party: CaseParty,
+    status: 'declined' | 'expired',
+    via: Via,
+    actorId: string | null,
+    reason?: string,
+  ) {
+    const selection = c[SELECTION_KEY[party]]!;
+    const intro = selection.introduction!;
+    const before = {
+      selectedLawyer: selection.selectedLawyer,
+      ...this.summary(intro),
+    };
+    intro.status = status;
+    intro.respondedAt = new Date();
+    intro.respondedVia = via;
+    intro.declineReason = reason ?? null;
+    selection.selectedLawyer = null;
+    selection.selectedAt = null;
+    c = await saveCaseChanges(this.caseModel, c);
+    await this.audit.record({
+      caseId: c._id as Types.ObjectId,
+      action:
+        status === 'declined'
+          ? 'lawyer.introduction_declined'
+          : 'lawyer.introduction_expired',
+      actorId,
+      actorRole: actorId ? 'lawyer' : via === 'system' ? 'system' : null,
+      before,
+      after: { selectedLawyer: null, ...this.summary(intro) },
+      meta: { party, lawyerId: String(intro.lawyer), via },
+    });
+    const [to, lawyerName] = await Promise.all([
+      this.clientEmail(c, party),
+      this.lawyerName(intro.lawyer),
+    ]);
+    const link = `${this.config.get('APP_SERVER_URL')}/cases/${c._id}/lawyers`;
+    if (to)
+      await this.mail
+        .sendIntroductionClosed(to, String(c._id), {
+          lawyerName,
+          expired: status === 'expired',
+          reason,
+          link,
+        })
+        .catch(() => null);
+  }
+
+  private async load(caseId: string, party: CaseParty) {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId).exec();
+    const intro = c?.[SELECTION_KEY[party]]?.introduction;
+    if (!c || !intro) throw new NotFoundException('Introduction not found');
+    return { c, intro };
+  }
+
+  private isOverdue(intro: LawyerIntroduction, now = new Date()) {
+    return (
+      intro.status === 'pending' && intro.expiresAt.getTime() <= now.getTime()
+    );
+  }
+
+  private summary(intro: LawyerIntroduction) {
+    return {
+      status: intro.status,
+      sentAt: intro.sentAt,
+      expiresAt: intro.expiresAt,
+      respondedAt: intro.respondedAt,
+      respondedVia: intro.respondedVia,
+      declineReason: intro.declineReason,
+    };
+  }
+
+  private secret(): string {
+    const secret =
+      this.config.get<string>('LAWYER_INTRO_SECRET') ||
+      this.config.get<string>('JWT_SECRET');
+    if (!secret)
+      throw new Error('LAWYER_INTRO_SECRET (or JWT_SECRET) must be set');
+    return secret;
+  }
+
+  private sign(payload: string): Buffer {
+    return crypto.createHmac('sha256', this.secret()).update(payload).digest();
+  }
+
+  private verify(token: string): {
+    caseId: string;
+    party: CaseParty;
+    introId: string;
+  } {
+    const [payload, signature] = String(token ?? '').split('.');
+    const given = Buffer.from(signature ?? '', 'base64url');
+    const expected = payload ? this.sign(payload) : null;
+    if (
+      !expected ||
+      given.length !== expected.length ||
+      !crypto.timingSafeEqual(given, expected)
+    )
+      throw new ForbiddenException('Invalid introduction link');
+    const { c, p, i } = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    );
+    if (p !== 'owner' && p !== 'invited')
+      throw new ForbiddenException('Invalid introduction link');
+    return { caseId: String(c), party: p, introId: String(i) };
+  }
+
+  private async clientEmail(
+    c: CaseDocument,
+    party: CaseParty,
+  ): Promise<string | null> {
+    const ref = party === 'owner' ? c.owner : c.invitedUser;
+    const [contact] = ref ? await this.users.findContactsByIds([ref]) : [];
+    return (
+      contact?.email ?? (party === 'invited' ? c.invitedEmail : null) ?? null
+    );
+  }
+
+  private async lawyerName(id: Types.ObjectId): Promise<string> {
+    const lawyer = await this.lawyerModel
+      .findById(id)
+      .select('name')
+      .lean()
+      .exec();
+    return lawyer?.name ?? 'Your selected lawyer';
+  }
+}
@@ -0,0 +1,32 @@
+// src/cases/lawyer-introductions.controller.ts
+import { Body, Controller, Get, Param, Post } from '@nestjs/common';
+import { LawyerIntroductionService } from './lawyer-introduction.service';
+import { DeclineIntroductionDto } from './dto/introduction.dto';
+
+/**
+ * Routes behind the accept/decline link in the lawyer's introduction email.
+ * No login: the signed token identifies the introduction, and it stops
+ * working once the introduction is answered, expires or is replaced.
+ */
+@Controller('introductions')
+export class LawyerIntroductionsController {
+  constructor(private introductions: LawyerIntroductionService) {}
+
+  @Get(':token')
+  async view(@Param('token') token: string) {
+    return this.introductions.viewByToken(token);
+  }
+
+  @Post(':token/accept')
+  async accept(@Param('token') token: string) {
+    return this.introductions.respondByToken(token, 'accept');
+  }
+
+  @Post(':token/decline')
+  async decline(
+    @Param('token') token: string,
+    @Body() body: DeclineIntroductionDto,
+  ) {
+    return this.introductions.respondByToken(token, 'decline', body.reason);
+  }
+}
@@ -0,0 +1,108 @@
+// src/cases/lawyer-portal.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  Param,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { Roles } from '../common/roles.decorator';
+import { RolesGuard } from '../common/roles.guard';
+import { CasesService } from './cases.service';
+import { LawyerPortalService } from './lawyer-portal.service';
+import { LawyerIntroductionService } from './lawyer-introduction.service';
+import { DeclineIntroductionDto } from './dto/introduction.dto';
+import type { CaseParty } from './step-ownership';
+import { caseEtag, parseIfMatch } from './case-revision';
+
+/** Portal API for lawyer accounts; every route acts as the JWT's lawyer. */
+@Controller('lawyer')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('lawyer')
+export class LawyerPortalController {
+  constructor(
+    private portal: LawyerPortalService,
+    private casesService: CasesService,
+    private introductions: LawyerIntroductionService,
+  ) {}
+
+  @Get('cases')
+  async listCases(@Req() req) {
+    return this.portal.listCases(req.user);
+  }
+
+  @Get('cases/:id')
+  async getCase(
+    @Req() req,
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const c = await this.portal.getCase(id, req.user);
+    res.setHeader('ETag', caseEtag(c.revision));
+    return c;
+  }
+
+  @Get('cases/:id/steps/:stepNumber')
+  async getStep(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('stepNumber') stepNumber: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const step = await this.casesService.getStepForUi(
+      id,
+      Number(stepNumber),
+      req.user,
+    );
+    res.setHeader('ETag', caseEtag(step.revision));
+    return step;
+  }
+
+  // `party` is the partner whose introduction is being answered
+  @Post('cases/:id/introductions/:party/accept')
+  async acceptIntroduction(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('party') party: CaseParty,
+  ) {
+    return this.introductions.respondAsLawyer(id, party, req.user, 'accept');
+  }
+
+  @Post('cases/:id/introductions/:party/decline')
+  async declineIntroduction(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('party') party: CaseParty,
+    @Body() body: DeclineIntroductionDto,
+  ) {
+    return this.introductions.respondAsLawyer(
+      id,
+      party,
+      req.user,
+      'decline',
+      body.reason,
+    );
+  }
+
+  @Post('cases/:id/approve')
+  async approve(
+    @Req() req,
+    @Param('id') id: string,
+    @Headers('if-match') ifMatch: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const updated = await this.casesService.approveCaseByLawyer(
+      id,
+      { id: req.user.id, lawyerId: String(req.user.lawyer) },
+      parseIfMatch(ifMatch),
+    );
+    res.setHeader('ETag', caseEtag(updated.revision));
+    return this.portal.getCase(id, req.user);
+  }
+}
@@ -0,0 +1,175 @@
+// src/cases/lawyer-portal.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import crypto from 'crypto';
+import { Model, Types } from 'mongoose';
+import { Case, CaseDocument } from './schemas/case.schema';
+import { Lawyer, LawyerDocument } from './schemas/lawyer.schema';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+import {
+  CaseParty,
+  canReadStep,
+  clientsOfLawyer,
+  policyFor,
+} from './step-ownership';
+
+const CASE_FIELDS =
+  'title caseType workflowStatus owner invitedUser invitedEmail preQuestionnaireUser1.selectedLawyer preQuestionnaireUser2.selectedLawyer preQuestionnaireUser1.introduction preQuestionnaireUser2.introduction approval.lawyerApproved approval.lawyerApprovedAt fullyLocked revision createdAt updatedAt';
+
+/**
+ * Lawyer logins and the case views behind the lawyer portal. A lawyer only
+ * ever sees cases where a partner has selected them.
+ */
+@Injectable()
+export class LawyerPortalService {
+  constructor(
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    @InjectModel(Lawyer.name) private lawyerModel: Model<LawyerDocument>,
+    private users: UsersService,
+    private mail: MailService,
+    private config: ConfigService,
+  ) {}
+
+  /**
+   * Creates the login for a panel lawyer and emails a link to choose a
+   * password. The email defaults to the lawyer's direct, then public address.
+   */
+  async createAccount(lawyerId: string, email?: string) {
+    if (!Types.ObjectId.isValid(lawyerId))
+      throw new BadRequestException('Invalid lawyer id');
+    const lawyer = await this.lawyerModel.findById(lawyerId).lean().exec();
+    if (!lawyer) throw new NotFoundException('Lawyer not found');
+    if (await this.users.findByLawyer(lawyerId))
+      throw new ConflictException('This lawyer already has an account');
+    const address = (email || lawyer.directEmail || lawyer.publicEmail || '')
+      .trim()
+      .toLowerCase();
+    if (!address)
+      throw new BadRequestException('An email is required for this lawyer');
+    if (await this.users.findByEmail(address))
+      throw new ConflictException('An account with this email already exists');
+
+    const user = await this.users.create({
+      email: address,
+      // unusable until the lawyer sets their own password from the invite
+      passwordHash: await this.users.hashPassword(
+        crypto.randomBytes(32).toString('hex'),
+      ),
+      role: 'lawyer',
+      lawyer: lawyer._id as Types.ObjectId,
+      firstName: lawyer.name,
+      acceptedTerms: true,
+      emailVerified: true,
+    });
+    const token = crypto.randomBytes(32).toString('hex');
+    const hours = Number(this.config.get('LAWYER_INVITE_EXPIRY_HOURS') || 72);
+    await this.users.setResetToken(
+      String(user._id),
+      token,
+      new Date(Date.now() + hours * 3600 * 1000),
+    );
+    const setupUrl = `${this.config.get('APP_BASE_URL')}/auth/reset-password?token=${token}&email=${encodeURIComponent(address)}`;
+    await this.mail.sendLawyerAccountInvite(address, lawyer.name, setupUrl);
+    return {
+      userId: String(user._id),
+      email: address,
+      lawyerId: String(lawyer._id),
+    };
+  }
+
+  async listCases(user: any) {
+    const lawyerId = this.lawyerIdOf(user);
+    const cases = await this.caseModel
+      .find({
+        $or: [
+          { 'preQuestionnaireUser1.selectedLawyer': lawyerId },
+          { 'preQuestionnaireUser2.selectedLawyer': lawyerId },
+        ],
+      })
+      .select(CASE_FIELDS)
+      .sort({ updatedAt: -1 })
+      .lean()
+      .exec();
+    const docs = await Promise.all(cases.map((c) => this.view(c, lawyerId)));
+    return { total: docs.length, docs };
+  }
+
+  async getCase(caseId: string, user: any) {
+    const lawyerId = this.lawyerIdOf(user);
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel
+      .findById(caseId)
+      .select(CASE_FIELDS)
+      .lean()
+      .exec();
+    // cases the lawyer is not acting on are indistinguishable from missing ones
+    if (!c || !clientsOfLawyer(c, lawyerId).length)
+      throw new NotFoundException('Case not found');
+    return this.view(c, lawyerId);
+  }
+
+  private lawyerIdOf(user: any): Types.ObjectId {
+    if (user?.role !== 'lawyer' || !user.lawyer)
+      throw new ForbiddenException('No lawyer linked to this account');
+    return new Types.ObjectId(String(user.lawyer));
+  }
+
+  private async view(c: any, lawyerId: Types.ObjectId) {
+    const clients = clientsOfLawyer(c, lawyerId);
+    const policy = policyFor(c.caseType);
+    const readableSteps = Object.keys(policy)
+      .map(Number)
+      .filter((n) => clients.some((p) => canReadStep(policy, n, p)))
+      .sort((a, b) => a - b);
+    const ids = clients
+      .map((p) => (p === 'owner' ? c.owner : c.invitedUser))
+      .filter(Boolean);
+    const contacts = await this.users.findContactsByIds(ids);
+    const contactFor = (p: CaseParty) => {
+      const ref = p === 'owner' ? c.owner : c.invitedUser;
+      const u = ref && contacts.find((x) => String(x._id) === String(ref));
+      const name = u
+        ? [u.firstName, u.lastName].filter(Boolean).join(' ') || null
+        : null;
+      const intro = (
+        p === 'owner' ? c.preQuestionnaireUser1 : c.preQuestionnaireUser2
+      )?.introduction;
+      return {
+        party: p,
+        name,
+        email: u?.email ?? (p === 'invited' ? c.invitedEmail : null) ?? null,
+        introduction: intro
+          ? {
+              status: intro.status,
+              sentAt: intro.sentAt,
+              expiresAt: intro.expiresAt,
+              respondedAt: intro.respondedAt,
+            }
+          : null,
+      };
+    };
+    return {
+      _id: c._id,
+      title: c.title,
+      caseType: c.caseType,
+      workflowStatus: c.workflowStatus,
+      fullyLocked: !!c.fullyLocked,
+      clients: clients.map(contactFor),
+      readableSteps,
+      lawyerApproved: !!c.approval?.lawyerApproved,
+      lawyerApprovedAt: c.approval?.lawyerApprovedAt ?? null,
+      revision: c.revision ?? 0,
+      createdAt: c.createdAt,
+      updatedAt: c.updatedAt,
+    };
+  }
+}
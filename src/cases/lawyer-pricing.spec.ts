@@ -0,0 +1,131 @@
+import {
+  LawyerPricingInput,
+  breakdown,
+  combineQuotes,
+  formatMoney,
+  formatPriceText,
+  parsePriceText,
+  quoteFor,
+} from './lawyer-pricing';
+
+const pricing = (over: Partial<LawyerPricingInput>): LawyerPricingInput => ({
+  basis: 'hourly',
+  amount: 30000,
+  currency: 'GBP',
+  vatStatus: 'plus_vat',
+  estimatedHours: null,
+  ...over,
+});
+
+describe('breakdown', () => {
+  it('adds VAT on top', () => {
+    expect(breakdown(30000, 'plus_vat', 0.2)).toEqual({
+      net: 30000,
+      vat: 6000,
+      gross: 36000,
+    });
+  });
+
+  it('takes VAT out of inclusive amounts', () => {
+    expect(breakdown(36000, 'inclusive', 0.2)).toEqual({
+      net: 30000,
+      vat: 6000,
+      gross: 36000,
+    });
+    // rounding stays on the VAT so net + vat is always the gross
+    expect(breakdown(1001, 'inclusive', 0.2)).toEqual({
+      net: 834,
+      vat: 167,
+      gross: 1001,
+    });
+  });
+
+  it('charges no VAT when exempt', () => {
+    expect(breakdown(30000, 'exempt', 0.2)).toEqual({
+      net: 30000,
+      vat: 0,
+      gross: 30000,
+    });
+  });
+});
+
+describe('quoteFor', () => {
+  it('estimates an hourly fee from the hours', () => {
+    const quote = quoteFor(pricing({ estimatedHours: 2.5 }), 0.2);
+    expect(quote.unit).toEqual({ net: 30000, vat: 6000, gross: 36000 });
+    expect(quote.hours).toBe(2.5);
+    expect(quote.estimate).toEqual({ net: 75000, vat: 15000, gross: 90000 });
+    expect(quote.priceText).toBe('£300/hour + VAT');
+  });
+
+  it('has no estimate for an hourly rate without hours', () => {
+    const quote = quoteFor(pricing({}), 0.2);
+    expect(quote.hours).toBeNull();
+    expect(quote.estimate).toBeNull();
+  });
+
+  it('uses the whole fee for fixed prices', () => {
+    const quote = quoteFor(
+      pricing({ basis: 'fixed', amount: 120000, vatStatus: 'inclusive' }),
+      0.2,
+    );
+    expect(quote.estimate).toEqual({ net: 100000, vat: 20000, gross: 120000 });
+    expect(quote.priceText).toBe('£1,200 fixed fee including VAT');
+  });
+});
+
+describe('combineQuotes', () => {
+  const fixed = (amount: number, currency = 'GBP') =>
+    quoteFor(pricing({ basis: 'fixed', amount, currency }), 0.2);
+
+  it('adds up both estimates', () => {
+    expect(combineQuotes([fixed(10000), fixed(20000)])).toEqual({
+      currency: 'GBP',
+      net: 30000,
+      vat: 6000,
+      gross: 36000,
+    });
+  });
+
+  it('gives up on unknown estimates or mixed currencies', () => {
+    expect(combineQuotes([])).toBeNull();
+    expect(combineQuotes([fixed(10000), null])).toBeNull();
+    expect(combineQuotes([fixed(10000), fixed(10000, 'EUR')])).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('formats minor units', () => {
+    expect(formatMoney(30000, 'GBP')).toBe('£300');
+    expect(formatMoney(12345, 'EUR')).toBe('€123.45');
+    expect(formatMoney(500, 'CHF')).toBe('5 CHF');
+  });
+
+  it('describes the VAT status', () => {
+    expect(formatPriceText(pricing({ vatStatus: 'exempt' }))).toBe(
+      '£300/hour (VAT exempt)',
+    );
+  });
+});
+
+describe('parsePriceText', () => {
+  it('reads legacy price text', () => {
+    expect(parsePriceText('£250 + VAT per hour')).toEqual(
+      pricing({ amount: 25000 }),
+    );
+    expect(parsePriceText('€1,500 fixed fee, VAT exempt')).toEqual(
+      pricing({
+        basis: 'fixed',
+        amount: 150000,
+        currency: 'EUR',
+        vatStatus: 'exempt',
+      }),
+    );
+    expect(parsePriceText('£300 including VAT')?.vatStatus).toBe('inclusive');
+  });
+
+  it('returns null without an amount', () => {
+    expect(parsePriceText('on request')).toBeNull();
+    expect(parsePriceText(null)).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+// src/cases/lawyer-pricing.ts
+// Structured lawyer fees and the VAT arithmetic behind fee quotes.
+// Amounts are in minor units (pence) throughout.
+
+export const FEE_BASES = ['hourly', 'fixed'] as const;
+export type FeeBasis = (typeof FEE_BASES)[number];
+
+// inclusive: the amount already contains VAT; exempt: no VAT is charged;
+// plus_vat: VAT is added on top of the amount
+export const VAT_STATUSES = ['inclusive', 'exempt', 'plus_vat'] as const;
+export type VatStatus = (typeof VAT_STATUSES)[number];
+
+export interface LawyerPricingInput {
+  basis: FeeBasis;
+  amount: number;
+  currency: string;
+  vatStatus: VatStatus;
+  estimatedHours: number | null;
+}
+
+export interface MoneyBreakdown {
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface FeeQuote {
+  basis: FeeBasis;
+  currency: string;
+  vatStatus: VatStatus;
+  vatRate: number;
+  /** One hour (hourly) or the whole fee (fixed). */
+  unit: MoneyBreakdown;
+  hours: number | null;
+  /** Expected total; null for an hourly rate without an hours estimate. */
+  estimate: MoneyBreakdown | null;
+  priceText: string;
+}
+
+const SYMBOLS: Record<string, string> = { GBP: '£', EUR: '€', USD: '$' };
+
+export function formatMoney(minor: number, currency: string): string {
+  const major = minor / 100;
+  const text = major.toLocaleString('en-GB', {
+    minimumFractionDigits: Number.isInteger(major) ? 0 : 2,
+    maximumFractionDigits: 2,
+  });
+  const symbol = SYMBOLS[currency];
+  return symbol ? `${symbol}${text}` : `${text} ${currency}`;
+}
+
+/** The display string that used to be typed in by hand as `priceText`. */
+export function formatPriceText(p: LawyerPricingInput): string {
+  const price =
+    formatMoney(p.amount, p.currency) +
+    (p.basis === 'hourly' ? '/hour' : ' fixed fee');
+  switch (p.vatStatus) {
+    case 'inclusive':
+      return `${price} including VAT`;
+    case 'exempt':
+      return `${price} (VAT exempt)`;
+    default:
+      return `${price} + VAT`;
+  }
+}
+
+export function breakdown(
+  amount: number,
+  vatStatus: VatStatus,
+  vatRate: number,
+): MoneyBreakdown {
+  if (vatStatus === 'exempt') return { net: amount, vat: 0, gross: amount };
+  if (vatStatus === 'inclusive') {
+    const net = Math.round(amount / (1 + vatRate));
+    return { net, vat: amount - net, gross: amount };
+  }
+  const vat = Math.round(amount * vatRate);
+  return { net: amount, vat, gross: amount + vat };
+}
+
+export function quoteFor(p: LawyerPricingInput, vatRate: number): FeeQuote {
+  const hours =
+    p.basis === 'hourly' && p.estimatedHours ? p.estimatedHours : null;
+  const total =
+    p.basis === 'fixed'
+      ? p.amount
+      : hours
+        ? Math.round(p.amount * hours)
+        : null;
+  return {
+    basis: p.basis,
+    currency: p.currency,
+    vatStatus: p.vatStatus,
+    vatRate,
+    unit: breakdown(p.amount, p.vatStatus, vatRate),
+    hours,
+    estimate: total === null ? null : breakdown(total, p.vatStatus, vatRate),
+    priceText: formatPriceText(p),
+  };
+}
+
+/** Sum of both parties' estimates; null unless both are known and in one currency. */
+export function combineQuotes(
+  quotes: (FeeQuote | null)[],
+): (MoneyBreakdown & { currency: string }) | null {
+  if (!quotes.length || quotes.some((q) => !q?.estimate)) return null;
+  const currency = quotes[0]!.currency;
+  if (quotes.some((q) => q!.currency !== currency)) return null;
+  return quotes.reduce(
+    (sum, q) => ({
+      currency,
+      net: sum.net + q!.estimate!.net,
+      vat: sum.vat + q!.estimate!.vat,
+      gross: sum.gross + q!.estimate!.gross,
+    }),
+    { currency, net: 0, vat: 0, gross: 0 },
+  );
+}
+
+/**
+ * Best-effort reading of a legacy free-text price such as "£300 + VAT" or
+ * "£300 including VAT/VAT exempt". Returns null when no amount is found.
+ */
+export function parsePriceText(
+  text?: string | null,
+  currency = 'GBP',
+): LawyerPricingInput | null {
+  const m = /([£€$])?\s*(\d[\d,]*(?:\.\d{1,2})?)/.exec(text ?? '');
+  if (!m) return null;
+  const lower = (text ?? '').toLowerCase();
+  const vatStatus: VatStatus = /\+\s*vat|plus vat/.test(lower)
+    ? 'plus_vat'
+    : /incl/.test(lower)
+      ? 'inclusive'
+      : /exempt/.test(lower)
+        ? 'exempt'
+        : 'inclusive';
+  const bySymbol: Record<string, string> = { '£': 'GBP', '€': 'EUR', $: 'USD' };
+  return {
+    basis: /fixed/.test(lower) ? 'fixed' : 'hourly',
+    amount: Math.round(Number(m[2].replace(/,/g, '')) * 100),
+    currency: (m[1] && bySymbol[m[1]]) || currency,
+    vatStatus,
+    estimatedHours: null,
+  };
+}
+
+/**
+ * Plain-text paragraph describing the rates on offer, for the emails that
+ * invite partners to pick a lawyer.
+ */
+export function describeRates(
+  pricings: LawyerPricingInput[],
+  vatRate: number,
+): string {
+  if (!pricings.length) return '';
+  const groups = new Map<
+    string,
+    { pricing: LawyerPricingInput; count: number }
+  >();
+  for (const p of pricings) {
+    const key = formatPriceText(p);
+    const g = groups.get(key);
+    if (g) g.count++;
+    else groups.set(key, { pricing: p, count: 1 });
+  }
+  const lines = [...groups.values()].map(({ pricing, count }) => {
+    const label = `${count} lawyer${count === 1 ? '' : 's'}`;
+    if (pricing.vatStatus !== 'plus_vat')
+      return `- ${formatPriceText(pricing)} (${label})`;
+    const b = breakdown(pricing.amount, pricing.vatStatus, vatRate);
+    const per = pricing.basis === 'hourly' ? ' per hour' : '';
+    return `- ${formatPriceText(pricing)}: ${formatMoney(b.gross, pricing.currency)}${per} once VAT at ${Math.round(vatRate * 100)}% is added, i.e. ${formatMoney(b.vat, pricing.currency)} of VAT${per} (${label})`;
+  });
+  return [
+    'On the platform you will see a selection of lawyers to choose from. Their rates are:',
+    ...lines,
+    'You are both of course welcome to choose whichever lawyers you prefer.',
+  ].join('\n');
+}
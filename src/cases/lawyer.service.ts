@@ -1,9 +1,29 @@
 // src/cases/lawyers.service.ts
 import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model, Types } from 'mongoose';
 import { Lawyer, LawyerDocument } from './schemas/lawyer.schema';
 import { Company, CompanyDocument } from './schemas/company.schema';
+import { FEE_BASES, VAT_STATUSES, FeeBasis, FeeQuote, LawyerPricingInput, VatStatus, breakdown, combineQuotes, describeRates, formatPriceText, parsePriceText, quoteFor } from './lawyer-pricing';
+
+export const LAWYER_STATUSES = ['available', 'unavailable', 'archived'] as const;
+export const LAWYER_SORTS = ['name', '-name', 'price', '-price'] as const;
+
+export interface LawyerDirectoryFilter {
+  status?: string[];
+  verified?: boolean;
+  companyId?: string;
+  feeBasis?: FeeBasis;
+  vatStatus?: VatStatus[];
+  /** Band on the unit price (per hour or fixed fee) in minor units, VAT included. */
+  minPrice?: number;
+  maxPrice?: number;
+  /** Matches the lawyer's city or region, case-insensitively. */
+  location?: string;
+  /** Lawyers with any of these specialisms. */
+  specialism?: string[];
+}
 
 @Injectable()
 export class LawyersService {
@@ -13,8 +33,46 @@ export class LawyersService {
 
     @InjectModel(Company.name)
     private readonly companyModel: Model<CompanyDocument>,
+
+    private readonly config: ConfigService,
   ) { }
 
+  /* ---------------- PRICING ---------------- */
+
+  get vatRate(): number {
+    return Number(this.config.get('VAT_RATE') || 0.2);
+  }
+
+  // lawyers created before structured pricing only have the free-text price
+  pricingOf(lawyer: any): LawyerPricingInput | null {
+    return lawyer?.pricing?.basis ? lawyer.pricing : parsePriceText(lawyer?.priceText);
+  }
+
+  priceTextOf(lawyer: any): string | null {
+    const pricing = lawyer?.pricing?.basis ? lawyer.pricing : null;
+    return pricing ? formatPriceText(pricing) : lawyer?.priceText ?? null;
+  }
+
+  quote(lawyer: any): FeeQuote | null {
+    const pricing = this.pricingOf(lawyer);
+    return pricing ? quoteFor(pricing, this.vatRate) : null;
+  }
+
+  /** Estimate for the lawyers the two partners have picked, each party paying their own. */
+  caseQuote(ownerLawyer: any | null, invitedLawyer: any | null) {
+    const party = (l: any | null) => (l ? { lawyerId: String(l._id), name: l.name, quote: this.quote(l) } : null);
+    const owner = party(ownerLawyer);
+    const invited = party(invitedLawyer);
+    return { owner, invited, total: owner && invited ? combineQuotes([owner.quote, invited.quote]) : null };
+  }
+
+  /** Paragraph for partner emails listing the rates of the lawyers on offer. */
+  async ratesSummary(): Promise<string> {
+    const lawyers = await this.lawyerModel.find({ status: { $nin: ['archived', 'unavailable'] } }).select('pricing priceText').lean().exec();
+    const pricings = lawyers.map((l) => this.pricingOf(l)).filter((p): p is LawyerPricingInput => !!p);
+    return describeRates(pricings, this.vatRate);
+  }
+
   /* ---------------- SEED ---------------- */
   async seedInitialLawyersIfEmpty() {
     const count = await this.lawyerModel.countDocuments().exec();
@@ -63,68 +121,77 @@ export class LawyersService {
       {
         externalId: '1',
         name: 'Flavia Lamia',
-        priceText: '£300 including VAT/VAT exempt',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'inclusive' },
         avatarUrl: 'https://i.pravatar.cc/200?img=32',
         // put email in first two as requested (direct preferred)
         directEmail: 'azizahmedse@gmail.com',
         company: defaultCompanyId,
+        verified: true,
       },
       {
         externalId: '2',
         name: 'Lisa Smith',
-        priceText: '£300 including VAT/VAT exempt',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'inclusive' },
         avatarUrl: 'https://i.pravatar.cc/200?img=12',
         directEmail: 'azizahmedse@gmail.com',
         company: defaultCompanyId,
+        verified: true,
       },
       {
         externalId: '3',
         name: 'Karen Weiner',
-        priceText: '£300 including VAT/VAT exempt',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'inclusive' },
         avatarUrl: 'https://i.pravatar.cc/200?img=56',
         company: defaultCompanyId,
+        verified: true,
       },
       {
         externalId: '4',
         name: 'Kye Herbert',
-        priceText: '£300 including VAT/VAT exempt',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'inclusive' },
         avatarUrl: 'https://i.pravatar.cc/200?img=14',
         company: defaultCompanyId,
+        verified: true,
       },
       {
         externalId: '5',
         name: 'Carol Wright',
-        priceText: '£300 including VAT/VAT exempt',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'inclusive' },
         avatarUrl: 'https://i.pravatar.cc/200?img=24',
         company: defaultCompanyId,
+        verified: true,
       },
       {
         externalId: '6',
         name: 'Corinne Parke',
-        priceText: '£300 + VAT',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'plus_vat' },
         avatarUrl: 'https://i.pravatar.cc/200?img=6',
         company: defaultCompanyId,
+        verified: true,
       },
       {
         externalId: '7',
         name: 'Richard Buxton',
-        priceText: '£300 + VAT',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'plus_vat' },
         avatarUrl: 'https://i.pravatar.cc/200?img=18',
         company: defaultCompanyId,
+        verified: true,
       },
       {
         externalId: '9',
         name: 'Bethan Hill-Howells',
-        priceText: '£300 + VAT',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'plus_vat' },
         avatarUrl: 'https://i.pravatar.cc/200?img=10',
         company: defaultCompanyId,
+        verified: true,
       },
       {
         externalId: '10',
         name: 'Helen Boynton',
-        priceText: '£300 + VAT',
+        pricing: { basis: 'hourly', amount: 30000, currency: 'GBP', vatStatus: 'plus_vat' },
         avatarUrl: 'https://i.pravatar.cc/200?img=52',
         company: defaultCompanyId,
+        verified: true,
       },
     ];
 
@@ -154,8 +221,10 @@ export class LawyersService {
       throw new BadRequestException('Lawyer already exists for this company');
     }
 
+    const pricing = payload.pricing ?? parsePriceText(payload.priceText);
     const lawyer = new this.lawyerModel({
       ...payload,
+      pricing,
       company: company._id,
       createdBy: 'admin', // optional audit field
     });
@@ -173,6 +242,79 @@ export class LawyersService {
       .exec();
   }
 
+  /**
+   * Filtered, sorted page of the directory. Price filters and sorting work on
+   * the effective pricing (see pricingOf), so only they run after the query;
+   * without them Mongo also sorts by name and pages. Lawyers without a usable
+   * price are left out of price filters and sort last.
+   */
+  async search(filter: LawyerDirectoryFilter, page = 1, limit = 25, sort = 'name') {
+    if (!(LAWYER_SORTS as readonly string[]).includes(sort)) throw new BadRequestException(`sort must be one of ${LAWYER_SORTS.join(', ')}`);
+    const invalid = (values: string[] | undefined, allowed: readonly string[]) => values?.find((v) => !allowed.includes(v));
+    if (invalid(filter.status, LAWYER_STATUSES)) throw new BadRequestException(`Invalid status "${invalid(filter.status, LAWYER_STATUSES)}"`);
+    if (invalid(filter.vatStatus, VAT_STATUSES)) throw new BadRequestException(`Invalid vatStatus "${invalid(filter.vatStatus, VAT_STATUSES)}"`);
+    if (filter.feeBasis && !FEE_BASES.includes(filter.feeBasis)) throw new BadRequestException(`Invalid feeBasis "${filter.feeBasis}"`);
+    for (const [name, v] of [['minPrice', filter.minPrice], ['maxPrice', filter.maxPrice]] as const) {
+      if (v !== undefined && !(Number.isFinite(v) && v >= 0)) throw new BadRequestException(`${name} must be a non-negative amount in minor units`);
+    }
+
+    const and: Record<string, any>[] = [];
+    if (filter.status?.length) {
+      // documents from before `status` existed count as available
+      and.push(filter.status.includes('available') ? { $or: [{ status: { $in: filter.status } }, { status: { $exists: false } }] } : { status: { $in: filter.status } });
+    }
+    if (filter.verified !== undefined) and.push({ verified: filter.verified ? true : { $ne: true } });
+    if (filter.companyId) {
+      if (!Types.ObjectId.isValid(filter.companyId)) throw new BadRequestException('Invalid company id');
+      and.push({ company: new Types.ObjectId(filter.companyId) });
+    }
+    if (filter.location?.trim()) {
+      const escaped = filter.location.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const rx = new RegExp(`^${escaped}$`, 'i');
+      and.push({ $or: [{ city: rx }, { region: rx }] });
+    }
+    if (filter.specialism?.length) and.push({ specialisms: { $in: filter.specialism.map((s) => s.trim().toLowerCase()) } });
+
+    const query = and.length ? { $and: and } : {};
+    const dir = sort.startsWith('-') ? -1 : 1;
+    const safeLimit = Math.min(Math.max(limit, 1), 100);
+    const safePage = Math.max(page, 1);
+    const byPrice = filter.feeBasis || filter.vatStatus?.length || filter.minPrice !== undefined || filter.maxPrice !== undefined;
+    if (!byPrice && !sort.endsWith('price')) {
+      const [docs, total] = await Promise.all([
+        this.lawyerModel.find(query).collation({ locale: 'en', strength: 1 }).sort({ name: dir, _id: 1 }).skip((safePage - 1) * safeLimit).limit(safeLimit)
+          .populate('company', 'name').lean().exec(),
+        this.lawyerModel.countDocuments(query).exec(),
+      ]);
+      return { total, page: safePage, limit: safeLimit, docs };
+    }
+
+    const lawyers = await this.lawyerModel.find(query).populate('company', 'name').lean().exec();
+    const priced = lawyers.map((l) => {
+      const pricing = this.pricingOf(l);
+      return { lawyer: l, pricing, unitPrice: pricing ? breakdown(pricing.amount, pricing.vatStatus, this.vatRate).gross : null };
+    });
+    const matching = !byPrice ? priced : priced.filter(({ pricing, unitPrice }) =>
+      !!pricing &&
+      (!filter.feeBasis || pricing.basis === filter.feeBasis) &&
+      (!filter.vatStatus?.length || filter.vatStatus.includes(pricing.vatStatus)) &&
+      (filter.minPrice === undefined || unitPrice! >= filter.minPrice) &&
+      (filter.maxPrice === undefined || unitPrice! <= filter.maxPrice));
+
+    const byName = (a: typeof matching[number], b: typeof matching[number]) => String(a.lawyer.name ?? '').localeCompare(String(b.lawyer.name ?? ''), 'en', { sensitivity: 'base' });
+    matching.sort((a, b) => {
+      if (sort.endsWith('price')) {
+        if (a.unitPrice === null || b.unitPrice === null) return a.unitPrice === b.unitPrice ? byName(a, b) : a.unitPrice === null ? 1 : -1;
+        if (a.unitPrice !== b.unitPrice) return dir * (a.unitPrice - b.unitPrice);
+        return byName(a, b);
+      }
+      return dir * byName(a, b);
+    });
+
+    const docs = matching.slice((safePage - 1) * safeLimit, safePage * safeLimit).map((x) => x.lawyer);
+    return { total: matching.length, page: safePage, limit: safeLimit, docs };
+  }
+
   async findById(id: string) {
     return this.lawyerModel
       .findById(id)
@@ -0,0 +1,51 @@
+// src/cases/schemas/case-event.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { appendOnly } from '../../common/append-only';
+
+export type CaseEventDocument = CaseEvent & Document;
+
+// Append-only audit trail: one document per case mutation.
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'case_events',
+})
+export class CaseEvent {
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true, index: true })
+  case: Types.ObjectId;
+
+  @Prop({ type: String, required: true, index: true })
+  action: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null, index: true })
+  actor: Types.ObjectId | null;
+
+  @Prop({ type: String, default: null })
+  actorRole: string | null;
+
+  @Prop({ type: Number, default: null })
+  stepNumber: number | null;
+
+  @Prop({ type: [String], default: [] })
+  paths: string[];
+
+  @Prop({ type: Object, default: null })
+  before: any;
+
+  @Prop({ type: Object, default: null })
+  after: any;
+
+  @Prop({ type: String, default: null })
+  ip: string | null;
+
+  @Prop({ type: Object, default: null })
+  meta: any;
+
+  createdAt?: Date;
+}
+
+export const CaseEventSchema = SchemaFactory.createForClass(CaseEvent);
+CaseEventSchema.index({ case: 1, createdAt: -1 });
+CaseEventSchema.index({ paths: 1 });
+
+appendOnly(CaseEventSchema, 'CaseEvent');
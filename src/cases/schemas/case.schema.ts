@@ -1,6 +1,8 @@
 // src/cases/schemas/case.schema.ts
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { CASE_TYPES } from '../step-ownership';
+import type { CaseType } from '../step-ownership';
 
 @Schema({ _id: false })
 export class Approval {
@@ -36,11 +38,27 @@ export class Approval {
 }
 export const ApprovalSchema = SchemaFactory.createForClass(Approval);
 
+// Server-side conversion of a foreign-currency amount; see CurrencyService.convertStep.
+@Schema({ _id: false })
+export class FxConversion {
+  @Prop({ type: Number, default: null }) unitsPerGbp?: number | null;
+  @Prop({ type: Date, default: null }) rateEffectiveFrom?: Date | null;
+  @Prop({ type: Date }) convertedAt?: Date;
+  @Prop({ type: Boolean, default: false }) missingRate?: boolean;
+  @Prop({ type: Number, default: null }) declaredGbpEquivalent?: number | null;
+  @Prop({ type: Number, default: null }) deviation?: number | null;
+  @Prop({ type: Boolean, default: false }) flagged?: boolean;
+}
+export const FxConversionSchema = SchemaFactory.createForClass(FxConversion);
+
 @Schema({ _id: false })
 export class IncomeEntry {
   @Prop({ required: true, type: String }) source: string;
   @Prop({ required: true, type: Number }) amount: number;
   @Prop({ type: String }) notes?: string;
+  @Prop({ type: String }) currency?: string;
+  @Prop({ type: Number }) gbpEquivalent?: number;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const IncomeEntrySchema = SchemaFactory.createForClass(IncomeEntry);
 
@@ -53,6 +71,9 @@ export class PropertyEntry {
   @Prop({ type: Number }) value?: number;
   @Prop({ type: String }) mortgageOutstanding?: string;
   @Prop({ type: String }) notes?: string;
+  @Prop({ type: String }) currency?: string;
+  @Prop({ type: Number }) gbpEquivalent?: number;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const PropertyEntrySchema = SchemaFactory.createForClass(PropertyEntry);
 
@@ -61,6 +82,9 @@ export class SavingEntry {
   @Prop({ type: String }) name?: string;
   @Prop({ type: Number }) amount?: number;
   @Prop({ type: String }) notes?: string;
+  @Prop({ type: String }) currency?: string;
+  @Prop({ type: Number }) gbpEquivalent?: number;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const SavingEntrySchema = SchemaFactory.createForClass(SavingEntry);
 
@@ -69,6 +93,9 @@ export class PensionEntry {
   @Prop({ type: String }) name?: string;
   @Prop({ type: Number }) value?: number;
   @Prop({ type: String }) notes?: string;
+  @Prop({ type: String }) currency?: string;
+  @Prop({ type: Number }) gbpEquivalent?: number;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const PensionEntrySchema = SchemaFactory.createForClass(PensionEntry);
 
@@ -78,6 +105,9 @@ export class DebtEntry {
   @Prop({ type: String }) description?: string;
   @Prop({ type: Number }) amount?: number;
   @Prop({ type: String }) notes?: string;
+  @Prop({ type: String }) currency?: string;
+  @Prop({ type: Number }) gbpEquivalent?: number;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const DebtEntrySchema = SchemaFactory.createForClass(DebtEntry);
 
@@ -89,6 +119,9 @@ export class BusinessEntry {
   @Prop({ type: Number }) ownershipPercentage?: number;
   @Prop({ type: Number }) otherNumbers?: number;
   @Prop({ type: String }) explanation?: string;
+  @Prop({ type: String }) currency?: string;
+  @Prop({ type: Number }) gbpEquivalent?: number;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const BusinessEntrySchema = SchemaFactory.createForClass(BusinessEntry);
 
@@ -98,6 +131,9 @@ export class ChattelEntry {
   @Prop({ type: Number }) value?: number;
   @Prop({ type: String }) registrationOrId?: string;
   @Prop({ type: String }) notes?: string;
+  @Prop({ type: String }) currency?: string;
+  @Prop({ type: Number }) gbpEquivalent?: number;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const ChattelEntrySchema = SchemaFactory.createForClass(ChattelEntry);
 
@@ -107,6 +143,9 @@ export class OtherAssetEntry {
   @Prop({ type: String }) description?: string;
   @Prop({ type: Number }) value?: number;
   @Prop({ type: String }) notes?: string;
+  @Prop({ type: String }) currency?: string;
+  @Prop({ type: Number }) gbpEquivalent?: number;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const OtherAssetEntrySchema = SchemaFactory.createForClass(OtherAssetEntry);
 
@@ -187,6 +226,7 @@ export class FutureInheritance {
   @Prop({ type: String }) originalCurrency?: string;
   @Prop({ type: Number }) gbpEquivalent?: number;
   @Prop({ type: String }) basisOfEstimate?: string;
+  @Prop({ type: FxConversionSchema }) fx?: FxConversion;
 }
 export const FutureInheritanceSchema = SchemaFactory.createForClass(FutureInheritance);
 
@@ -230,14 +270,37 @@ export class StepStatus {
   @Prop({ type: Date, default: null }) lockedAt: Date | null;
   @Prop({ type: Types.ObjectId, ref: 'User', default: null }) unlockedBy: Types.ObjectId | null;
   @Prop({ type: Date, default: null }) unlockedAt: Date | null;
+  @Prop({ type: String, default: null }) unlockReason?: string | null;
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null }) draftSavedBy?: Types.ObjectId | null;
+  @Prop({ type: Date, default: null }) draftSavedAt?: Date | null;
 }
 export const StepStatusSchema = SchemaFactory.createForClass(StepStatus);
 
+export const INTRODUCTION_STATUSES = ['pending', 'accepted', 'declined', 'expired'] as const;
+export type IntroductionStatus = (typeof INTRODUCTION_STATUSES)[number];
+
+// The selected lawyer's answer to being introduced to a partner. A new one is
+// opened on every selection; its _id is bound into the emailed response link.
+@Schema({ _id: true })
+export class LawyerIntroduction {
+  _id?: Types.ObjectId;
+  @Prop({ type: Types.ObjectId, ref: 'Lawyer', required: true }) lawyer: Types.ObjectId;
+  @Prop({ type: String, enum: INTRODUCTION_STATUSES, default: 'pending' }) status: IntroductionStatus;
+  @Prop({ type: Date, required: true }) sentAt: Date;
+  @Prop({ type: Date, required: true }) expiresAt: Date;
+  @Prop({ type: Date, default: null }) respondedAt: Date | null;
+  @Prop({ type: String, enum: ['email', 'portal', 'system'], default: null }) respondedVia: 'email' | 'portal' | 'system' | null;
+  @Prop({ type: String, default: null }) declineReason: string | null;
+}
+export const LawyerIntroductionSchema = SchemaFactory.createForClass(LawyerIntroduction);
+
 @Schema({ _id: false })
 export class PreQuestionnaire {
   @Prop({ type: [String], default: [] }) answers: string[];
   @Prop({ type: Types.ObjectId, ref: 'Lawyer', default: null }) selectedLawyer: Types.ObjectId | null;
   @Prop({ type: Date, default: null }) selectedAt?: Date | null;
+  // kept after a decline or expiry (when selectedLawyer is cleared) so the partner can see why
+  @Prop({ type: LawyerIntroductionSchema, default: null }) introduction?: LawyerIntroduction | null;
   @Prop({ type: Boolean, default: false }) submitted: boolean;
   @Prop({ type: Types.ObjectId, ref: 'User', default: null }) submittedBy: Types.ObjectId | null;
   @Prop({ type: Date, default: null }) submittedAt: Date | null;
@@ -247,11 +310,29 @@ export class PreQuestionnaire {
 }
 export const PreQuestionnaireSchema = SchemaFactory.createForClass(PreQuestionnaire);
 
+export const WORKFLOW_STATUSES = ['DRAFT', 'CM', 'PAID', 'LAWYER'] as const;
+export type WorkflowStatus = (typeof WORKFLOW_STATUSES)[number];
+
+@Schema({ _id: false })
+export class WorkflowHistoryEntry {
+  @Prop({ type: String, required: true }) transition: string;
+  @Prop({ type: String, default: null }) from: string | null;
+  @Prop({ type: String, required: true }) to: string;
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null }) actor: Types.ObjectId | null;
+  @Prop({ type: String, default: null }) actorRole: string | null;
+  @Prop({ type: String, default: null }) reason: string | null;
+  @Prop({ type: Date, default: Date.now }) at: Date;
+}
+export const WorkflowHistoryEntrySchema = SchemaFactory.createForClass(WorkflowHistoryEntry);
+
 export type CaseDocument = Case & Document;
 
 @Schema({ timestamps: true })
 export class Case {
   @Prop({ type: String, default: 'Untitled case' }) title: string;
+  @Prop({ type: String, enum: CASE_TYPES, default: 'prenup' }) caseType: CaseType;
+  // bumped on every write; exposed as the ETag for optimistic concurrency
+  @Prop({ type: Number, default: 0 }) revision: number;
   @Prop({ type: Object, default: null }) inviteCredentials?: { email: string; password: string; createdAt: Date; };
   @Prop({ type: Types.ObjectId, ref: 'User', required: true }) owner: Types.ObjectId;
   @Prop({ type: Types.ObjectId, ref: 'User', default: null }) invitedUser: Types.ObjectId | null;
@@ -273,7 +354,12 @@ export class Case {
   @Prop({ type: Boolean, default: false }) fullyLocked?: boolean;
   @Prop({ type: Types.ObjectId, ref: 'User', default: null }) fullyLockedBy?: Types.ObjectId | null;
   @Prop({ type: Date, default: null }) fullyLockedAt?: Date | null;
-  @Prop({ type: String, default: 'DRAFT', enum: ['DRAFT', 'CM', 'PAID', 'LAWYER'] }) workflowStatus?: string;
+  @Prop({ type: String, default: 'DRAFT', enum: WORKFLOW_STATUSES }) workflowStatus?: string;
+  @Prop({ type: [WorkflowHistoryEntrySchema], default: [] }) workflowHistory?: WorkflowHistoryEntry[];
+  // in-progress step data keyed by `stepN`, in the stored shape; cleared on submit
+  @Prop({ type: Object, default: {} }) stepDrafts?: Record<string, any>;
   @Prop({ type: Types.ObjectId, ref: 'User', default: null }) assignedCaseManager?: Types.ObjectId | null;
 }
 export const CaseSchema = SchemaFactory.createForClass(Case);
+CaseSchema.index({ 'preQuestionnaireUser1.introduction.status': 1, 'preQuestionnaireUser1.introduction.expiresAt': 1 });
+CaseSchema.index({ 'preQuestionnaireUser2.introduction.status': 1, 'preQuestionnaireUser2.introduction.expiresAt': 1 });
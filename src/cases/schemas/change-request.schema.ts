@@ -0,0 +1,66 @@
+// src/cases/schemas/change-request.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { CaseParty } from '../step-ownership';
+
+export type ChangeRequestDocument = ChangeRequest & Document;
+
+export const CHANGE_REQUEST_STATUSES = [
+  'open',
+  'responded',
+  'resolved',
+] as const;
+export type ChangeRequestStatus = (typeof CHANGE_REQUEST_STATUSES)[number];
+
+// A case manager's request for one partner to correct a submitted step.
+@Schema({ timestamps: true, collection: 'change_requests' })
+export class ChangeRequest {
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true, index: true })
+  case: Types.ObjectId;
+
+  @Prop({ type: Number, required: true, min: 1, max: 7 })
+  stepNumber: number;
+
+  // e.g. "pensionEntries.0.value"; null when the request is about the whole step
+  @Prop({ type: String, default: null })
+  fieldPath: string | null;
+
+  @Prop({ type: String, required: true })
+  message: string;
+
+  @Prop({ type: String, enum: ['owner', 'invited'], required: true })
+  targetParty: CaseParty;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  targetUser: Types.ObjectId | null;
+
+  @Prop({ type: String, enum: CHANGE_REQUEST_STATUSES, default: 'open' })
+  status: ChangeRequestStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  raisedBy: Types.ObjectId | null;
+
+  @Prop({ type: String, default: null })
+  raisedByRole: string | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  respondedBy: Types.ObjectId | null;
+
+  @Prop({ type: Date, default: null })
+  respondedAt: Date | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  resolvedBy: Types.ObjectId | null;
+
+  @Prop({ type: Date, default: null })
+  resolvedAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  resolutionNote: string | null;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const ChangeRequestSchema = SchemaFactory.createForClass(ChangeRequest);
+ChangeRequestSchema.index({ case: 1, stepNumber: 1, status: 1 });
@@ -1,10 +1,55 @@
-
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { Company } from './company.schema';
+import { FEE_BASES, VAT_STATUSES, formatPriceText } from '../lawyer-pricing';
+import type { FeeBasis, VatStatus } from '../lawyer-pricing';
 
 export type LawyerDocument = Lawyer & Document;
 
+@Schema({ _id: false })
+export class LawyerPricing {
+  @Prop({ type: String, enum: FEE_BASES, required: true })
+  basis: FeeBasis;
+
+  // minor units (pence): per hour for hourly, the whole fee for fixed
+  @Prop({ type: Number, required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: String, default: 'GBP' })
+  currency: string;
+
+  @Prop({ type: String, enum: VAT_STATUSES, required: true })
+  vatStatus: VatStatus;
+
+  @Prop({ type: Number, default: null, min: 0 })
+  estimatedHours: number | null;
+}
+export const LawyerPricingSchema = SchemaFactory.createForClass(LawyerPricing);
+
+// A reason this lawyer must not act for a particular person, e.g. a prior
+// relationship. Matched against a partner by user id or email.
+@Schema({ _id: true })
+export class LawyerConflictFlag {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  user: Types.ObjectId | null;
+
+  @Prop({ type: String, lowercase: true, trim: true, default: null })
+  email: string | null;
+
+  @Prop({ type: String, required: true })
+  reason: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  recordedBy: Types.ObjectId | null;
+
+  @Prop({ type: Date, default: () => new Date() })
+  recordedAt: Date;
+}
+export const LawyerConflictFlagSchema =
+  SchemaFactory.createForClass(LawyerConflictFlag);
+
 @Schema({ timestamps: true })
 export class Lawyer {
   @Prop({ required: true })
@@ -13,6 +58,10 @@ export class Lawyer {
   @Prop({ required: true })
   name: string;
 
+  @Prop({ type: LawyerPricingSchema, default: null })
+  pricing?: LawyerPricing | null;
+
+  // display only; derived from `pricing` whenever that is set
   @Prop()
   priceText: string;
 
@@ -48,11 +97,30 @@ export class Lawyer {
   @Prop()
   address?: string;
 
+  // directory filters: where the lawyer practises and what they specialise in
+  @Prop({ type: String, trim: true })
+  city?: string;
+
+  @Prop({ type: String, trim: true })
+  region?: string;
+
+  @Prop({ type: [{ type: String, lowercase: true, trim: true }], default: [] })
+  specialisms?: string[];
+
   @Prop()
   barNumber?: string;
 
   @Prop()
   notes?: string;
+
+  @Prop({ default: false })
+  verified?: boolean;
+
+  @Prop({ type: [LawyerConflictFlagSchema], default: [] })
+  conflicts?: LawyerConflictFlag[];
 }
 
-export const LawyerSchema = SchemaFactory.createForClass(Lawyer);
\ No newline at end of file
+export const LawyerSchema = SchemaFactory.createForClass(Lawyer);
+LawyerSchema.pre('validate', function () {
+  if (this.pricing) this.priceText = formatPriceText(this.pricing);
+});
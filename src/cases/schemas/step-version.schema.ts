@@ -0,0 +1,48 @@
+// src/cases/schemas/step-version.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { appendOnly } from '../../common/append-only';
+
+export type StepVersionDocument = StepVersion & Document;
+
+// One immutable snapshot per submitted revision of a case step.
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'step_versions',
+})
+export class StepVersion {
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true })
+  case: Types.ObjectId;
+
+  @Prop({ type: Number, required: true, min: 1, max: 7 })
+  stepNumber: number;
+
+  @Prop({ type: Number, required: true, min: 1 })
+  version: number;
+
+  @Prop({ type: Object, default: {} })
+  data: any;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  submittedBy: Types.ObjectId | null;
+
+  @Prop({ type: String, default: null })
+  submittedByRole: string | null;
+
+  @Prop({ type: Date, default: null })
+  submittedAt: Date | null;
+
+  // 'backfill' marks a snapshot taken of data submitted before versioning existed
+  @Prop({ type: String, enum: ['submit', 'backfill'], default: 'submit' })
+  source: 'submit' | 'backfill';
+
+  createdAt?: Date;
+}
+
+export const StepVersionSchema = SchemaFactory.createForClass(StepVersion);
+StepVersionSchema.index(
+  { case: 1, stepNumber: 1, version: 1 },
+  { unique: true },
+);
+
+appendOnly(StepVersionSchema, 'StepVersion');
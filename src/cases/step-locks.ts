@@ -0,0 +1,31 @@
+// src/cases/step-locks.ts
+// Whole-case vs per-step locking. Step 7 submission locks every step and sets
+// `fullyLocked`; a case manager can then reopen single steps, leaving the
+// case "partially unlocked" until the final step is submitted again.
+
+export const STEP_NUMBERS = [1, 2, 3, 4, 5, 6, 7] as const;
+export const FINAL_STEP = 7;
+
+export type CaseLockState = 'locked' | 'partially_unlocked' | 'unlocked';
+
+const stepStatus = (c: any, n: number) => c?.status?.[`step${n}`] ?? {};
+
+export function lockedStepNumbers(c: any): number[] {
+  return STEP_NUMBERS.filter((n) => !!stepStatus(c, n).locked);
+}
+
+export function caseLockState(c: any): CaseLockState {
+  if (c?.fullyLocked) return 'locked';
+  return lockedStepNumbers(c).length ? 'partially_unlocked' : 'unlocked';
+}
+
+/**
+ * A step reopened by a per-step unlock that has not been submitted again
+ * since. Whole-case unlocks don't count: nothing is expected to be redone.
+ */
+export function awaitingResubmission(c: any, n: number): boolean {
+  if (caseLockState(c) !== 'partially_unlocked') return false;
+  const s = stepStatus(c, n);
+  if (s.locked || !s.submitted || !s.unlockedAt) return false;
+  return !s.submittedAt || new Date(s.submittedAt) < new Date(s.unlockedAt);
+}
@@ -0,0 +1,98 @@
+// src/cases/step-ownership.ts
+import { Types } from 'mongoose';
+
+export const CASE_TYPES = ['prenup'] as const;
+export type CaseType = (typeof CASE_TYPES)[number];
+
+export type CaseParty = 'owner' | 'invited';
+
+export interface StepRule {
+  /** The party who fills in (and submits) the step. */
+  filledBy: CaseParty;
+  /** Joint steps are readable by both parties; private ones only by `filledBy`. */
+  visibility: 'private' | 'joint';
+}
+
+export type StepOwnershipPolicy = Record<number, StepRule>;
+
+export const STEP_OWNERSHIP_POLICIES: Record<CaseType, StepOwnershipPolicy> = {
+  prenup: {
+    1: { filledBy: 'owner', visibility: 'private' },
+    2: { filledBy: 'owner', visibility: 'private' },
+    3: { filledBy: 'invited', visibility: 'private' },
+    4: { filledBy: 'invited', visibility: 'private' },
+    5: { filledBy: 'owner', visibility: 'joint' },
+    6: { filledBy: 'owner', visibility: 'joint' },
+    7: { filledBy: 'owner', visibility: 'joint' },
+  },
+};
+
+export const PARTY_LABELS: Record<CaseParty, string> = {
+  owner: 'case owner',
+  invited: 'invited partner',
+};
+
+export function policyFor(caseType?: string | null): StepOwnershipPolicy {
+  return (
+    STEP_OWNERSHIP_POLICIES[caseType as CaseType] ??
+    STEP_OWNERSHIP_POLICIES.prenup
+  );
+}
+
+/** Which side of the case a user is on, or null for non-participants. */
+export function partyOf(
+  c: { owner?: any; invitedUser?: any },
+  userId?: string | Types.ObjectId | null,
+): CaseParty | null {
+  if (!userId) return null;
+  const id = String(userId);
+  if (c.owner && String(c.owner._id ?? c.owner) === id) return 'owner';
+  if (c.invitedUser && String(c.invitedUser._id ?? c.invitedUser) === id)
+    return 'invited';
+  return null;
+}
+
+export function canWriteStep(
+  policy: StepOwnershipPolicy,
+  stepNumber: number,
+  party: CaseParty | null,
+): boolean {
+  return !!party && policy[stepNumber]?.filledBy === party;
+}
+
+export function canReadStep(
+  policy: StepOwnershipPolicy,
+  stepNumber: number,
+  party: CaseParty | null,
+): boolean {
+  const rule = policy[stepNumber];
+  if (!party || !rule) return false;
+  return rule.visibility === 'joint' || rule.filledBy === party;
+}
+
+/** Step numbers a party is responsible for, in order. */
+export function stepsFilledBy(
+  policy: StepOwnershipPolicy,
+  party: CaseParty,
+): number[] {
+  return Object.keys(policy)
+    .map(Number)
+    .filter((n) => policy[n].filledBy === party)
+    .sort((a, b) => a - b);
+}
+
+/** The partners who have selected `lawyerId` as their lawyer. */
+export function clientsOfLawyer(
+  c: { preQuestionnaireUser1?: any; preQuestionnaireUser2?: any },
+  lawyerId?: string | Types.ObjectId | null,
+): CaseParty[] {
+  if (!lawyerId) return [];
+  const id = String(lawyerId);
+  const selected = (pq: any) =>
+    !!pq?.selectedLawyer &&
+    String(pq.selectedLawyer._id ?? pq.selectedLawyer) === id;
+  const parties: CaseParty[] = [];
+  if (selected(c.preQuestionnaireUser1)) parties.push('owner');
+  if (selected(c.preQuestionnaireUser2)) parties.push('invited');
+  return parties;
+}
@@ -0,0 +1,496 @@
+// src/cases/step-payload.service.ts
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { instanceToPlain, plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { Step1Dto } from './dto/step1.dto';
+import { Step2Dto } from './dto/step2.dto';
+import { Step3Dto } from './dto/step3.dto';
+import { Step4Dto } from './dto/step4.dto';
+import { Step5Dto } from './dto/step5.dto';
+import { Step6Dto } from './dto/step6.dto';
+import { Step7Dto } from './dto/step7.dto';
+
+export type StepNumber = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export interface StepFieldError {
+  field: string;
+  messages: string[];
+}
+
+const STEP_DTOS: Record<StepNumber, new () => object> = {
+  1: Step1Dto,
+  2: Step2Dto,
+  3: Step3Dto,
+  4: Step4Dto,
+  5: Step5Dto,
+  6: Step6Dto,
+  7: Step7Dto,
+};
+
+const STEP5_HEADING = 'Joint assets';
+const STEP5_QUESTIONS = [
+  `Do you have any shared earnings or earnings you'd like to share in the event of a divorce or separation?`,
+  `Do you currently (or will you once married) live in a property that is rented or owned by one or both of you?`,
+  `Do you have any shared savings or savings you'd like to share in the event of a divorce or separation?`,
+  `Do you have any shared pensions or pensions you'd like to share in the event of a divorce or separation?`,
+];
+// stored boolean behind each STEP5_QUESTIONS entry, in order
+const STEP5_QUESTION_FIELDS = [
+  'sharedEarnings',
+  'liveInRentedOrOwned',
+  'sharedSavings',
+  'sharedPensions',
+];
+const STEP5_FOLLOW_UPS = [
+  `Do you have any shared debts or debts you'd like to share in the event of a divorce or separation? This includes current credit card balances, loans, etc.`,
+  `Do you have any shared businesses or businesses you'd like to share in the event of a divorce or separation?`,
+  `Do you have any shared chattels or chattels you'd like to share in the event of a divorce or separation?`,
+  `Do you have any other shared assets or any other assets you'd like to share in the event of a divorce or separation?`,
+];
+// stored boolean + details object behind each STEP5_FOLLOW_UPS entry, in order
+const STEP5_FOLLOW_UP_FIELDS = [
+  ['sharedDebts', 'sharedDebtsDetails'],
+  ['sharedBusinesses', 'sharedBusinessesDetails'],
+  ['sharedChattels', 'sharedChattelsDetails'],
+  ['sharedOtherAssets', 'sharedOtherAssetsDetails'],
+];
+
+const STEP6_HEADING = 'Future Assets';
+const STEP6_QUESTIONS = [
+  `If one of you inherits something, will the inheritance be considered the separate asset (Separate) for the person who inherits it, or a joint asset (Joint) shared between both of you?`,
+  `If one of you is gifted something, will the gift be considered a separate asset (Separate) for whichever of you receives it, or a joint asset (Joint) shared between both of you?`,
+  `Do you want any future assets or debts acquired in either of your sole names to be treated as Joint or Separate?`,
+  `This agreement governs what happens in the event of divorce not death, however it is advisable that you make a new Will once you are married. Do you expect what you leave each other in the event of one of your deaths to be the same as the way your assets will be split in the event of a divorce?`,
+];
+// UI key -> stored key for step 6
+const STEP6_FIELD_MAP: Record<string, string> = {
+  inheritanceSeparate: 'inheritanceConsideredSeparate',
+  giftsSeparate: 'giftConsideredSeparate',
+  futureSoleAssetsSeparate: 'futureAssetsTreatedJointOrSeparate',
+  sameAsWill: 'willBeSameAsDivorceSplit',
+  wantWillAssistance: 'wantWillHelp',
+  sooriyaFutureInheritance: 'person1FutureInheritance',
+  gomathiFutureInheritance: 'person2FutureInheritance',
+};
+
+// UI question key -> stored [answer, overview] keys for step 7. The repeated
+// "2" questions have no dedicated columns and are kept under additionalComplexities.
+const STEP7_QUESTION_MAP: Record<string, [string, string]> = {
+  pregnancy: ['isOnePregnant', 'isOnePregnantOverview'],
+  businessTogether: [
+    'businessWorkedTogether',
+    'businessWorkedTogetherOverview',
+  ],
+  outOfWorkDependent: ['oneOutOfWorkOrDependent', 'oneOutOfWorkOverview'],
+  familyHomeThirdParty: [
+    'familyHomeOwnedWith3rdParty',
+    'familyHome3rdPartyOverview',
+  ],
+  assetsOver3M: ['combinedAssetsOver3m', 'combinedAssetsOver3mOverview'],
+  childLivingWithYou: [
+    'childFromPreviousRelationshipsLivingWithYou',
+    'childFromPreviousOverview',
+  ],
+};
+const STEP7_EXTRA_QUESTIONS = [
+  'outOfWorkDependent2',
+  'familyHomeThirdParty2',
+  'assetsOver3M2',
+];
+
+// Fields that must be filled before a step can be submitted (drafts may omit them).
+const PERSONAL_DETAILS_REQUIRED = [
+  'firstName',
+  'lastName',
+  'dateOfBirth',
+  'address',
+  'nationality',
+  'occupation',
+];
+// "Yes" flag on steps 2/4 -> the entry list that must then be non-empty
+const DISCLOSURE_SECTIONS: Record<string, string> = {
+  separateEarnings: 'earningsEntries',
+  separateProperties: 'propertyEntries',
+  separateSavings: 'savingsEntries',
+  separatePensions: 'pensionEntries',
+  separateDebts: 'debtEntries',
+  separateBusinesses: 'businessEntries',
+  separateChattels: 'chattelEntries',
+  separateOtherAssets: 'otherAssetEntries',
+};
+
+const emptyInheritance = () => ({
+  originalAmount: null,
+  originalCurrency: null,
+  gbpEquivalent: null,
+  basisOfEstimate: null,
+});
+
+@Injectable()
+export class StepPayloadService {
+  assertStepNumber(stepNumber: number): asserts stepNumber is StepNumber {
+    if (!Number.isInteger(stepNumber) || stepNumber < 1 || stepNumber > 7) {
+      throw new BadRequestException('Invalid step');
+    }
+  }
+
+  /**
+   * Validate a step payload against its DTO (unknown keys are stripped) and
+   * translate it into the shape stored on the case. Throws a 400 carrying
+   * per-field errors when validation fails. A `draft` is only checked for
+   * types and shape: missing fields and short lists are left to the
+   * completeness check on submit.
+   */
+  async toStored(
+    stepNumber: number,
+    body: any,
+    draft = false,
+  ): Promise<Record<string, any>> {
+    this.assertStepNumber(stepNumber);
+    const dto = await this.validate(stepNumber, body, draft);
+    switch (stepNumber) {
+      case 5:
+        return this.step5ToStored(dto as Step5Dto);
+      case 6:
+        return this.step6ToStored(dto as Step6Dto);
+      case 7:
+        return this.step7ToStored(dto as Step7Dto);
+      default:
+        return instanceToPlain(dto);
+    }
+  }
+
+  /**
+   * Completeness check run on submit, against the stored shape. Returns one
+   * error per missing field; an empty list means the step can be submitted.
+   */
+  missingRequiredFields(stepNumber: number, stored: any): StepFieldError[] {
+    this.assertStepNumber(stepNumber);
+    const data = stored ?? {};
+    const isBlank = (v: any) =>
+      v === undefined || v === null || (typeof v === 'string' && !v.trim());
+    const missing = (field: string, message = `${field} is required`) => ({
+      field,
+      messages: [message],
+    });
+    switch (stepNumber) {
+      case 1:
+      case 3:
+        return PERSONAL_DETAILS_REQUIRED.filter((f) => isBlank(data[f])).map(
+          (f) => missing(f),
+        );
+      case 2:
+      case 4:
+        return Object.entries(DISCLOSURE_SECTIONS)
+          .filter(([flag, list]) => data[flag] && !data[list]?.length)
+          .map(([flag, list]) =>
+            missing(
+              list,
+              `${list} must have at least one entry when ${flag} is set`,
+            ),
+          );
+      case 6:
+        return ['person1FutureInheritance', 'person2FutureInheritance']
+          .filter(
+            (f) =>
+              !isBlank(data[f]?.originalAmount) &&
+              isBlank(data[f]?.originalCurrency),
+          )
+          .map((f) => missing(`${f}.originalCurrency`));
+      case 7:
+        return Object.values(STEP7_QUESTION_MAP)
+          .filter(
+            ([answer, overview]) => data[answer] && isBlank(data[overview]),
+          )
+          .map(([answer, overview]) =>
+            missing(overview, `${overview} is required when ${answer} is true`),
+          );
+      default:
+        return [];
+    }
+  }
+
+  assertComplete(stepNumber: number, stored: any): void {
+    const errors = this.missingRequiredFields(stepNumber, stored);
+    if (errors.length) {
+      throw new BadRequestException({
+        message: `Step ${stepNumber} is incomplete`,
+        errors,
+      });
+    }
+  }
+
+  /** Shape emitted by GET /cases/:id/steps/:n for the stored step data. */
+  toUi(stepNumber: number, stored: any, updatedAt?: Date | null): any {
+    this.assertStepNumber(stepNumber);
+    const merged = { ...this.emptyTemplate(stepNumber), ...(stored ?? {}) };
+    if (stepNumber === 5) return this.step5ToUi(merged, updatedAt);
+    if (stepNumber === 6) return this.step6ToUi(merged, updatedAt);
+    return merged;
+  }
+
+  emptyTemplate(stepNumber: number): Record<string, any> {
+    switch (stepNumber) {
+      case 1:
+      case 3:
+        return {
+          firstName: null,
+          middleNames: null,
+          lastName: null,
+          dateOfBirth: null,
+          address: null,
+          dateOfMarriage: null,
+          hasChildren: false,
+          fluentInEnglish: false,
+          nationality: null,
+          domicileResidencyStatus: null,
+          occupation: null,
+          incomeGBP: null,
+          overviewAim: null,
+          currentLivingSituation: null,
+          confirm_wenup_platform_used: false,
+          property_personal_possessions_remain: false,
+          family_home_divided_equally: false,
+          court_can_depart_for_children: false,
+          agree_costs_shared: false,
+        };
+      case 2:
+      case 4:
+        return {
+          separateEarnings: false,
+          earningsEntries: [],
+          separateProperties: false,
+          propertyEntries: [],
+          separateSavings: false,
+          savingsEntries: [],
+          separatePensions: false,
+          pensionEntries: [],
+          separateDebts: false,
+          debtEntries: [],
+          separateBusinesses: false,
+          businessEntries: [],
+          separateChattels: false,
+          chattelEntries: [],
+          separateOtherAssets: false,
+          otherAssetEntries: [],
+        };
+      case 5:
+        return {
+          sharedEarnings: false,
+          sharedEarningsDetails: {},
+          sharedDebts: false,
+          sharedDebtsDetails: {},
+          sharedBusinesses: false,
+          sharedBusinessesDetails: {},
+          sharedChattels: false,
+          sharedChattelsDetails: {},
+          sharedOtherAssets: false,
+          sharedOtherAssetsDetails: {},
+          liveInRentedOrOwned: false,
+          sharedSavings: false,
+          sharedPensions: false,
+        };
+      case 6:
+        return {
+          inheritanceConsideredSeparate: false,
+          giftConsideredSeparate: false,
+          futureAssetsTreatedJointOrSeparate: false,
+          willBeSameAsDivorceSplit: false,
+          wantWillHelp: false,
+          person1FutureInheritance: emptyInheritance(),
+          person2FutureInheritance: emptyInheritance(),
+        };
+      case 7:
+        return {
+          isOnePregnant: false,
+          isOnePregnantOverview: null,
+          businessWorkedTogether: false,
+          businessWorkedTogetherOverview: null,
+          oneOutOfWorkOrDependent: false,
+          oneOutOfWorkOverview: null,
+          familyHomeOwnedWith3rdParty: false,
+          familyHome3rdPartyOverview: null,
+          combinedAssetsOver3m: false,
+          combinedAssetsOver3mOverview: null,
+          childFromPreviousRelationshipsLivingWithYou: false,
+          childFromPreviousOverview: null,
+          additionalComplexities: {},
+        };
+      default:
+        return {};
+    }
+  }
+
+  private async validate(
+    stepNumber: StepNumber,
+    body: any,
+    draft: boolean,
+  ): Promise<object> {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new BadRequestException({
+        message: `Step ${stepNumber} payload must be an object`,
+        errors: [],
+      });
+    }
+    const dto = plainToInstance(STEP_DTOS[stepNumber], body);
+    let errors = await validate(dto, {
+      whitelist: true,
+      forbidUnknownValues: false,
+      skipMissingProperties: draft,
+    });
+    if (draft) errors = this.withoutConstraint(errors, 'arrayMinSize');
+    if (errors.length) {
+      throw new BadRequestException({
+        message: `Step ${stepNumber} payload is invalid`,
+        errors: this.flattenErrors(errors),
+      });
+    }
+    return dto;
+  }
+
+  private withoutConstraint(
+    errors: ValidationError[],
+    name: string,
+  ): ValidationError[] {
+    return errors.flatMap((e) => {
+      const constraints = { ...e.constraints };
+      delete constraints[name];
+      const children = this.withoutConstraint(e.children ?? [], name);
+      const own = Object.keys(constraints).length ? constraints : undefined;
+      if (!own && !children.length) return [];
+      return [Object.assign(e, { constraints: own, children })];
+    });
+  }
+
+  private flattenErrors(
+    errors: ValidationError[],
+    prefix = '',
+  ): StepFieldError[] {
+    return errors.flatMap((e) => {
+      const field = prefix ? `${prefix}.${e.property}` : e.property;
+      const own = e.constraints
+        ? [{ field, messages: Object.values(e.constraints) }]
+        : [];
+      return [...own, ...this.flattenErrors(e.children ?? [], field)];
+    });
+  }
+
+  private yesNo(answer?: string | null): boolean {
+    return answer === 'yes';
+  }
+
+  private step5ToStored(dto: Step5Dto) {
+    const stored: Record<string, any> = {};
+    STEP5_QUESTION_FIELDS.forEach((field, idx) => {
+      stored[field] = this.yesNo(dto.questions?.[idx]?.answer);
+    });
+    STEP5_FOLLOW_UP_FIELDS.forEach(([field, detailsField], idx) => {
+      const f = dto.followUps?.[idx];
+      stored[field] = this.yesNo(f?.answer);
+      stored[detailsField] = f?.details ?? {};
+    });
+    if (dto.savedAt) {
+      stored.sharedEarningsDetails = {
+        ...stored.sharedEarningsDetails,
+        ui: {
+          ...(stored.sharedEarningsDetails?.ui ?? {}),
+          savedAt: dto.savedAt,
+        },
+      };
+    }
+    return stored;
+  }
+
+  private step5ToUi(merged: any, updatedAt?: Date | null) {
+    const answer = (v: any) => (v ? 'yes' : 'no');
+    return {
+      heading: STEP5_HEADING,
+      questions: STEP5_QUESTIONS.map((question, idx) => ({
+        question,
+        answer: answer(merged[STEP5_QUESTION_FIELDS[idx]]),
+      })),
+      followUpsShown: !!merged.sharedEarnings,
+      followUps: STEP5_FOLLOW_UPS.map((question, idx) => {
+        const [field, detailsField] = STEP5_FOLLOW_UP_FIELDS[idx];
+        return {
+          question,
+          answer: answer(merged[field]),
+          details: merged[detailsField] || {},
+        };
+      }),
+      savedAt: merged.sharedEarningsDetails?.ui?.savedAt || updatedAt || null,
+    };
+  }
+
+  private step6ToStored(dto: Step6Dto) {
+    const plain = instanceToPlain(dto);
+    const stored: Record<string, any> = {};
+    for (const [uiKey, storedKey] of Object.entries(STEP6_FIELD_MAP)) {
+      if (plain[uiKey] === undefined) continue;
+      stored[storedKey] =
+        plain[uiKey] ?? (storedKey.startsWith('person') ? {} : false);
+    }
+    return stored;
+  }
+
+  private step6ToUi(merged: any, updatedAt?: Date | null) {
+    const inheritance = (v: any) => ({
+      originalAmount: v?.originalAmount ?? null,
+      originalCurrency: v?.originalCurrency ?? null,
+      gbpEquivalent: v?.gbpEquivalent ?? null,
+      basisOfEstimate: v?.basisOfEstimate ?? null,
+      fx: v?.fx ?? null,
+    });
+    const answers = [
+      merged.inheritanceConsideredSeparate,
+      merged.giftConsideredSeparate,
+      merged.futureAssetsTreatedJointOrSeparate,
+      merged.willBeSameAsDivorceSplit,
+    ];
+    return {
+      heading: STEP6_HEADING,
+      questions: STEP6_QUESTIONS.map((question, idx) => ({
+        question,
+        answer: answers[idx] ? 'yes' : 'no',
+      })),
+      inheritanceSeparate: !!merged.inheritanceConsideredSeparate,
+      giftsSeparate: !!merged.giftConsideredSeparate,
+      futureSoleAssetsSeparate: !!merged.futureAssetsTreatedJointOrSeparate,
+      sameAsWill: !!merged.willBeSameAsDivorceSplit,
+      wantWillAssistance: !!merged.wantWillHelp,
+      sooriyaFutureInheritance: inheritance(merged.person1FutureInheritance),
+      gomathiFutureInheritance: inheritance(merged.person2FutureInheritance),
+      savedAt: merged.person1FutureInheritance?.savedAt || updatedAt || null,
+    };
+  }
+
+  // Step 7 is read back in the stored shape, so stored keys pass through and
+  // any question-shaped UI keys are layered on top.
+  private step7ToStored(dto: Step7Dto) {
+    const plain = instanceToPlain(dto);
+    const stored: Record<string, any> = {};
+    const additional: Record<string, any> = {
+      ...(plain.additionalComplexities ?? {}),
+    };
+    for (const [key, value] of Object.entries(plain)) {
+      if (STEP7_QUESTION_MAP[key] || STEP7_EXTRA_QUESTIONS.includes(key))
+        continue;
+      if (key === 'overview' || key === 'additionalComplexities') continue;
+      stored[key] = value;
+    }
+    for (const [uiKey, [answerKey, overviewKey]] of Object.entries(
+      STEP7_QUESTION_MAP,
+    )) {
+      const q = plain[uiKey];
+      if (!q) continue;
+      stored[answerKey] = !!q.answer;
+      stored[overviewKey] = q.overview ?? null;
+    }
+    for (const key of STEP7_EXTRA_QUESTIONS) {
+      if (plain[key]) additional[key] = plain[key];
+    }
+    if (plain.overview !== undefined) additional.overview = plain.overview;
+    stored.additionalComplexities = additional;
+    return stored;
+  }
+}
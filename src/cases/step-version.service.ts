@@ -0,0 +1,152 @@
+// src/cases/step-version.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  StepVersion,
+  StepVersionDocument,
+} from './schemas/step-version.schema';
+import { diffObjects } from '../common/object-diff';
+
+export interface StepVersionInput {
+  caseId: string | Types.ObjectId;
+  stepNumber: number;
+  data: any;
+  submittedBy?: string | Types.ObjectId | null;
+  submittedByRole?: string | null;
+  submittedAt?: Date | null;
+}
+
+const MAX_VERSION_ATTEMPTS = 5;
+
+@Injectable()
+export class StepVersionService {
+  private readonly logger = new Logger(StepVersionService.name);
+
+  constructor(
+    @InjectModel(StepVersion.name)
+    private stepVersionModel: Model<StepVersionDocument>,
+  ) {}
+
+  /**
+   * Store a submitted revision. `previous` is the step as it stood before this
+   * submission; when the step has no history yet but was already submitted, it
+   * is kept as a backfilled version 1 so the first diff has something to compare.
+   * Runs after the step itself is saved, so it never throws: a concurrent
+   * submit that takes the same version number is retried with the next one,
+   * and anything else is logged.
+   */
+  async record(input: StepVersionInput, previous?: StepVersionInput | null) {
+    const caseObjId = new Types.ObjectId(String(input.caseId));
+    for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS; attempt++) {
+      try {
+        const last = await this.stepVersionModel
+          .findOne({ case: caseObjId, stepNumber: input.stepNumber })
+          .sort({ version: -1 })
+          .select('version')
+          .lean()
+          .exec();
+        let next = (last?.version ?? 0) + 1;
+        if (!last && previous) {
+          await this.create(caseObjId, previous, next++, 'backfill');
+          previous = null;
+        }
+        return await this.create(caseObjId, input, next, 'submit');
+      } catch (err) {
+        if (err?.code === 11000 && attempt < MAX_VERSION_ATTEMPTS) continue;
+        this.logger.error(
+          `Failed to record step ${input.stepNumber} version for case ${caseObjId}`,
+          err,
+        );
+        return null;
+      }
+    }
+    return null;
+  }
+
+  async list(caseId: string, stepNumber: number) {
+    const docs = await this.stepVersionModel
+      .find({ case: new Types.ObjectId(caseId), stepNumber })
+      .sort({ version: -1 })
+      .select('-data')
+      .lean()
+      .exec();
+    return { total: docs.length, docs };
+  }
+
+  async get(caseId: string, stepNumber: number, version: number) {
+    const doc = await this.stepVersionModel
+      .findOne({ case: new Types.ObjectId(caseId), stepNumber, version })
+      .lean()
+      .exec();
+    if (!doc)
+      throw new NotFoundException(
+        `Version ${version} not found for step ${stepNumber}`,
+      );
+    return doc;
+  }
+
+  /**
+   * Field-level changes from version `from` to version `to`. Defaults to the
+   * latest version compared with the one before it.
+   */
+  async diff(caseId: string, stepNumber: number, from?: number, to?: number) {
+    const { docs } = await this.list(caseId, stepNumber);
+    if (!docs.length)
+      throw new NotFoundException(`Step ${stepNumber} has no versions yet`);
+    const toVersion = to ?? docs[0].version;
+    const fromVersion = from ?? toVersion - 1;
+    if (
+      !Number.isInteger(toVersion) ||
+      !Number.isInteger(fromVersion) ||
+      fromVersion < 0
+    )
+      throw new BadRequestException('Invalid version numbers');
+    const target = await this.get(caseId, stepNumber, toVersion);
+    const base =
+      fromVersion === 0
+        ? null
+        : await this.get(caseId, stepNumber, fromVersion);
+    return {
+      stepNumber,
+      from: base ? this.summary(base) : null,
+      to: this.summary(target),
+      changes: diffObjects(base?.data ?? {}, target.data ?? {}),
+    };
+  }
+
+  private summary(v: any) {
+    return {
+      version: v.version,
+      submittedBy: v.submittedBy,
+      submittedByRole: v.submittedByRole,
+      submittedAt: v.submittedAt,
+      source: v.source,
+    };
+  }
+
+  private create(
+    caseObjId: Types.ObjectId,
+    input: StepVersionInput,
+    version: number,
+    source: 'submit' | 'backfill',
+  ) {
+    const by = input.submittedBy ? String(input.submittedBy) : null;
+    return this.stepVersionModel.create({
+      case: caseObjId,
+      stepNumber: input.stepNumber,
+      version,
+      data: input.data ? JSON.parse(JSON.stringify(input.data)) : {},
+      submittedBy:
+        by && Types.ObjectId.isValid(by) ? new Types.ObjectId(by) : null,
+      submittedByRole: input.submittedByRole ?? null,
+      submittedAt: input.submittedAt ?? new Date(),
+      source,
+    });
+  }
+}
@@ -0,0 +1,109 @@
+// src/comments/comments.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { CommentsService } from './comments.service';
+import {
+  CreateReplyDto,
+  CreateThreadDto,
+  EditCommentDto,
+} from './dto/comment.dto';
+
+@Controller('cases/:id/comments')
+export class CommentsController {
+  constructor(private commentsService: CommentsService) {}
+  private ensureUser(req: any) {
+    const user = req.user;
+    if (!user) throw new UnauthorizedException('Authentication required');
+    return user;
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  async list(
+    @Req() req,
+    @Param('id') id: string,
+    @Query('stepNumber') stepNumber?: string,
+    @Query('fieldPath') fieldPath?: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.commentsService.listThreads(id, user, {
+      stepNumber: stepNumber ? Number(stepNumber) : undefined,
+      fieldPath: fieldPath || undefined,
+    });
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post()
+  async createThread(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() body: CreateThreadDto,
+  ) {
+    const user = this.ensureUser(req);
+    return this.commentsService.createThread(id, body, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':threadId')
+  async getThread(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('threadId') threadId: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.commentsService.getThread(id, threadId, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post(':threadId/replies')
+  async reply(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('threadId') threadId: string,
+    @Body() body: CreateReplyDto,
+  ) {
+    const user = this.ensureUser(req);
+    return this.commentsService.reply(id, threadId, body, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post(':threadId/read')
+  async markRead(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('threadId') threadId: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.commentsService.markRead(id, threadId, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Patch(':threadId/comments/:commentId')
+  async edit(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('threadId') threadId: string,
+    @Param('commentId') commentId: string,
+    @Body() body: EditCommentDto,
+  ) {
+    const user = this.ensureUser(req);
+    return this.commentsService.edit(id, threadId, commentId, body.body, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Delete(':threadId/comments/:commentId')
+  async remove(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('threadId') threadId: string,
+    @Param('commentId') commentId: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.commentsService.remove(id, threadId, commentId, user);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  CommentThread,
+  CommentThreadSchema,
+} from './schemas/comment-thread.schema';
+import { Comment, CommentSchema } from './schemas/comment.schema';
+import { Case, CaseSchema } from '../cases/schemas/case.schema';
+import { CommentsService } from './comments.service';
+import { CommentsController } from './comments.controller';
+import { MailModule } from '../mail/mail.module';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CommentThread.name, schema: CommentThreadSchema },
+      { name: Comment.name, schema: CommentSchema },
+      { name: Case.name, schema: CaseSchema },
+    ]),
+    MailModule,
+    UsersModule,
+  ],
+  providers: [CommentsService],
+  controllers: [CommentsController],
+  exports: [CommentsService],
+})
+export class CommentsModule {}
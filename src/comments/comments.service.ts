@@ -0,0 +1,428 @@
+// src/comments/comments.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Case, CaseDocument } from '../cases/schemas/case.schema';
+import { STEP_LABELS } from '../cases/case-progress.service';
+import {
+  CaseParty,
+  canReadStep,
+  partyOf,
+  policyFor,
+} from '../cases/step-ownership';
+import { MailService } from '../mail/mail.service';
+import { UsersService } from '../users/users.service';
+import {
+  CommentThread,
+  CommentThreadDocument,
+  CommentVisibility,
+} from './schemas/comment-thread.schema';
+import { Comment, CommentDocument } from './schemas/comment.schema';
+
+export interface NewThreadInput {
+  body: string;
+  mentions?: string[];
+  stepNumber?: number | null;
+  fieldPath?: string | null;
+  visibility?: CommentVisibility;
+}
+
+interface Viewer {
+  id: Types.ObjectId;
+  role: string;
+  party: CaseParty | null;
+  privileged: boolean;
+}
+
+const AUTHOR_FIELDS = 'firstName lastName role';
+const FIELD_PATH = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
+
+@Injectable()
+export class CommentsService {
+  private readonly logger = new Logger(CommentsService.name);
+
+  constructor(
+    @InjectModel(CommentThread.name)
+    private threadModel: Model<CommentThreadDocument>,
+    @InjectModel(Comment.name) private commentModel: Model<CommentDocument>,
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    private mailService: MailService,
+    private users: UsersService,
+  ) {}
+
+  /** Threads on a case the user may see, newest activity first, with unread counts. */
+  async listThreads(
+    caseId: string,
+    user: any,
+    filter: { stepNumber?: number; fieldPath?: string } = {},
+  ) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const q: any = { case: c._id };
+    if (!viewer.privileged) q.visibility = 'participants';
+    if (filter.stepNumber !== undefined) q.stepNumber = filter.stepNumber;
+    if (filter.fieldPath) q.fieldPath = filter.fieldPath;
+    const threads = (
+      await this.threadModel
+        .find(q)
+        .sort({ lastCommentAt: -1 })
+        .populate('createdBy', AUTHOR_FIELDS)
+        .lean()
+        .exec()
+    ).filter((t) => this.canView(c, t, viewer));
+    const unread = await this.commentModel.aggregate([
+      {
+        $match: {
+          thread: { $in: threads.map((t) => t._id) },
+          deletedAt: null,
+          author: { $ne: viewer.id },
+          'readBy.user': { $ne: viewer.id },
+        },
+      },
+      { $group: { _id: '$thread', n: { $sum: 1 } } },
+    ]);
+    const unreadBy = new Map(unread.map((u) => [String(u._id), u.n]));
+    const docs = threads.map((t) => ({
+      ...this.toThreadView(t),
+      unread: unreadBy.get(String(t._id)) ?? 0,
+    }));
+    return { total: docs.length, docs };
+  }
+
+  async getThread(caseId: string, threadId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const thread = await this.loadThread(c, threadId, viewer);
+    const comments = await this.commentModel
+      .find({ thread: thread._id })
+      .sort({ createdAt: 1 })
+      .populate('author', AUTHOR_FIELDS)
+      .lean()
+      .exec();
+    return {
+      ...this.toThreadView(thread),
+      comments: comments.map((cm) => this.toCommentView(cm, viewer)),
+    };
+  }
+
+  async createThread(caseId: string, input: NewThreadInput, user: any) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const visibility = input.visibility ?? 'participants';
+    if (visibility === 'internal' && !viewer.privileged)
+      throw new ForbiddenException(
+        'Only case managers/admins may start internal threads',
+      );
+    const stepNumber = input.stepNumber ?? null;
+    if (stepNumber !== null && !STEP_LABELS[stepNumber])
+      throw new BadRequestException('Invalid step');
+    const fieldPath = input.fieldPath?.trim() || null;
+    if (fieldPath && !FIELD_PATH.test(fieldPath))
+      throw new BadRequestException(`Invalid field path "${fieldPath}"`);
+    if (fieldPath && stepNumber === null)
+      throw new BadRequestException('fieldPath requires a stepNumber');
+    const draft = { stepNumber, visibility };
+    if (!this.canView(c, draft, viewer))
+      throw new ForbiddenException(`You may not comment on step ${stepNumber}`);
+    const mentions = await this.resolveMentions(c, draft, input.mentions);
+
+    const thread = await this.threadModel.create({
+      case: c._id,
+      stepNumber,
+      fieldPath,
+      visibility,
+      createdBy: viewer.id,
+    });
+    const comment = await this.addComment(thread, viewer, input.body, mentions);
+    await this.notify(c, thread, comment, viewer, mentions);
+    return this.getThread(caseId, String(thread._id), user);
+  }
+
+  async reply(
+    caseId: string,
+    threadId: string,
+    input: { body: string; mentions?: string[] },
+    user: any,
+  ) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const thread = await this.loadThread(c, threadId, viewer);
+    const mentions = await this.resolveMentions(c, thread, input.mentions);
+    const comment = await this.addComment(thread, viewer, input.body, mentions);
+    await this.notify(c, thread, comment, viewer, mentions);
+    return this.toCommentView(comment.toObject(), viewer);
+  }
+
+  /** Authors may edit their own comments until they are deleted. */
+  async edit(
+    caseId: string,
+    threadId: string,
+    commentId: string,
+    body: string,
+    user: any,
+  ) {
+    const { comment, viewer } = await this.loadComment(
+      caseId,
+      threadId,
+      commentId,
+      user,
+    );
+    if (String(comment.author) !== String(viewer.id))
+      throw new ForbiddenException('Only the author may edit a comment');
+    if (comment.deletedAt)
+      throw new BadRequestException('Deleted comments cannot be edited');
+    comment.body = this.cleanBody(body);
+    comment.editedAt = new Date();
+    await comment.save();
+    return this.toCommentView(comment.toObject(), viewer);
+  }
+
+  /** Soft delete by the author or a privileged user; replies keep their place. */
+  async remove(caseId: string, threadId: string, commentId: string, user: any) {
+    const { comment, viewer } = await this.loadComment(
+      caseId,
+      threadId,
+      commentId,
+      user,
+    );
+    if (String(comment.author) !== String(viewer.id) && !viewer.privileged)
+      throw new ForbiddenException('Only the author may delete a comment');
+    if (!comment.deletedAt) {
+      comment.deletedAt = new Date();
+      comment.deletedBy = viewer.id;
+      await comment.save();
+    }
+    return this.toCommentView(comment.toObject(), viewer);
+  }
+
+  /** Record a read receipt on every comment in the thread the user has not read yet. */
+  async markRead(caseId: string, threadId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const thread = await this.loadThread(c, threadId, viewer);
+    const res = await this.commentModel.updateMany(
+      { thread: thread._id, 'readBy.user': { $ne: viewer.id } },
+      { $push: { readBy: { user: viewer.id, at: new Date() } } },
+    );
+    return { threadId, marked: res.modifiedCount };
+  }
+
+  private async addComment(
+    thread: any,
+    viewer: Viewer,
+    body: string,
+    mentions: Types.ObjectId[],
+  ) {
+    const now = new Date();
+    const comment = await this.commentModel.create({
+      thread: thread._id,
+      case: thread.case,
+      author: viewer.id,
+      authorRole: viewer.role,
+      body: this.cleanBody(body),
+      mentions,
+      // the author has obviously read what they wrote
+      readBy: [{ user: viewer.id, at: now }],
+    });
+    await this.threadModel.updateOne(
+      { _id: thread._id },
+      { $inc: { commentCount: 1 }, $set: { lastCommentAt: now } },
+    );
+    return comment;
+  }
+
+  // Mentioned users are always told; everyone else who has written in the
+  // thread hears about new replies. Nobody is told about their own comment.
+  private async notify(
+    c: any,
+    thread: any,
+    comment: CommentDocument,
+    author: Viewer,
+    mentions: Types.ObjectId[],
+  ) {
+    try {
+      const earlier = await this.commentModel
+        .distinct('author', { thread: thread._id })
+        .exec();
+      const ids = new Set(
+        [thread.createdBy, ...earlier, ...mentions].map(String),
+      );
+      ids.delete(String(author.id));
+      if (!ids.size) return;
+      const contacts = await this.users.findContactsByIds([...ids]);
+      const authorContact = await this.users.findContactsByIds([author.id]);
+      const authorName =
+        [authorContact[0]?.firstName, authorContact[0]?.lastName]
+          .filter(Boolean)
+          .join(' ') || 'Someone';
+      const mentioned = new Set(mentions.map(String));
+      const anchor =
+        thread.stepNumber !== null && thread.stepNumber !== undefined
+          ? `${STEP_LABELS[thread.stepNumber]}${thread.fieldPath ? ` (${thread.fieldPath})` : ''}`
+          : null;
+      for (const u of contacts) {
+        if (!u.email) continue;
+        // a recipient who can no longer see the thread is skipped
+        if (!this.canView(c, thread, this.viewerOf(c, u))) continue;
+        await this.mailService.sendCommentNotification(u.email, c, {
+          authorName,
+          body: comment.body,
+          anchor,
+          reason: mentioned.has(String(u._id)) ? 'mention' : 'reply',
+        });
+      }
+    } catch (err) {
+      this.logger.error(
+        `Comment notification failed for thread ${thread._id}`,
+        err as any,
+      );
+    }
+  }
+
+  private async resolveMentions(
+    c: any,
+    thread: { stepNumber: number | null; visibility: CommentVisibility },
+    ids?: string[],
+  ): Promise<Types.ObjectId[]> {
+    const unique = [...new Set((ids ?? []).map(String))];
+    if (!unique.length) return [];
+    const found = await this.users.findContactsByIds(unique);
+    const missing = unique.filter(
+      (id) => !found.some((u) => String(u._id) === id),
+    );
+    if (missing.length)
+      throw new BadRequestException(`Unknown user(s): ${missing.join(', ')}`);
+    const hidden = found.filter(
+      (u) => !this.canView(c, thread, this.viewerOf(c, u)),
+    );
+    if (hidden.length)
+      throw new BadRequestException(
+        `Cannot mention users who cannot see this thread: ${hidden.map((u) => String(u._id)).join(', ')}`,
+      );
+    return found.map((u) => u._id as Types.ObjectId);
+  }
+
+  private canView(
+    c: any,
+    thread: { stepNumber?: number | null; visibility: CommentVisibility },
+    viewer: Viewer,
+  ) {
+    if (viewer.privileged) return true;
+    if (!viewer.party || thread.visibility !== 'participants') return false;
+    if (thread.stepNumber === null || thread.stepNumber === undefined)
+      return true;
+    return canReadStep(policyFor(c.caseType), thread.stepNumber, viewer.party);
+  }
+
+  private viewerOf(c: any, user: any): Viewer {
+    const id = String(user?.id ?? user?._id ?? '');
+    if (!Types.ObjectId.isValid(id)) throw new ForbiddenException('Forbidden');
+    const privileged = this.isPrivilegedRole(user?.role);
+    const party = partyOf(c, id);
+    return { id: new Types.ObjectId(id), role: user?.role, party, privileged };
+  }
+
+  /** The acting user, who must be on the case or privileged. */
+  private memberOf(c: any, user: any): Viewer {
+    const viewer = this.viewerOf(c, user);
+    if (!viewer.privileged && !viewer.party)
+      throw new ForbiddenException('Forbidden');
+    return viewer;
+  }
+
+  private async loadCase(caseId: string) {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel
+      .findById(caseId)
+      .select('owner invitedUser invitedEmail caseType title')
+      .lean()
+      .exec();
+    if (!c) throw new NotFoundException('Case not found');
+    return c;
+  }
+
+  private async loadThread(c: any, threadId: string, viewer: Viewer) {
+    if (!Types.ObjectId.isValid(threadId))
+      throw new BadRequestException('Invalid thread id');
+    const thread = await this.threadModel
+      .findOne({ _id: threadId, case: c._id })
+      .populate('createdBy', AUTHOR_FIELDS)
+      .lean()
+      .exec();
+    // threads the viewer may not see are reported as missing
+    if (!thread || !this.canView(c, thread, viewer))
+      throw new NotFoundException('Thread not found');
+    return thread;
+  }
+
+  private async loadComment(
+    caseId: string,
+    threadId: string,
+    commentId: string,
+    user: any,
+  ) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const thread = await this.loadThread(c, threadId, viewer);
+    if (!Types.ObjectId.isValid(commentId))
+      throw new BadRequestException('Invalid comment id');
+    const comment = await this.commentModel.findOne({
+      _id: commentId,
+      thread: thread._id,
+    });
+    if (!comment) throw new NotFoundException('Comment not found');
+    return { comment, viewer };
+  }
+
+  private cleanBody(body: string) {
+    const text = typeof body === 'string' ? body.trim() : '';
+    if (!text) throw new BadRequestException('body is required');
+    return text;
+  }
+
+  private toThreadView(t: any) {
+    return {
+      id: String(t._id),
+      caseId: String(t.case),
+      stepNumber: t.stepNumber ?? null,
+      fieldPath: t.fieldPath ?? null,
+      visibility: t.visibility,
+      createdBy: t.createdBy,
+      commentCount: t.commentCount ?? 0,
+      lastCommentAt: t.lastCommentAt ?? null,
+      createdAt: t.createdAt,
+    };
+  }
+
+  private toCommentView(cm: any, viewer: Viewer) {
+    const deleted = !!cm.deletedAt;
+    const readBy = (cm.readBy ?? []).map((r: any) => ({
+      user: String(r.user),
+      at: r.at,
+    }));
+    return {
+      id: String(cm._id),
+      author: cm.author,
+      authorRole: cm.authorRole ?? null,
+      body: deleted ? null : cm.body,
+      deleted,
+      deletedAt: cm.deletedAt ?? null,
+      mentions: deleted ? [] : (cm.mentions ?? []).map(String),
+      editedAt: cm.editedAt ?? null,
+      createdAt: cm.createdAt,
+      readBy,
+      readByMe: readBy.some((r: any) => r.user === String(viewer.id)),
+    };
+  }
+
+  private isPrivilegedRole(role?: string) {
+    return role === 'superadmin' || role === 'admin' || role === 'case_manager';
+  }
+}
@@ -0,0 +1,53 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { COMMENT_VISIBILITIES } from '../schemas/comment-thread.schema';
+import type { CommentVisibility } from '../schemas/comment-thread.schema';
+
+export class CreateReplyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  // user ids; must be people who can see the thread
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsMongoId({ each: true })
+  mentions?: string[];
+}
+
+export class CreateThreadDto extends CreateReplyDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(7)
+  stepNumber?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  fieldPath?: string;
+
+  @IsOptional()
+  @IsIn(COMMENT_VISIBILITIES)
+  visibility?: CommentVisibility;
+}
+
+export class EditCommentDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+}
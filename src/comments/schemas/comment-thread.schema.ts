@@ -0,0 +1,40 @@
+// src/comments/schemas/comment-thread.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CommentThreadDocument = CommentThread & Document;
+
+// internal: case managers/admins only; participants: also both partners
+export const COMMENT_VISIBILITIES = ['internal', 'participants'] as const;
+export type CommentVisibility = (typeof COMMENT_VISIBILITIES)[number];
+
+@Schema({ timestamps: true, collection: 'comment_threads' })
+export class CommentThread {
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true, index: true })
+  case: Types.ObjectId;
+
+  // optional anchor; a thread without one is about the case as a whole
+  @Prop({ type: Number, default: null, min: 1, max: 7 })
+  stepNumber: number | null;
+
+  @Prop({ type: String, default: null })
+  fieldPath: string | null;
+
+  @Prop({ type: String, enum: COMMENT_VISIBILITIES, default: 'participants' })
+  visibility: CommentVisibility;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Number, default: 0 })
+  commentCount: number;
+
+  @Prop({ type: Date, default: null })
+  lastCommentAt: Date | null;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const CommentThreadSchema = SchemaFactory.createForClass(CommentThread);
+CommentThreadSchema.index({ case: 1, lastCommentAt: -1 });
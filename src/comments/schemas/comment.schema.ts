@@ -0,0 +1,56 @@
+// src/comments/schemas/comment.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CommentDocument = Comment & Document;
+
+@Schema({ _id: false })
+export class CommentReadReceipt {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  at: Date;
+}
+export const CommentReadReceiptSchema =
+  SchemaFactory.createForClass(CommentReadReceipt);
+
+@Schema({ timestamps: true, collection: 'comments' })
+export class Comment {
+  @Prop({ type: Types.ObjectId, ref: 'CommentThread', required: true })
+  thread: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true })
+  case: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  author: Types.ObjectId;
+
+  @Prop({ type: String, default: null })
+  authorRole: string | null;
+
+  @Prop({ type: String, required: true })
+  body: string;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
+  mentions: Types.ObjectId[];
+
+  @Prop({ type: Date, default: null })
+  editedAt: Date | null;
+
+  // soft delete: the body is blanked when read back, the record stays
+  @Prop({ type: Date, default: null })
+  deletedAt: Date | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  deletedBy: Types.ObjectId | null;
+
+  @Prop({ type: [CommentReadReceiptSchema], default: [] })
+  readBy: CommentReadReceipt[];
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const CommentSchema = SchemaFactory.createForClass(Comment);
+CommentSchema.index({ thread: 1, createdAt: 1 });
@@ -0,0 +1,23 @@
+// append-only.ts
+import type { Schema } from 'mongoose';
+
+const MUTATING_QUERIES = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+] as const;
+
+/**
+ * Make a collection insert-only: every query-level update or delete on it
+ * throws. `label` names the records in the error.
+ */
+export function appendOnly(schema: Schema, label: string) {
+  schema.pre([...MUTATING_QUERIES], function () {
+    throw new Error(`${label} records are append-only`);
+  });
+}
@@ -37,6 +37,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       email: user.email,
       role: user.role,
       endUserType: user.endUserType,
+      lawyer: user.lawyer ?? null,
     };
   }
 }
@@ -0,0 +1,54 @@
+import { Types } from 'mongoose';
+import { changedPaths, diffObjects } from './object-diff';
+
+describe('diffObjects', () => {
+  it('returns nothing for equal values', () => {
+    expect(
+      diffObjects({ a: 1, b: { c: 'x' } }, { a: 1, b: { c: 'x' } }),
+    ).toEqual([]);
+    expect(diffObjects(null, undefined)).toEqual([]);
+  });
+
+  it('reports added, removed and changed leaves by path', () => {
+    expect(diffObjects({ a: 1, b: 2 }, { a: 3, c: 4 })).toEqual([
+      { path: 'a', kind: 'changed', before: 1, after: 3 },
+      { path: 'b', kind: 'removed', before: 2, after: undefined },
+      { path: 'c', kind: 'added', before: undefined, after: 4 },
+    ]);
+  });
+
+  it('walks arrays index by index', () => {
+    const before = { propertyEntries: [{ value: 100 }, { value: 200 }] };
+    const after = {
+      propertyEntries: [{ value: 100 }, { value: 250 }, { value: 300 }],
+    };
+    expect(changedPaths(before, after)).toEqual([
+      'propertyEntries.1.value',
+      'propertyEntries.2',
+    ]);
+    expect(changedPaths(after, before)).toEqual([
+      'propertyEntries.1.value',
+      'propertyEntries.2',
+    ]);
+  });
+
+  it('compares dates and object ids by value', () => {
+    const id = new Types.ObjectId();
+    expect(
+      diffObjects(
+        { at: new Date('2024-01-01'), by: id },
+        { at: new Date('2024-01-01'), by: new Types.ObjectId(id.toString()) },
+      ),
+    ).toEqual([]);
+    expect(
+      changedPaths(
+        { at: new Date('2024-01-01') },
+        { at: new Date('2024-01-02') },
+      ),
+    ).toEqual(['at']);
+  });
+
+  it('prefixes paths', () => {
+    expect(changedPaths({ x: 1 }, { x: 2 }, 'step1')).toEqual(['step1.x']);
+  });
+});
@@ -0,0 +1,74 @@
+// object-diff.ts
+import { Types } from 'mongoose';
+
+export interface FieldChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before: any;
+  after: any;
+}
+
+const isPlainObject = (v: any) =>
+  v !== null &&
+  typeof v === 'object' &&
+  !Array.isArray(v) &&
+  !(v instanceof Date) &&
+  !(v instanceof Types.ObjectId);
+
+const isEmpty = (v: any) => v === undefined || v === null;
+
+const normalizeLeaf = (v: any) => {
+  if (v instanceof Date) return v.toISOString();
+  if (v instanceof Types.ObjectId) return v.toString();
+  return v;
+};
+
+/**
+ * Field-level differences between two plain values. Objects are walked key by
+ * key and arrays index by index, so a change inside `propertyEntries[1]`
+ * surfaces as `propertyEntries.1.value` rather than as the whole array.
+ */
+export function diffObjects(
+  before: any,
+  after: any,
+  prefix = '',
+): FieldChange[] {
+  if (isEmpty(before) && isEmpty(after)) return [];
+
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const a = Array.isArray(before) ? before : [];
+    const b = Array.isArray(after) ? after : [];
+    const changes: FieldChange[] = [];
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      const path = prefix ? `${prefix}.${i}` : String(i);
+      if (i >= a.length)
+        changes.push({ path, kind: 'added', before: undefined, after: b[i] });
+      else if (i >= b.length)
+        changes.push({ path, kind: 'removed', before: a[i], after: undefined });
+      else changes.push(...diffObjects(a[i], b[i], path));
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) || isPlainObject(after)) {
+    const a = isPlainObject(before) ? before : {};
+    const b = isPlainObject(after) ? after : {};
+    const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+    return keys.flatMap((k) =>
+      diffObjects(a[k], b[k], prefix ? `${prefix}.${k}` : k),
+    );
+  }
+
+  const a = normalizeLeaf(before);
+  const b = normalizeLeaf(after);
+  if (a === b) return [];
+  const path = prefix || '';
+  if (isEmpty(a)) return [{ path, kind: 'added', before, after }];
+  if (isEmpty(b)) return [{ path, kind: 'removed', before, after }];
+  return [{ path, kind: 'changed', before, after }];
+}
+
+/** Convenience wrapper: just the changed paths. */
+export function changedPaths(before: any, after: any, prefix = ''): string[] {
+  return diffObjects(before, after, prefix).map((c) => c.path);
+}
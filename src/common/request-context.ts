@@ -0,0 +1,34 @@
+// request-context.ts
+import { AsyncLocalStorage } from 'async_hooks';
+import type { NextFunction, Request, Response } from 'express';
+
+export interface RequestContext {
+  req: Request & { user?: any };
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Express middleware: makes the current request reachable from services
+// (audit logging needs the caller's IP and user without threading them
+// through every method signature).
+export function requestContextMiddleware(
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+) {
+  storage.run({ req }, () => next());
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export function getRequestIp(): string | null {
+  const req = storage.getStore()?.req;
+  if (!req) return null;
+  return req.ip || req.socket?.remoteAddress || null;
+}
+
+export function getRequestUser(): any {
+  return storage.getStore()?.req?.user ?? null;
+}
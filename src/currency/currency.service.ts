@@ -0,0 +1,292 @@
+// src/currency/currency.service.ts
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  ExchangeRate,
+  ExchangeRateDocument,
+} from './schemas/exchange-rate.schema';
+
+export const BASE_CURRENCY = 'GBP';
+
+export interface RateInput {
+  currency: string;
+  unitsPerGbp: number;
+  effectiveFrom: string | Date;
+  source?: string;
+}
+
+export interface RateOn {
+  currency: string;
+  unitsPerGbp: number;
+  effectiveFrom: Date | null;
+}
+
+/** What the server worked out for one foreign-currency amount. */
+export interface FxConversionInfo {
+  unitsPerGbp: number | null;
+  rateEffectiveFrom: Date | null;
+  convertedAt: Date;
+  missingRate: boolean;
+  /** The GBP figure the user typed, kept when it differs from ours. */
+  declaredGbpEquivalent?: number | null;
+  /** Relative difference between declared and computed GBP, e.g. 0.12 = 12%. */
+  deviation?: number | null;
+  flagged: boolean;
+}
+
+// step 2/4 entries key -> amount field converted into `gbpEquivalent`
+const ENTRY_AMOUNT_FIELDS: Record<string, string> = {
+  earningsEntries: 'amount',
+  propertyEntries: 'value',
+  savingsEntries: 'amount',
+  pensionEntries: 'value',
+  debtEntries: 'amount',
+  businessEntries: 'value',
+  chattelEntries: 'value',
+  otherAssetEntries: 'value',
+};
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+@Injectable()
+export class CurrencyService {
+  private readonly logger = new Logger(CurrencyService.name);
+
+  constructor(
+    @InjectModel(ExchangeRate.name)
+    private rateModel: Model<ExchangeRateDocument>,
+    private config: ConfigService,
+  ) {}
+
+  private get deviationThreshold(): number {
+    return Number(this.config.get('FX_DEVIATION_THRESHOLD') || 0.05);
+  }
+
+  async listRates(currency?: string, limit = 100, page = 1) {
+    const q: any = {};
+    if (currency) q.currency = currency.toUpperCase();
+    const [total, docs] = await Promise.all([
+      this.rateModel.countDocuments(q),
+      this.rateModel
+        .find(q)
+        .sort({ currency: 1, effectiveFrom: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+    ]);
+    return { total, docs };
+  }
+
+  /** Insert a rate, or replace the one already stored for that currency and date. */
+  async upsertRate(input: RateInput, actorId?: string | null) {
+    const rate = this.normaliseRate(input);
+    return this.rateModel
+      .findOneAndUpdate(
+        { currency: rate.currency, effectiveFrom: rate.effectiveFrom },
+        {
+          $set: {
+            unitsPerGbp: rate.unitsPerGbp,
+            source: rate.source,
+            createdBy:
+              actorId && Types.ObjectId.isValid(actorId)
+                ? new Types.ObjectId(actorId)
+                : null,
+          },
+        },
+        { upsert: true, new: true, runValidators: true },
+      )
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Import `currency,unitsPerGbp,effectiveFrom[,source]` rows. A header row,
+   * blank lines and `#` comments are skipped; bad rows are reported and the
+   * rest are still imported.
+   */
+  async importCsv(csv: string, actorId?: string | null) {
+    if (typeof csv !== 'string' || !csv.trim())
+      throw new BadRequestException('csv is required');
+    const errors: { line: number; message: string }[] = [];
+    let imported = 0;
+    const lines = csv.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const raw = lines[i].trim();
+      if (!raw || raw.startsWith('#')) continue;
+      const cols = raw.split(',').map((s) => s.trim().replace(/^"|"$/g, ''));
+      if (i === 0 && /^currency$/i.test(cols[0])) continue;
+      try {
+        await this.upsertRate(
+          {
+            currency: cols[0],
+            unitsPerGbp: Number(cols[1]),
+            effectiveFrom: cols[2],
+            source: cols[3] || 'csv',
+          },
+          actorId,
+        );
+        imported++;
+      } catch (err: any) {
+        errors.push({
+          line: i + 1,
+          message: err?.response?.message ?? err?.message ?? 'Invalid row',
+        });
+      }
+    }
+    this.logger.log(
+      `Imported ${imported} exchange rates (${errors.length} rejected)`,
+    );
+    return { imported, rejected: errors.length, errors };
+  }
+
+  /** Latest rate effective on `asOf`; GBP always converts at 1. */
+  async rateOn(currency: string, asOf = new Date()): Promise<RateOn | null> {
+    const code = String(currency ?? '').toUpperCase();
+    if (code === BASE_CURRENCY)
+      return { currency: code, unitsPerGbp: 1, effectiveFrom: null };
+    const doc = await this.rateModel
+      .findOne({ currency: code, effectiveFrom: { $lte: asOf } })
+      .sort({ effectiveFrom: -1 })
+      .lean()
+      .exec();
+    return doc
+      ? {
+          currency: code,
+          unitsPerGbp: doc.unitsPerGbp,
+          effectiveFrom: doc.effectiveFrom,
+        }
+      : null;
+  }
+
+  async toGbp(amount: number, currency: string, asOf = new Date()) {
+    const rate = await this.rateOn(currency, asOf);
+    if (!rate) return null;
+    return { gbp: this.round(amount / rate.unitsPerGbp), rate };
+  }
+
+  /**
+   * Fill in server-computed GBP equivalents on a step's stored payload (steps
+   * 2, 4 and 6), recording the rate used and flagging user-entered GBP
+   * figures that are off by more than FX_DEVIATION_THRESHOLD.
+   */
+  async convertStep(
+    stepNumber: number,
+    stored: Record<string, any>,
+    asOf = new Date(),
+  ) {
+    if (stepNumber === 2 || stepNumber === 4) {
+      for (const [listKey, field] of Object.entries(ENTRY_AMOUNT_FIELDS)) {
+        const entries = stored[listKey];
+        if (!Array.isArray(entries)) continue;
+        for (const entry of entries)
+          await this.convertAmount(
+            entry,
+            entry?.currency,
+            entry?.[field],
+            asOf,
+          );
+      }
+    }
+    if (stepNumber === 6) {
+      for (const key of [
+        'person1FutureInheritance',
+        'person2FutureInheritance',
+      ]) {
+        const fi = stored[key];
+        if (fi)
+          await this.convertAmount(
+            fi,
+            fi.originalCurrency,
+            fi.originalAmount,
+            asOf,
+          );
+      }
+    }
+    return stored;
+  }
+
+  private async convertAmount(
+    target: any,
+    currency: any,
+    amount: any,
+    asOf: Date,
+  ) {
+    if (!target || typeof target !== 'object') return;
+    delete target.fx;
+    if (!currency || typeof amount !== 'number') return;
+    const code = String(currency).toUpperCase();
+    const declared =
+      typeof target.gbpEquivalent === 'number' ? target.gbpEquivalent : null;
+    if (code === BASE_CURRENCY) {
+      target.gbpEquivalent = amount;
+      return;
+    }
+    const rate = await this.rateOn(code, asOf);
+    if (!rate) {
+      // keep whatever the user typed; the missing rate is surfaced instead
+      target.fx = {
+        unitsPerGbp: null,
+        rateEffectiveFrom: null,
+        convertedAt: new Date(),
+        missingRate: true,
+        declaredGbpEquivalent: declared,
+        flagged: true,
+      } satisfies FxConversionInfo;
+      return;
+    }
+    const computed = this.round(amount / rate.unitsPerGbp);
+    const deviation =
+      declared === null
+        ? null
+        : computed === 0
+          ? declared === 0
+            ? 0
+            : 1
+          : Math.abs(declared - computed) / Math.abs(computed);
+    const flagged = deviation !== null && deviation > this.deviationThreshold;
+    target.gbpEquivalent = computed;
+    target.fx = {
+      unitsPerGbp: rate.unitsPerGbp,
+      rateEffectiveFrom: rate.effectiveFrom,
+      convertedAt: new Date(),
+      missingRate: false,
+      declaredGbpEquivalent: flagged ? declared : null,
+      deviation:
+        deviation === null ? null : Math.round(deviation * 10000) / 10000,
+      flagged,
+    } satisfies FxConversionInfo;
+  }
+
+  private normaliseRate(input: RateInput) {
+    const currency = String(input?.currency ?? '')
+      .trim()
+      .toUpperCase();
+    if (!CURRENCY_CODE.test(currency))
+      throw new BadRequestException(
+        `Invalid currency code "${input?.currency}"`,
+      );
+    if (currency === BASE_CURRENCY)
+      throw new BadRequestException(
+        'GBP is the base currency and needs no rate',
+      );
+    const unitsPerGbp = Number(input?.unitsPerGbp);
+    if (!Number.isFinite(unitsPerGbp) || unitsPerGbp <= 0)
+      throw new BadRequestException('unitsPerGbp must be a positive number');
+    const effectiveFrom = new Date(input?.effectiveFrom as any);
+    if (!input?.effectiveFrom || Number.isNaN(effectiveFrom.getTime()))
+      throw new BadRequestException('effectiveFrom must be a valid date');
+    return {
+      currency,
+      unitsPerGbp,
+      effectiveFrom,
+      source: input.source?.trim() || 'manual',
+    };
+  }
+
+  private round(n: number) {
+    return Math.round(n * 100) / 100;
+  }
+}
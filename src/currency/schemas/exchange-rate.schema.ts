@@ -0,0 +1,31 @@
+// src/currency/schemas/exchange-rate.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ExchangeRateDocument = ExchangeRate & Document;
+
+/**
+ * Rate for one currency from `effectiveFrom` until the next row for the same
+ * currency. Quoted as units of the currency per 1 GBP (e.g. EUR 1.17).
+ */
+@Schema({ timestamps: true, collection: 'exchange_rates' })
+export class ExchangeRate {
+  @Prop({ type: String, required: true, uppercase: true, trim: true })
+  currency: string;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  unitsPerGbp: number;
+
+  @Prop({ type: Date, required: true })
+  effectiveFrom: Date;
+
+  // where the rate came from, e.g. 'csv', 'manual' or a bank reference
+  @Prop({ type: String, default: 'manual' })
+  source: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  createdBy?: Types.ObjectId | null;
+}
+
+export const ExchangeRateSchema = SchemaFactory.createForClass(ExchangeRate);
+ExchangeRateSchema.index({ currency: 1, effectiveFrom: -1 }, { unique: true });
@@ -0,0 +1,108 @@
+// src/documents/documents.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Req,
+  Res,
+  StreamableFile,
+  UnauthorizedException,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Multer } from 'multer';
+import type { Response } from 'express';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { DocumentsService } from './documents.service';
+import { UploadDocumentDto } from './dto/upload-document.dto';
+
+// RFC 6266: a plain ASCII `filename` for old clients plus the UTF-8 original
+function contentDisposition(fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (ch) => '%' + ch.charCodeAt(0).toString(16).toUpperCase(),
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+@Controller('cases/:id/documents')
+export class DocumentsController {
+  constructor(private documentsService: DocumentsService) {}
+  private ensureUser(req: any) {
+    const user = req.user;
+    if (!user) throw new UnauthorizedException('Authentication required');
+    return user;
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  async list(
+    @Req() req,
+    @Param('id') id: string,
+    @Query('stepNumber') stepNumber?: string,
+    @Query('entryPath') entryPath?: string,
+    @Query('category') category?: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.documentsService.list(id, user, {
+      stepNumber: stepNumber ? Number(stepNumber) : undefined,
+      entryPath: entryPath || undefined,
+      category: category || undefined,
+    });
+  }
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(FileInterceptor('file'))
+  @Post()
+  async upload(
+    @Req() req,
+    @Param('id') id: string,
+    @UploadedFile() file: Multer.File,
+    @Body() body: UploadDocumentDto,
+  ) {
+    const user = this.ensureUser(req);
+    return this.documentsService.upload(id, file, body, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':documentId')
+  async get(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.documentsService.get(id, documentId, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':documentId/download')
+  async download(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = this.ensureUser(req);
+    const file = await this.documentsService.download(id, documentId, user);
+    res.setHeader('Content-Disposition', contentDisposition(file.fileName));
+    res.setHeader('Cache-Control', 'private, no-store');
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      length: file.content.length,
+    });
+  }
+  @UseGuards(JwtAuthGuard)
+  @Delete(':documentId')
+  async remove(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('documentId') documentId: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.documentsService.remove(id, documentId, user);
+  }
+}
@@ -0,0 +1,51 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import {
+  SupportingDocument,
+  SupportingDocumentSchema,
+} from './schemas/supporting-document.schema';
+import { Case, CaseSchema } from '../cases/schemas/case.schema';
+import { CasesModule } from '../cases/cases.module';
+import { DocumentsService, documentMaxBytes } from './documents.service';
+import { DocumentsController } from './documents.controller';
+import { STORAGE_DRIVER } from './storage/storage-driver';
+import { LocalDiskStorage } from './storage/local-disk.storage';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SupportingDocument.name, schema: SupportingDocumentSchema },
+      { name: Case.name, schema: CaseSchema },
+    ]),
+    CasesModule,
+    // multer rejects oversized uploads before buffering them; Nest answers
+    // its LIMIT_FILE_SIZE error with 413
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        limits: { fileSize: documentMaxBytes(config), files: 1 },
+      }),
+    }),
+  ],
+  providers: [
+    DocumentsService,
+    {
+      // STORAGE_DRIVER=local is the only driver so far; others plug in here
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        const driver = config.get<string>('STORAGE_DRIVER') || 'local';
+        if (driver === 'local')
+          return new LocalDiskStorage(
+            config.get<string>('DOCUMENTS_DIR') || 'storage/documents',
+          );
+        throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+      },
+    },
+  ],
+  controllers: [DocumentsController],
+  exports: [DocumentsService, STORAGE_DRIVER],
+})
+export class DocumentsModule {}
@@ -0,0 +1,362 @@
+// src/documents/documents.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { basename } from 'path';
+import { Case, CaseDocument } from '../cases/schemas/case.schema';
+import { CaseAuditService } from '../cases/case-audit.service';
+import {
+  CaseParty,
+  canReadStep,
+  partyOf,
+  policyFor,
+} from '../cases/step-ownership';
+import { getPath } from '../agreements/clause-engine';
+import {
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_VISIBILITIES,
+  DocumentCategory,
+  DocumentVisibility,
+  SupportingDocument,
+  SupportingDocumentDocument,
+} from './schemas/supporting-document.schema';
+import { STORAGE_DRIVER } from './storage/storage-driver';
+import type { StorageDriver } from './storage/storage-driver';
+
+export interface UploadedFileInput {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface UploadMeta {
+  stepNumber?: string | number;
+  entryPath?: string;
+  category?: string;
+  visibility?: string;
+  party?: string;
+  description?: string;
+}
+
+interface Viewer {
+  id: string;
+  role: string;
+  party: CaseParty | null;
+  privileged: boolean;
+}
+
+// Accepted content types and the leading bytes a genuine file of that type has.
+const ALLOWED_TYPES: Record<string, number[] | null> = {
+  'application/pdf': [0x25, 0x50, 0x44, 0x46],
+  'image/jpeg': [0xff, 0xd8, 0xff],
+  'image/png': [0x89, 0x50, 0x4e, 0x47],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [
+    0x50, 0x4b, 0x03, 0x04,
+  ],
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': [
+    0x50, 0x4b, 0x03, 0x04,
+  ],
+  'text/csv': null,
+};
+
+// accepts "propertyEntries[1]" as well as "propertyEntries.1"
+const ENTRY_PATH = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
+
+/** Upload size cap; also enforced by multer while the file streams in. */
+export function documentMaxBytes(config: ConfigService): number {
+  return Number(config.get('DOCUMENT_MAX_BYTES') || 10 * 1024 * 1024);
+}
+
+@Injectable()
+export class DocumentsService {
+  constructor(
+    @InjectModel(SupportingDocument.name)
+    private documentModel: Model<SupportingDocumentDocument>,
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    @Inject(STORAGE_DRIVER) private storage: StorageDriver,
+    private config: ConfigService,
+    private audit: CaseAuditService,
+  ) {}
+
+  private get maxBytes(): number {
+    return documentMaxBytes(this.config);
+  }
+
+  async upload(
+    caseId: string,
+    file: UploadedFileInput | undefined,
+    meta: UploadMeta,
+    user: any,
+  ) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const content = this.validateFile(file);
+    const policy = policyFor(c.caseType);
+
+    const stepNumber =
+      meta.stepNumber !== undefined && meta.stepNumber !== ''
+        ? Number(meta.stepNumber)
+        : null;
+    if (stepNumber !== null && !policy[stepNumber])
+      throw new BadRequestException('Invalid step');
+    const entryPath = this.normaliseEntryPath(meta.entryPath);
+    if (entryPath && stepNumber === null)
+      throw new BadRequestException('entryPath requires a stepNumber');
+    if (entryPath && getPath(c[`step${stepNumber}`], entryPath) == null)
+      throw new BadRequestException(
+        `Step ${stepNumber} has no entry at "${entryPath}"`,
+      );
+    if (
+      stepNumber !== null &&
+      !viewer.privileged &&
+      !canReadStep(policy, stepNumber, viewer.party)
+    )
+      throw new ForbiddenException(
+        `You may not attach documents to step ${stepNumber}`,
+      );
+
+    // partners upload their own evidence; staff say whose it is
+    let party: CaseParty | null = viewer.party;
+    if (viewer.privileged)
+      party =
+        (meta.party as CaseParty) ??
+        (stepNumber !== null ? policy[stepNumber].filledBy : null);
+    if (!party)
+      throw new BadRequestException(
+        'party is required when the document is not tied to a step',
+      );
+    const category = (meta.category ?? 'other') as DocumentCategory;
+    if (!DOCUMENT_CATEGORIES.includes(category))
+      throw new BadRequestException('Invalid category');
+    const visibility = (meta.visibility ??
+      (stepNumber !== null && policy[stepNumber].visibility === 'joint'
+        ? 'shared'
+        : 'private')) as DocumentVisibility;
+    if (!DOCUMENT_VISIBILITIES.includes(visibility))
+      throw new BadRequestException('Invalid visibility');
+
+    const id = new Types.ObjectId();
+    const storageKey = `${c._id}/${id}`;
+    await this.storage.put(storageKey, content, file!.mimetype);
+    const doc = await this.documentModel.create({
+      _id: id,
+      case: c._id,
+      stepNumber,
+      entryPath,
+      category,
+      description: meta.description?.trim() || null,
+      party,
+      visibility,
+      fileName: this.safeFileName(file!.originalname),
+      contentType: file!.mimetype,
+      size: content.length,
+      sha256: createHash('sha256').update(content).digest('hex'),
+      storageDriver: this.storage.name,
+      storageKey,
+      uploadedBy: new Types.ObjectId(viewer.id),
+      uploadedByRole: viewer.role,
+    });
+    await this.audit.record({
+      caseId,
+      action: 'document.uploaded',
+      actorId: viewer.id,
+      actorRole: viewer.role,
+      stepNumber,
+      meta: {
+        documentId: String(id),
+        entryPath,
+        category,
+        fileName: doc.fileName,
+      },
+    });
+    return this.toView(doc.toObject());
+  }
+
+  async list(
+    caseId: string,
+    user: any,
+    filter: { stepNumber?: number; entryPath?: string; category?: string } = {},
+  ) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const q: any = { case: c._id, deletedAt: null };
+    if (filter.stepNumber !== undefined) q.stepNumber = filter.stepNumber;
+    if (filter.entryPath)
+      q.entryPath = this.normaliseEntryPath(filter.entryPath);
+    if (filter.category) q.category = filter.category;
+    if (!viewer.privileged)
+      q.$or = [{ party: viewer.party }, { visibility: 'shared' }];
+    const docs = await this.documentModel
+      .find(q)
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+    return { total: docs.length, docs: docs.map((d) => this.toView(d)) };
+  }
+
+  async get(caseId: string, documentId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    return this.toView(await this.loadDocument(c, documentId, viewer));
+  }
+
+  async download(caseId: string, documentId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const doc = await this.loadDocument(c, documentId, viewer, true);
+    const content = await this.storage.get(doc.storageKey);
+    await this.audit.record({
+      caseId,
+      action: 'document.downloaded',
+      actorId: viewer.id,
+      actorRole: viewer.role,
+      stepNumber: doc.stepNumber,
+      meta: { documentId },
+    });
+    return { fileName: doc.fileName, contentType: doc.contentType, content };
+  }
+
+  /** Soft delete; the stored bytes are kept for the audit trail. */
+  async remove(caseId: string, documentId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    const viewer = this.memberOf(c, user);
+    const doc = await this.loadDocument(c, documentId, viewer);
+    if (!viewer.privileged && String(doc.uploadedBy) !== viewer.id)
+      throw new ForbiddenException('Only the uploader may delete a document');
+    const updated = await this.documentModel
+      .findByIdAndUpdate(
+        doc._id,
+        {
+          $set: {
+            deletedAt: new Date(),
+            deletedBy: new Types.ObjectId(viewer.id),
+          },
+        },
+        { new: true },
+      )
+      .lean()
+      .exec();
+    await this.audit.record({
+      caseId,
+      action: 'document.deleted',
+      actorId: viewer.id,
+      actorRole: viewer.role,
+      stepNumber: doc.stepNumber,
+      meta: { documentId, fileName: doc.fileName },
+    });
+    return this.toView(updated);
+  }
+
+  private validateFile(file?: UploadedFileInput): Buffer {
+    if (!file?.buffer?.length)
+      throw new BadRequestException('file is required');
+    if (file.buffer.length > this.maxBytes)
+      throw new PayloadTooLargeException(
+        `File is larger than ${Math.floor(this.maxBytes / (1024 * 1024))} MB`,
+      );
+    if (!(file.mimetype in ALLOWED_TYPES))
+      throw new BadRequestException(`Unsupported file type "${file.mimetype}"`);
+    const magic = ALLOWED_TYPES[file.mimetype];
+    const matches = magic
+      ? magic.every((b, i) => file.buffer[i] === b)
+      : !file.buffer.includes(0);
+    if (!matches)
+      throw new BadRequestException(
+        `File content does not match its type "${file.mimetype}"`,
+      );
+    return file.buffer;
+  }
+
+  private normaliseEntryPath(raw?: string | null) {
+    const path = (raw ?? '').trim().replace(/\[(\d+)\]/g, '.$1');
+    if (!path) return null;
+    if (!ENTRY_PATH.test(path))
+      throw new BadRequestException(`Invalid entry path "${raw}"`);
+    return path;
+  }
+
+  private safeFileName(name: string) {
+    const clean = basename(name || 'document')
+      .replace(/[\u0000-\u001f"\\]/g, '')
+      .slice(0, 200);
+    return clean || 'document';
+  }
+
+  private canView(doc: any, viewer: Viewer) {
+    return (
+      viewer.privileged ||
+      doc.party === viewer.party ||
+      doc.visibility === 'shared'
+    );
+  }
+
+  private memberOf(c: any, user: any): Viewer {
+    const id = String(user?.id ?? user?._id ?? '');
+    const privileged = this.isPrivilegedRole(user?.role);
+    const party = partyOf(c, id);
+    if (!privileged && !party) throw new ForbiddenException('Forbidden');
+    return { id, role: user?.role, party, privileged };
+  }
+
+  private async loadCase(caseId: string): Promise<any> {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId).lean().exec();
+    if (!c) throw new NotFoundException('Case not found');
+    return c;
+  }
+
+  private async loadDocument(
+    c: any,
+    documentId: string,
+    viewer: Viewer,
+    withKey = false,
+  ) {
+    if (!Types.ObjectId.isValid(documentId))
+      throw new BadRequestException('Invalid document id');
+    const doc = await this.documentModel
+      .findOne({ _id: documentId, case: c._id, deletedAt: null })
+      .select(withKey ? '+storageKey' : '')
+      .lean()
+      .exec();
+    // documents the viewer may not see are reported as missing
+    if (!doc || !this.canView(doc, viewer))
+      throw new NotFoundException('Document not found');
+    return doc;
+  }
+
+  private toView(d: any) {
+    return {
+      id: String(d._id),
+      caseId: String(d.case),
+      stepNumber: d.stepNumber ?? null,
+      entryPath: d.entryPath ?? null,
+      category: d.category,
+      description: d.description ?? null,
+      party: d.party,
+      visibility: d.visibility,
+      fileName: d.fileName,
+      contentType: d.contentType,
+      size: d.size,
+      sha256: d.sha256,
+      uploadedBy: d.uploadedBy ? String(d.uploadedBy) : null,
+      uploadedByRole: d.uploadedByRole ?? null,
+      createdAt: d.createdAt,
+      deletedAt: d.deletedAt ?? null,
+    };
+  }
+
+  private isPrivilegedRole(role?: string) {
+    return role === 'superadmin' || role === 'admin' || role === 'case_manager';
+  }
+}
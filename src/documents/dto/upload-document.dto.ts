@@ -0,0 +1,40 @@
+import {
+  IsIn,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import {
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_VISIBILITIES,
+} from '../schemas/supporting-document.schema';
+
+// multipart fields arrive as strings
+export class UploadDocumentDto {
+  @IsOptional()
+  @IsNumberString()
+  stepNumber?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  entryPath?: string;
+
+  @IsOptional()
+  @IsIn(DOCUMENT_CATEGORIES)
+  category?: string;
+
+  @IsOptional()
+  @IsIn(DOCUMENT_VISIBILITIES)
+  visibility?: string;
+
+  @IsOptional()
+  @IsIn(['owner', 'invited'])
+  party?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
@@ -0,0 +1,86 @@
+// src/documents/schemas/supporting-document.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { CaseParty } from '../../cases/step-ownership';
+
+export type SupportingDocumentDocument = SupportingDocument & Document;
+
+export const DOCUMENT_CATEGORIES = [
+  'payslip',
+  'bank_statement',
+  'property_valuation',
+  'mortgage_statement',
+  'pension_statement',
+  'business_accounts',
+  'identity',
+  'other',
+] as const;
+export type DocumentCategory = (typeof DOCUMENT_CATEGORIES)[number];
+
+// private: the owning party and case staff; shared: both partners as well
+export const DOCUMENT_VISIBILITIES = ['private', 'shared'] as const;
+export type DocumentVisibility = (typeof DOCUMENT_VISIBILITIES)[number];
+
+// Evidence uploaded for a case, optionally tied to one disclosed entry.
+@Schema({ timestamps: true, collection: 'supporting_documents' })
+export class SupportingDocument {
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true, index: true })
+  case: Types.ObjectId;
+
+  @Prop({ type: Number, default: null, min: 1, max: 7 })
+  stepNumber: number | null;
+
+  // dotted path into the step, e.g. "propertyEntries.1"
+  @Prop({ type: String, default: null })
+  entryPath: string | null;
+
+  @Prop({ type: String, enum: DOCUMENT_CATEGORIES, default: 'other' })
+  category: DocumentCategory;
+
+  @Prop({ type: String, default: null })
+  description: string | null;
+
+  /** The partner whose disclosure this evidences. */
+  @Prop({ type: String, enum: ['owner', 'invited'], required: true })
+  party: CaseParty;
+
+  @Prop({ type: String, enum: DOCUMENT_VISIBILITIES, default: 'private' })
+  visibility: DocumentVisibility;
+
+  @Prop({ type: String, required: true })
+  fileName: string;
+
+  @Prop({ type: String, required: true })
+  contentType: string;
+
+  @Prop({ type: Number, required: true })
+  size: number;
+
+  @Prop({ type: String, required: true })
+  sha256: string;
+
+  @Prop({ type: String, required: true })
+  storageDriver: string;
+
+  @Prop({ type: String, required: true, select: false })
+  storageKey: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  uploadedBy: Types.ObjectId;
+
+  @Prop({ type: String, default: null })
+  uploadedByRole: string | null;
+
+  @Prop({ type: Date, default: null })
+  deletedAt: Date | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  deletedBy: Types.ObjectId | null;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const SupportingDocumentSchema =
+  SchemaFactory.createForClass(SupportingDocument);
+SupportingDocumentSchema.index({ case: 1, stepNumber: 1, entryPath: 1 });
@@ -0,0 +1,42 @@
+// src/documents/storage/local-disk.storage.ts
+import { NotFoundException } from '@nestjs/common';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { StorageDriver } from './storage-driver';
+
+export class LocalDiskStorage implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, content: Buffer) {
+    const file = this.pathFor(key);
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, content, { flag: 'wx' });
+  }
+
+  async get(key: string) {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT')
+        throw new NotFoundException('Stored file is missing');
+      throw err;
+    }
+  }
+
+  async delete(key: string) {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  // keys are generated by the service, but never let one escape the root
+  private pathFor(key: string) {
+    const file = resolve(join(this.root, key));
+    if (!file.startsWith(this.root + sep))
+      throw new Error(`Invalid storage key "${key}"`);
+    return file;
+  }
+}
@@ -0,0 +1,16 @@
+// src/documents/storage/storage-driver.ts
+
+/** Injection token for the configured StorageDriver. */
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Where uploaded file bytes live. Metadata stays in Mongo; a driver only maps
+ * an opaque key to content, so swapping local disk for object storage does
+ * not touch the documents service.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
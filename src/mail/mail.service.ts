@@ -208,8 +208,8 @@ export class MailService implements OnModuleInit {
     const recipients = overrideRecipients && overrideRecipients.length ? Array.from(new Set(overrideRecipients)) : Array.from(new Set([owner, invited].filter((x): x is string => !!x)));
     if (!recipients || recipients.length === 0) return;
     const subject = `Your draft agreement is ready — case ${caseId}`;
-    const text = `A draft document of your agreement has been uploaded. View: ${link}`;
-    const html = `<p>A draft document of your agreement has been uploaded.</p><p><a href="${link}">${link}</a></p>`;
+    const text = `A draft of your agreement has been generated. Download the PDF (sign-in required): ${link}`;
+    const html = `<p>A draft of your agreement has been generated.</p><p>Download the PDF (sign-in required): <a href="${link}">${link}</a></p>`;
     await Promise.all(recipients.map(r => this.sendRaw({ to: r, subject, text, html }).catch(() => null)));
   }
 
@@ -226,6 +226,68 @@ export class MailService implements OnModuleInit {
     await Promise.all(recipients.map(r => this.sendRaw({ to: r, subject, text, html }).catch(() => null)));
   }
 
+  async sendChangeRequest(to: string, caseDoc: any, request: { stepLabel: string; fieldPath?: string | null; message: string }) {
+    if (!to) return;
+    const caseId = caseDoc && (caseDoc._id ? String(caseDoc._id) : caseDoc.id ? String(caseDoc.id) : 'N/A');
+    const subject = `Your case manager has asked for a change — case ${caseId}`;
+    const where = `${request.stepLabel}${request.fieldPath ? ` (${request.fieldPath})` : ''}`;
+    const text = `Your case manager has asked you to update ${where}:\n\n${request.message}\n\nThe step has been reopened for you. Please sign in, make the change and submit the step again.`;
+    const html = `<p>Your case manager has asked you to update <strong>${where}</strong>:</p><p>${request.message}</p><p>The step has been reopened for you. Please sign in, make the change and submit the step again.</p>`;
+    return this.sendRaw({ to, subject, text, html }).catch(() => null);
+  }
+
+  async sendCommentNotification(to: string, caseDoc: any, comment: { authorName: string; body: string; anchor?: string | null; reason: 'mention' | 'reply' }) {
+    if (!to) return;
+    const caseId = caseDoc && (caseDoc._id ? String(caseDoc._id) : caseDoc.id ? String(caseDoc.id) : 'N/A');
+    const what = comment.reason === 'mention' ? 'mentioned you in a comment' : 'replied in a discussion you are part of';
+    const where = comment.anchor ? ` on ${comment.anchor}` : '';
+    const subject = `${comment.authorName} ${what} — case ${caseId}`;
+    const text = `${comment.authorName} ${what}${where}:\n\n${comment.body}\n\nSign in to reply.`;
+    const html = `<p>${comment.authorName} ${what}${where}:</p><p>${comment.body}</p><p>Sign in to reply.</p>`;
+    return this.sendRaw({ to, subject, text, html }).catch(() => null);
+  }
+
+  async sendLawyerAccountInvite(to: string, lawyerName: string, setupUrl: string) {
+    if (!to) return;
+    const subject = 'Your LetsPrenup lawyer account';
+    const text = `Hello ${lawyerName},\n\nAn account has been created for you on LetsPrenup so you can review the cases of the clients who select you and record your approval.\n\nChoose a password to get started:\n${setupUrl}`;
+    const html = `<p>Hello ${lawyerName},</p><p>An account has been created for you on LetsPrenup so you can review the cases of the clients who select you and record your approval.</p><p><a href="${setupUrl}">Choose a password to get started</a></p>`;
+    return this.sendRaw({ to, subject, text, html });
+  }
+
+  async sendIntroductionAccepted(to: string, caseId: string, lawyerName: string) {
+    if (!to) return;
+    const subject = `Your lawyer has accepted — case ${caseId}`;
+    const text = `Good news: ${lawyerName} has accepted your introduction for case ${caseId} and will be in touch with you directly.`;
+    const html = `<p>Good news: <strong>${lawyerName}</strong> has accepted your introduction for case <strong>${caseId}</strong> and will be in touch with you directly.</p>`;
+    return this.sendRaw({ to, subject, text, html });
+  }
+
+  async sendIntroductionClosed(to: string, caseId: string, outcome: { lawyerName: string; expired: boolean; reason?: string | null; link: string }) {
+    if (!to) return;
+    const what = outcome.expired ? `${outcome.lawyerName} did not respond to your introduction in time` : `${outcome.lawyerName} is unable to take on your case`;
+    const reason = !outcome.expired && outcome.reason ? ` Their reason: "${outcome.reason}".` : '';
+    const subject = `Please choose another lawyer — case ${caseId}`;
+    const text = `Hello,\n\nUnfortunately ${what} (case ${caseId}).${reason}\n\nYour selection has been cleared so you can choose another lawyer:\n${outcome.link}`;
+    const html = `<p>Hello,</p><p>Unfortunately ${what} (case <strong>${caseId}</strong>).${reason}</p><p>Your selection has been cleared so you can <a href="${outcome.link}">choose another lawyer</a>.</p>`;
+    return this.sendRaw({ to, subject, text, html });
+  }
+
+  async sendSigningRequest(to: string, caseId: string, request: { signerName: string; link: string; expiresAt: Date }) {
+    if (!to) return;
+    const subject = `Please sign your agreement — case ${caseId}`;
+    const text = `Hello ${request.signerName},\n\nYou have been asked to sign the agreement for case ${caseId}. Review and sign here:\n${request.link}\n\nThis link is personal to you and expires on ${request.expiresAt.toUTCString()}.`;
+    const html = `<p>Hello ${request.signerName},</p><p>You have been asked to sign the agreement for case <strong>${caseId}</strong>.</p><p><a href="${request.link}">Review and sign</a></p><p>This link is personal to you and expires on ${request.expiresAt.toUTCString()}.</p>`;
+    return this.sendRaw({ to, subject, text, html });
+  }
+
+  async sendSigningCompleted(recipients: string[], caseId: string, link: string) {
+    const subject = `Your agreement has been signed — case ${caseId}`;
+    const text = `Everyone has signed the agreement for case ${caseId}. Download the signed copy (sign-in required): ${link}`;
+    const html = `<p>Everyone has signed the agreement for case <strong>${caseId}</strong>.</p><p>Download the signed copy (sign-in required): <a href="${link}">${link}</a></p>`;
+    await Promise.all(Array.from(new Set(recipients.filter(Boolean))).map(r => this.sendRaw({ to: r, subject, text, html }).catch(() => null)));
+  }
+
   async sendLawyerIntro(lawyerEmail: string, caseDoc: any, clientMessage?: string) {
     if (!lawyerEmail) return;
     const caseId = caseDoc && (caseDoc._id ? String(caseDoc._id) : caseDoc.id ? String(caseDoc.id) : 'N/A');
@@ -4,12 +4,14 @@ import { NestFactory } from '@nestjs/core';
 import helmet from 'helmet';
 import cookieParser from 'cookie-parser';
 import { AppModule } from './app.module';
+import { requestContextMiddleware } from './common/request-context';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { Express } from 'express';
 
 async function bootstrap() {
   try {
-    const app = await NestFactory.create(AppModule);
+    // rawBody: payment webhooks are verified against the exact bytes received
+    const app = await NestFactory.create(AppModule, { rawBody: true });
 
     // --- config ---
     const port = Number(process.env.PORT) || 5000;
@@ -37,12 +39,16 @@ async function bootstrap() {
     // parse cookies so req.cookies is available for your JwtStrategy extractor
     expressApp.use(cookieParser());
 
+    // expose the current request to services (audit log ip/actor)
+    expressApp.use(requestContextMiddleware);
+
     // --- CORS ---
     app.enableCors({
        origin: [frontendOrigin, 'https://app.letsprenup.co.uk'],
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'If-Match'],
+      exposedHeaders: ['ETag'],
     });
 
     // --- global pipes / prefix / swagger ---
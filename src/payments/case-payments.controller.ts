@@ -0,0 +1,57 @@
+// src/payments/case-payments.controller.ts
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Param,
+  Post,
+  Req,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { PaymentsService } from './payments.service';
+import { CheckoutDto, RefundDto } from './dto/payment.dto';
+
+@Controller('cases/:id/payments')
+export class CasePaymentsController {
+  constructor(private paymentsService: PaymentsService) {}
+  private ensureUser(req: any) {
+    const user = req.user;
+    if (!user) throw new UnauthorizedException('Authentication required');
+    return user;
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  async history(@Req() req, @Param('id') id: string) {
+    const user = this.ensureUser(req);
+    return this.paymentsService.history(id, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post('checkout')
+  async checkout(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() body: CheckoutDto,
+  ) {
+    const user = this.ensureUser(req);
+    return this.paymentsService.checkout(id, body.productCode, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post(':paymentId/refund')
+  async refund(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('paymentId') paymentId: string,
+    @Body() body: RefundDto,
+  ) {
+    const user = this.ensureUser(req);
+    if (!['superadmin', 'admin'].includes(user.role))
+      throw new ForbiddenException('Only admins may issue refunds');
+    return this.paymentsService.refund(id, paymentId, body, {
+      id: String(user.id ?? user._id),
+      role: user.role,
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PRODUCT_SCOPES } from '../schemas/payment-product.schema';
+import type { ProductScope } from '../schemas/payment-product.schema';
+
+export class CreateProductDto {
+  @IsString()
+  @Matches(/^[a-z0-9_]{2,64}$/, {
+    message: 'code must be lowercase letters, digits and underscores',
+  })
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @IsOptional()
+  @IsIn(PRODUCT_SCOPES)
+  scope?: ProductScope;
+
+  // minor units (pence)
+  @IsInt()
+  @Min(0)
+  amount: number;
+
+  @IsOptional()
+  @Matches(/^[A-Z]{3}$/)
+  currency?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+// the code is referenced by past payments and never changes
+export class UpdateProductDto extends PartialType(
+  OmitType(CreateProductDto, ['code'] as const),
+) {}
+
+export class CheckoutDto {
+  @IsString()
+  @IsNotEmpty()
+  productCode: string;
+}
+
+export class RefundDto {
+  // defaults to whatever has not been refunded yet
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  amount?: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export class CompleteFakeCheckoutDto {
+  @IsOptional()
+  @IsIn(['succeeded', 'failed'])
+  outcome?: 'succeeded' | 'failed';
+}
@@ -0,0 +1,76 @@
+// src/payments/payments.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { Roles } from '../common/roles.decorator';
+import { RolesGuard } from '../common/roles.guard';
+import { PaymentsService } from './payments.service';
+import {
+  CompleteFakeCheckoutDto,
+  CreateProductDto,
+  UpdateProductDto,
+} from './dto/payment.dto';
+
+@Controller('payments')
+export class PaymentsController {
+  constructor(private paymentsService: PaymentsService) {}
+
+  @UseGuards(JwtAuthGuard)
+  @Get('products')
+  async listProducts(@Req() req, @Query('all') all?: string) {
+    const staff = ['admin', 'superadmin'].includes(req.user?.role);
+    return this.paymentsService.listProducts(staff && all === 'true');
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'superadmin')
+  @Post('products')
+  async createProduct(@Body() body: CreateProductDto) {
+    return this.paymentsService.createProduct(body);
+  }
+
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin', 'superadmin')
+  @Patch('products/:code')
+  async updateProduct(
+    @Param('code') code: string,
+    @Body() body: UpdateProductDto,
+  ) {
+    return this.paymentsService.updateProduct(code, body);
+  }
+
+  // Called by the provider, not by a user: authenticity comes from the signature.
+  @Post('webhooks/:provider')
+  @HttpCode(200)
+  async webhook(
+    @Param('provider') provider: string,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    return this.paymentsService.handleWebhook(
+      provider,
+      req.rawBody,
+      req.headers,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('fake/sessions/:sessionId/complete')
+  async completeFakeCheckout(
+    @Param('sessionId') sessionId: string,
+    @Body() body: CompleteFakeCheckoutDto,
+  ) {
+    return this.paymentsService.completeFakeCheckout(sessionId, body?.outcome);
+  }
+}
@@ -0,0 +1,65 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  PaymentProduct,
+  PaymentProductSchema,
+} from './schemas/payment-product.schema';
+import { Payment, PaymentSchema } from './schemas/payment.schema';
+import {
+  PaymentWebhookEvent,
+  PaymentWebhookEventSchema,
+} from './schemas/payment-webhook-event.schema';
+import { Case, CaseSchema } from '../cases/schemas/case.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { CasesModule } from '../cases/cases.module';
+import { PaymentsService } from './payments.service';
+import { PaymentsController } from './payments.controller';
+import { CasePaymentsController } from './case-payments.controller';
+import { PAYMENT_PROVIDER } from './providers/payment-provider';
+import { FakePaymentProvider } from './providers/fake-payment.provider';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PaymentProduct.name, schema: PaymentProductSchema },
+      { name: Payment.name, schema: PaymentSchema },
+      { name: PaymentWebhookEvent.name, schema: PaymentWebhookEventSchema },
+      { name: Case.name, schema: CaseSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    CasesModule,
+  ],
+  providers: [
+    PaymentsService,
+    {
+      // only the fake provider exists so far; a card processor plugs in here
+      provide: PAYMENT_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        const provider = config.get<string>('PAYMENT_PROVIDER') || 'fake';
+        // webhooks are trusted on their signature alone, so there is no default
+        const secret = config.get<string>('PAYMENT_WEBHOOK_SECRET');
+        if (!secret) throw new Error('PAYMENT_WEBHOOK_SECRET is not set');
+        if (provider === 'fake') {
+          if (
+            config.get('NODE_ENV') === 'production' &&
+            config.get('PAYMENT_ALLOW_FAKE_PROVIDER') !== 'true'
+          )
+            throw new Error(
+              'The fake payment provider is disabled in production; set PAYMENT_PROVIDER or PAYMENT_ALLOW_FAKE_PROVIDER=true',
+            );
+          const apiBase = (
+            config.get<string>('API_PUBLIC_URL') ||
+            `http://localhost:${process.env.PORT || 5000}/${process.env.GLOBAL_PREFIX || 'api'}`
+          ).replace(/\/$/, '');
+          return new FakePaymentProvider(secret, apiBase);
+        }
+        throw new Error(`Unknown PAYMENT_PROVIDER "${provider}"`);
+      },
+    },
+  ],
+  controllers: [PaymentsController, CasePaymentsController],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
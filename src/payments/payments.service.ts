@@ -0,0 +1,576 @@
+// src/payments/payments.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { Case, CaseDocument } from '../cases/schemas/case.schema';
+import { CaseAuditService } from '../cases/case-audit.service';
+import { CaseWorkflowService } from '../cases/case-workflow.service';
+import { partyOf } from '../cases/step-ownership';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import {
+  PaymentProduct,
+  PaymentProductDocument,
+} from './schemas/payment-product.schema';
+import { Payment, PaymentDocument } from './schemas/payment.schema';
+import {
+  PaymentWebhookEvent,
+  PaymentWebhookEventDocument,
+} from './schemas/payment-webhook-event.schema';
+import { PAYMENT_PROVIDER } from './providers/payment-provider';
+import type {
+  PaymentEvent,
+  PaymentProvider,
+} from './providers/payment-provider';
+import { FakePaymentProvider } from './providers/fake-payment.provider';
+import type {
+  CreateProductDto,
+  RefundDto,
+  UpdateProductDto,
+} from './dto/payment.dto';
+
+// webhooks act on behalf of nobody in particular
+const SYSTEM_ACTOR = { id: null, role: 'system' };
+const SETTLED = ['succeeded', 'partially_refunded'];
+
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    @InjectModel(PaymentProduct.name)
+    private productModel: Model<PaymentProductDocument>,
+    @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+    @InjectModel(PaymentWebhookEvent.name)
+    private eventModel: Model<PaymentWebhookEventDocument>,
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @Inject(PAYMENT_PROVIDER) private provider: PaymentProvider,
+    private config: ConfigService,
+    private workflow: CaseWorkflowService,
+    private audit: CaseAuditService,
+  ) {}
+
+  // ---------------- products -----------------
+
+  async listProducts(includeInactive = false) {
+    const docs = await this.productModel
+      .find(includeInactive ? {} : { active: true })
+      .sort({ amount: 1 })
+      .lean()
+      .exec();
+    return { total: docs.length, docs };
+  }
+
+  async createProduct(dto: CreateProductDto) {
+    if (await this.productModel.exists({ code: dto.code }))
+      throw new ConflictException(`Product "${dto.code}" already exists`);
+    const doc = await this.productModel.create({
+      ...dto,
+      description: dto.description?.trim() || null,
+      currency: dto.currency || this.defaultCurrency,
+    });
+    return doc.toObject();
+  }
+
+  async updateProduct(code: string, dto: UpdateProductDto) {
+    const doc = await this.productModel
+      .findOneAndUpdate({ code }, { $set: dto }, { new: true })
+      .lean()
+      .exec();
+    if (!doc) throw new NotFoundException('Product not found');
+    return doc;
+  }
+
+  // ---------------- checkout & history -----------------
+
+  /**
+   * Start a checkout for one of the case's partners. Payment is taken once
+   * the case manager has reviewed the case, i.e. while it is in CM.
+   */
+  async checkout(caseId: string, productCode: string, user: any) {
+    const c = await this.loadCase(caseId);
+    const userId = String(user?.id ?? user?._id ?? '');
+    const party = partyOf(c, userId);
+    if (!party)
+      throw new ForbiddenException(
+        'Only the partners on a case can pay for it',
+      );
+    if ((c.workflowStatus || 'DRAFT') !== 'CM')
+      throw new BadRequestException(
+        'Payment can only be made once the case is with the case manager',
+      );
+    const product = await this.productModel
+      .findOne({ code: productCode, active: true })
+      .lean()
+      .exec();
+    if (!product) throw new NotFoundException('Product not found');
+
+    const settled = await this.settledPayments(c._id);
+    if (this.isPaid(settled))
+      throw new ConflictException('This case has already been paid for');
+    if (
+      product.scope === 'partner' &&
+      settled.some((p) => p.scope === 'partner' && p.party === party)
+    )
+      throw new ConflictException('You have already paid your share');
+
+    const payer = await this.userModel
+      .findById(userId)
+      .select('email')
+      .lean()
+      .exec();
+    const payment = new this.paymentModel({
+      case: c._id,
+      product: product._id,
+      productCode: product.code,
+      scope: product.scope,
+      payer: new Types.ObjectId(userId),
+      party,
+      amount: product.amount,
+      currency: product.currency,
+      provider: this.provider.name,
+    });
+    const returnUrl = `${this.config.get('APP_SERVER_URL')}/cases/${c._id}/payment?payment=${payment._id}`;
+    const session = await this.provider.createCheckout({
+      paymentId: String(payment._id),
+      amount: product.amount,
+      currency: product.currency,
+      description: product.name,
+      customerEmail: payer?.email ?? null,
+      successUrl: `${returnUrl}&status=success`,
+      cancelUrl: `${returnUrl}&status=cancelled`,
+    });
+    payment.providerSessionId = session.providerSessionId;
+    payment.checkoutUrl = session.checkoutUrl;
+    await payment.save();
+    await this.audit.record({
+      caseId,
+      action: 'payment.checkout_started',
+      actorId: userId,
+      actorRole: user?.role,
+      meta: {
+        paymentId: String(payment._id),
+        productCode: product.code,
+        amount: product.amount,
+        currency: product.currency,
+      },
+    });
+    return this.toView(payment.toObject());
+  }
+
+  async history(caseId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    if (
+      !this.isPrivilegedRole(user?.role) &&
+      !partyOf(c, user?.id ?? user?._id)
+    )
+      throw new ForbiddenException('Forbidden');
+    const docs = await this.paymentModel
+      .find({ case: c._id })
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+    const settled = docs.filter((d) => SETTLED.includes(d.status));
+    return {
+      paid: this.isPaid(settled),
+      totalPaid: settled.reduce((sum, d) => sum + d.amount, 0),
+      totalRefunded: docs.reduce((sum, d) => sum + (d.amountRefunded || 0), 0),
+      total: docs.length,
+      docs: docs.map((d) => this.toView(d)),
+    };
+  }
+
+  async refund(
+    caseId: string,
+    paymentId: string,
+    dto: RefundDto,
+    actor: { id: string; role: string },
+  ) {
+    const c = await this.loadCase(caseId);
+    if (!Types.ObjectId.isValid(paymentId))
+      throw new BadRequestException('Invalid payment id');
+    const payment = await this.paymentModel.findOne({
+      _id: paymentId,
+      case: c._id,
+    });
+    if (!payment) throw new NotFoundException('Payment not found');
+    if (!SETTLED.includes(payment.status) || !payment.providerPaymentId)
+      throw new BadRequestException(
+        `A ${payment.status} payment cannot be refunded`,
+      );
+    const committed = payment.refunds
+      .filter((r) => r.status !== 'failed')
+      .reduce((sum, r) => sum + r.amount, 0);
+    const remaining = payment.amount - committed;
+    const amount = dto.amount ?? remaining;
+    if (amount <= 0 || amount > remaining)
+      throw new BadRequestException(
+        `At most ${remaining} ${payment.currency} can still be refunded`,
+      );
+
+    // Reserve the amount as a pending refund before calling the provider. The
+    // push only applies to the payment as read above, so two refunds cannot
+    // both pass the remaining check.
+    const reservationId = new Types.ObjectId();
+    const reserved = await this.paymentModel
+      .updateOne(
+        { _id: payment._id, __v: payment.__v },
+        {
+          $push: {
+            refunds: {
+              _id: reservationId,
+              providerRefundId: null,
+              amount,
+              reason: dto.reason.trim(),
+              status: 'pending',
+              createdBy: new Types.ObjectId(actor.id),
+              createdAt: new Date(),
+              settledAt: null,
+            },
+          },
+          $inc: { __v: 1 },
+        },
+      )
+      .exec();
+    if (!reserved.modifiedCount)
+      throw new ConflictException(
+        'The payment changed while the refund was being made; try again',
+      );
+    const result = await this.provider
+      .refund({
+        providerPaymentId: payment.providerPaymentId,
+        amount,
+        reason: dto.reason.trim(),
+      })
+      .catch(async (err) => {
+        await this.paymentModel
+          .updateOne(
+            { _id: payment._id },
+            { $pull: { refunds: { _id: reservationId } }, $inc: { __v: 1 } },
+          )
+          .exec();
+        throw err;
+      });
+    const updated = await this.paymentModel
+      .findOneAndUpdate(
+        { _id: payment._id, 'refunds._id': reservationId },
+        {
+          $set: {
+            'refunds.$.providerRefundId': result.providerRefundId,
+            'refunds.$.status': result.status,
+            'refunds.$.settledAt':
+              result.status === 'succeeded' ? new Date() : null,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!updated) throw new NotFoundException('Payment not found');
+    this.recomputeRefunds(updated);
+    await updated.save();
+    await this.audit.record({
+      caseId,
+      action: 'payment.refunded',
+      actorId: actor.id,
+      actorRole: actor.role,
+      meta: {
+        paymentId,
+        amount,
+        status: result.status,
+        reason: dto.reason.trim(),
+      },
+    });
+    if (updated.status === 'refunded') await this.afterFullRefund(updated);
+    return this.toView(updated.toObject());
+  }
+
+  // ---------------- webhooks -----------------
+
+  /**
+   * Entry point for provider callbacks. The signature is checked against the
+   * raw body before anything is parsed, and each event id is processed once.
+   */
+  async handleWebhook(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | string[] | undefined>,
+  ) {
+    if (providerName !== this.provider.name)
+      throw new NotFoundException('Unknown payment provider');
+    if (!rawBody?.length) throw new BadRequestException('Empty webhook body');
+    const event = this.provider.verifyWebhook(rawBody, headers);
+
+    let record: PaymentWebhookEventDocument;
+    try {
+      record = await this.eventModel.create({
+        provider: this.provider.name,
+        eventId: event.id,
+        type: event.type,
+      });
+    } catch (err: any) {
+      if (err?.code === 11000) return { received: true, duplicate: true };
+      throw err;
+    }
+    try {
+      const payment = await this.applyEvent(event);
+      record.payment = (payment?._id as Types.ObjectId) ?? null;
+      record.processedAt = new Date();
+      await record.save();
+    } catch (err) {
+      // let the provider's retry have another go
+      await this.eventModel.deleteOne({ _id: record._id }).exec();
+      throw err;
+    }
+    return { received: true, duplicate: false };
+  }
+
+  /** Dev only: pay (or fail) a fake checkout by sending ourselves its webhook. */
+  async completeFakeCheckout(
+    sessionId: string,
+    outcome: 'succeeded' | 'failed' = 'succeeded',
+  ) {
+    if (
+      !(this.provider instanceof FakePaymentProvider) ||
+      this.config.get('NODE_ENV') === 'production'
+    )
+      throw new NotFoundException('Not found');
+    const payment = await this.paymentModel
+      .findOne({ providerSessionId: sessionId })
+      .lean()
+      .exec();
+    if (!payment) throw new NotFoundException('Checkout session not found');
+    const { rawBody, headers } = this.provider.simulate(
+      outcome === 'succeeded'
+        ? {
+            type: 'checkout.succeeded',
+            providerSessionId: sessionId,
+            providerPaymentId: `fake_pi_${payment._id}`,
+            amount: payment.amount,
+          }
+        : {
+            type: 'checkout.failed',
+            providerSessionId: sessionId,
+            failureReason: 'Card declined',
+          },
+    );
+    return this.handleWebhook(this.provider.name, rawBody, headers);
+  }
+
+  private async applyEvent(event: PaymentEvent) {
+    switch (event.type) {
+      case 'checkout.succeeded':
+      case 'checkout.failed':
+        return this.applyCheckoutEvent(event);
+      case 'refund.succeeded':
+      case 'refund.failed':
+        return this.applyRefundEvent(event);
+      default:
+        this.logger.warn(`Ignoring payment event type "${event.type}"`);
+        return null;
+    }
+  }
+
+  private async applyCheckoutEvent(event: PaymentEvent) {
+    const payment = await this.paymentModel.findOne({
+      providerSessionId: event.providerSessionId,
+    });
+    if (!payment) {
+      this.logger.warn(
+        `Payment event ${event.id} refers to unknown session ${event.providerSessionId}`,
+      );
+      return null;
+    }
+    const open = payment.status === 'pending' || payment.status === 'failed';
+    if (event.type === 'checkout.failed') {
+      if (payment.status !== 'pending') return payment;
+      payment.status = 'failed';
+      payment.failureReason = event.failureReason ?? null;
+      await payment.save();
+      await this.audit.record({
+        caseId: payment.case,
+        action: 'payment.failed',
+        actorRole: SYSTEM_ACTOR.role,
+        meta: {
+          paymentId: String(payment._id),
+          reason: payment.failureReason,
+        },
+      });
+      return payment;
+    }
+    if (open) {
+      if (event.amount !== undefined && event.amount !== payment.amount)
+        throw new BadRequestException(
+          `Paid amount ${event.amount} does not match ${payment.amount}`,
+        );
+      payment.status = 'succeeded';
+      payment.providerPaymentId = event.providerPaymentId ?? null;
+      payment.paidAt = new Date();
+      payment.failureReason = null;
+      await payment.save();
+      await this.audit.record({
+        caseId: payment.case,
+        action: 'payment.succeeded',
+        actorRole: SYSTEM_ACTOR.role,
+        meta: {
+          paymentId: String(payment._id),
+          amount: payment.amount,
+          currency: payment.currency,
+        },
+      });
+    }
+    // runs on redelivery too, so a half-finished settlement gets completed
+    if (SETTLED.includes(payment.status)) await this.settle(payment);
+    return payment;
+  }
+
+  private async applyRefundEvent(event: PaymentEvent) {
+    const payment = await this.paymentModel.findOne({
+      providerPaymentId: event.providerPaymentId,
+    });
+    const refund = payment?.refunds.find(
+      (r) => r.providerRefundId === event.providerRefundId,
+    );
+    if (!payment || !refund) {
+      this.logger.warn(`Payment event ${event.id} refers to an unknown refund`);
+      return null;
+    }
+    if (refund.status !== 'pending') return payment;
+    refund.status = event.type === 'refund.succeeded' ? 'succeeded' : 'failed';
+    refund.settledAt = new Date();
+    this.recomputeRefunds(payment);
+    await payment.save();
+    await this.audit.record({
+      caseId: payment.case,
+      action: `payment.${event.type}`,
+      actorRole: SYSTEM_ACTOR.role,
+      meta: {
+        paymentId: String(payment._id),
+        refundId: refund.providerRefundId,
+        amount: refund.amount,
+      },
+    });
+    if (payment.status === 'refunded') await this.afterFullRefund(payment);
+    return payment;
+  }
+
+  // Mark the covered partners as paid and move the case to PAID once it is
+  // fully paid for.
+  private async settle(payment: PaymentDocument) {
+    const c = await this.caseModel.findById(payment.case).exec();
+    if (!c) return;
+    await this.userModel
+      .updateMany(
+        { _id: { $in: this.coveredUsers(c, payment) } },
+        { $set: { paymentDone: true } },
+      )
+      .exec();
+    if (!this.isPaid(await this.settledPayments(c._id as Types.ObjectId)))
+      return;
+    if (this.workflow.currentStatus(c) !== 'CM') {
+      this.logger.log(
+        `Case ${c._id} is paid but in ${c.workflowStatus}; leaving the status to the case manager`,
+      );
+      return;
+    }
+    await this.workflow.apply(c, 'mark_paid', SYSTEM_ACTOR, 'Payment received');
+  }
+
+  // The workflow is not rolled back on a refund; that is the case manager's call.
+  private async afterFullRefund(payment: PaymentDocument) {
+    const c = await this.caseModel.findById(payment.case).lean().exec();
+    if (!c) return;
+    if (this.isPaid(await this.settledPayments(c._id))) return;
+    await this.userModel
+      .updateMany(
+        { _id: { $in: this.coveredUsers(c, payment) } },
+        { $set: { paymentDone: false } },
+      )
+      .exec();
+  }
+
+  private recomputeRefunds(payment: PaymentDocument) {
+    payment.amountRefunded = payment.refunds
+      .filter((r) => r.status === 'succeeded')
+      .reduce((sum, r) => sum + r.amount, 0);
+    payment.status =
+      payment.amountRefunded >= payment.amount
+        ? 'refunded'
+        : payment.amountRefunded > 0
+          ? 'partially_refunded'
+          : 'succeeded';
+  }
+
+  private coveredUsers(c: any, payment: Payment): Types.ObjectId[] {
+    if (payment.scope === 'partner') return [payment.payer];
+    return [c.owner, c.invitedUser].filter(Boolean);
+  }
+
+  private settledPayments(caseObjId: Types.ObjectId) {
+    return this.paymentModel
+      .find({ case: caseObjId, status: { $in: SETTLED } })
+      .lean()
+      .exec();
+  }
+
+  // a case is paid by one case-scope payment, or by both partners paying their share
+  private isPaid(settled: Pick<Payment, 'scope' | 'party'>[]) {
+    if (settled.some((p) => p.scope === 'case')) return true;
+    const parties = new Set(
+      settled.filter((p) => p.scope === 'partner').map((p) => p.party),
+    );
+    return parties.has('owner') && parties.has('invited');
+  }
+
+  private get defaultCurrency(): string {
+    return this.config.get<string>('PAYMENT_CURRENCY') || 'GBP';
+  }
+
+  private async loadCase(caseId: string): Promise<any> {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    const c = await this.caseModel.findById(caseId).lean().exec();
+    if (!c) throw new NotFoundException('Case not found');
+    return c;
+  }
+
+  private toView(p: any) {
+    return {
+      id: String(p._id),
+      caseId: String(p.case),
+      productCode: p.productCode,
+      scope: p.scope,
+      payer: String(p.payer),
+      party: p.party,
+      amount: p.amount,
+      currency: p.currency,
+      status: p.status,
+      provider: p.provider,
+      checkoutUrl: p.status === 'pending' ? p.checkoutUrl : null,
+      paidAt: p.paidAt ?? null,
+      failureReason: p.failureReason ?? null,
+      amountRefunded: p.amountRefunded ?? 0,
+      refunds: (p.refunds ?? []).map((r: any) => ({
+        id: String(r._id),
+        amount: r.amount,
+        reason: r.reason,
+        status: r.status,
+        createdAt: r.createdAt,
+        settledAt: r.settledAt ?? null,
+      })),
+      createdAt: p.createdAt,
+    };
+  }
+
+  private isPrivilegedRole(role?: string) {
+    return role === 'superadmin' || role === 'admin' || role === 'case_manager';
+  }
+}
@@ -0,0 +1,105 @@
+// src/payments/providers/fake-payment.provider.ts
+import { BadRequestException } from '@nestjs/common';
+import crypto from 'crypto';
+import {
+  CheckoutInput,
+  PaymentEvent,
+  PaymentProvider,
+} from './payment-provider';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+const TOLERANCE_SECONDS = 300;
+
+/**
+ * Development provider. No money moves: the checkout URL points back at our
+ * own API, and `simulate()` produces a webhook signed exactly the way a real
+ * one would be checked, so the whole confirmation path runs end to end.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(
+    private secret: string,
+    private apiBaseUrl: string,
+  ) {}
+
+  async createCheckout(input: CheckoutInput) {
+    const providerSessionId = `fake_cs_${crypto.randomBytes(12).toString('hex')}`;
+    return {
+      providerSessionId,
+      checkoutUrl: `${this.apiBaseUrl}/payments/fake/sessions/${providerSessionId}?amount=${input.amount}&currency=${input.currency}`,
+    };
+  }
+
+  verifyWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent {
+    const header = String(headers[FAKE_SIGNATURE_HEADER] ?? '');
+    const parts = Object.fromEntries(
+      header.split(',').map((p) => p.trim().split('=') as [string, string]),
+    );
+    const timestamp = Number(parts.t);
+    if (!timestamp || !parts.v1)
+      throw new BadRequestException('Missing webhook signature');
+    if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS)
+      throw new BadRequestException('Webhook timestamp is too old');
+    const expected = this.sign(timestamp, rawBody);
+    const given = Buffer.from(String(parts.v1), 'hex');
+    if (
+      given.length !== expected.length ||
+      !crypto.timingSafeEqual(given, expected)
+    )
+      throw new BadRequestException('Invalid webhook signature');
+
+    const body = JSON.parse(rawBody.toString('utf8'));
+    return {
+      id: String(body.id),
+      type: body.type,
+      providerSessionId: body.data?.sessionId,
+      providerPaymentId: body.data?.paymentId,
+      providerRefundId: body.data?.refundId,
+      amount: body.data?.amount,
+      failureReason: body.data?.failureReason,
+    };
+  }
+
+  async refund() {
+    return {
+      providerRefundId: `fake_re_${crypto.randomBytes(12).toString('hex')}`,
+      status: 'succeeded' as const,
+    };
+  }
+
+  /** Build a signed webhook request as the provider would send it. */
+  simulate(event: Omit<PaymentEvent, 'id'>) {
+    const rawBody = Buffer.from(
+      JSON.stringify({
+        id: `fake_evt_${crypto.randomBytes(12).toString('hex')}`,
+        type: event.type,
+        data: {
+          sessionId: event.providerSessionId,
+          paymentId: event.providerPaymentId,
+          refundId: event.providerRefundId,
+          amount: event.amount,
+          failureReason: event.failureReason,
+        },
+      }),
+    );
+    const t = Math.floor(Date.now() / 1000);
+    return {
+      rawBody,
+      headers: {
+        [FAKE_SIGNATURE_HEADER]: `t=${t},v1=${this.sign(t, rawBody).toString('hex')}`,
+      },
+    };
+  }
+
+  private sign(timestamp: number, rawBody: Buffer) {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest();
+  }
+}
@@ -0,0 +1,53 @@
+// src/payments/providers/payment-provider.ts
+
+/** Injection token for the configured PaymentProvider. */
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+export type PaymentEventType =
+  | 'checkout.succeeded'
+  | 'checkout.failed'
+  | 'refund.succeeded'
+  | 'refund.failed';
+
+/** A verified webhook, translated out of the provider's own format. */
+export interface PaymentEvent {
+  id: string;
+  type: PaymentEventType;
+  providerSessionId?: string;
+  providerPaymentId?: string;
+  providerRefundId?: string;
+  amount?: number;
+  failureReason?: string;
+}
+
+export interface CheckoutInput {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  customerEmail: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+/**
+ * What a card processor has to do. Payments, refunds and the PAID
+ * transition are tracked here; a provider only hosts the checkout page,
+ * moves money and reports back through signed webhooks.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(
+    input: CheckoutInput,
+  ): Promise<{ providerSessionId: string; checkoutUrl: string }>;
+  /** Throws when the signature does not match the raw request body. */
+  verifyWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentEvent;
+  refund(input: {
+    providerPaymentId: string;
+    amount: number;
+    reason: string | null;
+  }): Promise<{ providerRefundId: string; status: 'pending' | 'succeeded' }>;
+}
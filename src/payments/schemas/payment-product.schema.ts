@@ -0,0 +1,41 @@
+// src/payments/schemas/payment-product.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type PaymentProductDocument = PaymentProduct & Document;
+
+// case: one payment covers both partners; partner: each partner pays their own
+export const PRODUCT_SCOPES = ['case', 'partner'] as const;
+export type ProductScope = (typeof PRODUCT_SCOPES)[number];
+
+@Schema({ timestamps: true, collection: 'payment_products' })
+export class PaymentProduct {
+  // stable identifier used by the frontend, e.g. "prenup_standard"
+  @Prop({ type: String, required: true, unique: true })
+  code: string;
+
+  @Prop({ type: String, required: true })
+  name: string;
+
+  @Prop({ type: String, default: null })
+  description: string | null;
+
+  @Prop({ type: String, enum: PRODUCT_SCOPES, default: 'case' })
+  scope: ProductScope;
+
+  // minor units (pence)
+  @Prop({ type: Number, required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: String, default: 'GBP' })
+  currency: string;
+
+  @Prop({ type: Boolean, default: true })
+  active: boolean;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PaymentProductSchema =
+  SchemaFactory.createForClass(PaymentProduct);
@@ -0,0 +1,31 @@
+// src/payments/schemas/payment-webhook-event.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PaymentWebhookEventDocument = PaymentWebhookEvent & Document;
+
+// Providers retry webhooks; the unique (provider, eventId) pair makes a
+// redelivered event a no-op.
+@Schema({ timestamps: true, collection: 'payment_webhook_events' })
+export class PaymentWebhookEvent {
+  @Prop({ type: String, required: true })
+  provider: string;
+
+  @Prop({ type: String, required: true })
+  eventId: string;
+
+  @Prop({ type: String, required: true })
+  type: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment', default: null })
+  payment: Types.ObjectId | null;
+
+  @Prop({ type: Date, default: null })
+  processedAt: Date | null;
+
+  createdAt?: Date;
+}
+
+export const PaymentWebhookEventSchema =
+  SchemaFactory.createForClass(PaymentWebhookEvent);
+PaymentWebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
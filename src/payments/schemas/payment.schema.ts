@@ -0,0 +1,111 @@
+// src/payments/schemas/payment.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { CaseParty } from '../../cases/step-ownership';
+import { PRODUCT_SCOPES } from './payment-product.schema';
+import type { ProductScope } from './payment-product.schema';
+
+export type PaymentDocument = Payment & Document;
+
+export const PAYMENT_STATUSES = [
+  'pending',
+  'succeeded',
+  'failed',
+  'partially_refunded',
+  'refunded',
+] as const;
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+@Schema({ _id: true, timestamps: false })
+export class PaymentRefund {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: String, default: null })
+  providerRefundId: string | null;
+
+  @Prop({ type: Number, required: true, min: 1 })
+  amount: number;
+
+  @Prop({ type: String, default: null })
+  reason: string | null;
+
+  @Prop({
+    type: String,
+    enum: ['pending', 'succeeded', 'failed'],
+    required: true,
+  })
+  status: 'pending' | 'succeeded' | 'failed';
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  createdBy: Types.ObjectId | null;
+
+  @Prop({ type: Date, required: true })
+  createdAt: Date;
+
+  @Prop({ type: Date, default: null })
+  settledAt: Date | null;
+}
+export const PaymentRefundSchema = SchemaFactory.createForClass(PaymentRefund);
+
+// One checkout attempt. Amounts are in minor units and copied from the
+// product at checkout time, so later price changes do not rewrite history.
+@Schema({ timestamps: true, collection: 'payments' })
+export class Payment {
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true, index: true })
+  case: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'PaymentProduct', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  productCode: string;
+
+  @Prop({ type: String, enum: PRODUCT_SCOPES, required: true })
+  scope: ProductScope;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  payer: Types.ObjectId;
+
+  // the partner who paid; for case-scope payments this covers both
+  @Prop({ type: String, enum: ['owner', 'invited'], required: true })
+  party: CaseParty;
+
+  @Prop({ type: Number, required: true, min: 0 })
+  amount: number;
+
+  @Prop({ type: String, required: true })
+  currency: string;
+
+  @Prop({ type: String, enum: PAYMENT_STATUSES, default: 'pending' })
+  status: PaymentStatus;
+
+  @Prop({ type: String, required: true })
+  provider: string;
+
+  @Prop({ type: String, required: true, unique: true })
+  providerSessionId: string;
+
+  @Prop({ type: String, default: null, index: true })
+  providerPaymentId: string | null;
+
+  @Prop({ type: String, default: null })
+  checkoutUrl: string | null;
+
+  @Prop({ type: Date, default: null })
+  paidAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  failureReason: string | null;
+
+  @Prop({ type: Number, default: 0 })
+  amountRefunded: number;
+
+  @Prop({ type: [PaymentRefundSchema], default: [] })
+  refunds: PaymentRefund[];
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const PaymentSchema = SchemaFactory.createForClass(Payment);
+PaymentSchema.index({ case: 1, createdAt: -1 });
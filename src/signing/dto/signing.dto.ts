@@ -0,0 +1,87 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  Equals,
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class SignerInputDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsEmail()
+  email: string;
+
+  // for witnesses: the partner whose signature is being witnessed
+  @IsOptional()
+  @IsIn(['owner', 'invited'])
+  party?: 'owner' | 'invited';
+}
+
+export class CreateEnvelopeDto {
+  // defaults to the latest generated agreement
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  agreementVersion?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(4)
+  @ValidateNested({ each: true })
+  @Type(() => SignerInputDto)
+  witnesses?: SignerInputDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(2)
+  @ValidateNested({ each: true })
+  @Type(() => SignerInputDto)
+  lawyers?: SignerInputDto[];
+}
+
+export class SignDto {
+  @IsIn(['typed', 'drawn'])
+  signatureType: 'typed' | 'drawn';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  typedName?: string;
+
+  // PNG data URL
+  @IsOptional()
+  @IsString()
+  @MaxLength(300_000)
+  drawnImage?: string;
+
+  @IsBoolean()
+  @Equals(true, { message: 'You must agree to sign electronically' })
+  consent: boolean;
+}
+
+export class DeclineDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
+
+export class VoidEnvelopeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
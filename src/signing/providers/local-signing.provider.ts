@@ -0,0 +1,135 @@
+// src/signing/providers/local-signing.provider.ts
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { MailService } from '../../mail/mail.service';
+import { ProviderSigner, SealInput, SigningProvider } from './signing-provider';
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+
+// The standard PDF fonts only cover Latin-1.
+const latin1 = (text: string) =>
+  String(text ?? '').replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+/**
+ * Built-in provider: links go out through MailService and the sealed PDF is
+ * the original plus a certificate page, rendered with pdf-lib.
+ */
+export class LocalSigningProvider implements SigningProvider {
+  readonly name = 'local';
+
+  constructor(private mailService: MailService) {}
+
+  async createEnvelope(input: { envelopeId: string }) {
+    return { providerEnvelopeId: `local-${input.envelopeId}` };
+  }
+
+  async notifySigner(input: {
+    caseId: string;
+    signer: ProviderSigner;
+    signingUrl: string;
+    expiresAt: Date;
+  }) {
+    await this.mailService.sendSigningRequest(
+      input.signer.email,
+      input.caseId,
+      {
+        signerName: input.signer.name,
+        link: input.signingUrl,
+        expiresAt: input.expiresAt,
+      },
+    );
+  }
+
+  async voidEnvelope() {
+    // nothing is held outside our own database
+  }
+
+  async seal(input: SealInput): Promise<Buffer> {
+    const pdf = await PDFDocument.load(input.content);
+    const regular = await pdf.embedFont(StandardFonts.Helvetica);
+    const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+    const script = await pdf.embedFont(StandardFonts.TimesRomanItalic);
+
+    let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = PAGE_HEIGHT - MARGIN;
+    const line = (text: string, font: PDFFont = regular, size = 9.5) => {
+      if (y - size < MARGIN) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      page.drawText(latin1(text).slice(0, 110), {
+        x: MARGIN,
+        y: y - size,
+        size,
+        font,
+        color: rgb(0.1, 0.1, 0.1),
+      });
+      y -= size + 4;
+    };
+    const ensure = (height: number) => {
+      if (y - height < MARGIN) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+    };
+
+    line('Signing certificate', bold, 16);
+    y -= 6;
+    line(`Envelope: ${input.envelopeId}`);
+    line(`Case: ${input.caseId}`);
+    line(`Document: ${input.documentName} (version ${input.agreementVersion})`);
+    line(`Document SHA-256: ${input.agreementSha256}`);
+    line(`Sealed: ${new Date().toISOString()}`);
+
+    for (const s of input.signers) {
+      ensure(120);
+      y -= 10;
+      line(`${s.name} - ${s.role}`, bold, 11);
+      line(`Email: ${s.email}`);
+      line(`Signed: ${s.signedAt.toISOString()}`);
+      line(`IP address: ${s.ip ?? 'unknown'}`);
+      line(`User agent: ${s.userAgent ?? 'unknown'}`);
+      line(
+        `Method: ${s.signatureType === 'drawn' ? 'drawn' : 'typed'} signature`,
+      );
+      await this.drawSignature(pdf, page, s, script, y);
+      y -= 48;
+    }
+
+    pdf.setTitle(`${input.documentName} (signed)`);
+    pdf.setSubject(`Sealed by envelope ${input.envelopeId}`);
+    pdf.setKeywords([input.envelopeId, input.agreementSha256]);
+    pdf.setProducer('Wenup signing');
+    pdf.setModificationDate(new Date());
+    return Buffer.from(await pdf.save());
+  }
+
+  private async drawSignature(
+    pdf: PDFDocument,
+    page: PDFPage,
+    s: SealInput['signers'][number],
+    script: PDFFont,
+    y: number,
+  ) {
+    if (s.signatureType === 'drawn' && s.drawnImage) {
+      const base64 = s.drawnImage.replace(/^data:image\/png;base64,/, '');
+      const image = await pdf.embedPng(Buffer.from(base64, 'base64'));
+      const scale = Math.min(180 / image.width, 42 / image.height, 1);
+      page.drawImage(image, {
+        x: MARGIN,
+        y: y - image.height * scale,
+        width: image.width * scale,
+        height: image.height * scale,
+      });
+      return;
+    }
+    page.drawText(latin1(s.typedName ?? s.name), {
+      x: MARGIN,
+      y: y - 24,
+      size: 22,
+      font: script,
+      color: rgb(0.05, 0.1, 0.35),
+    });
+  }
+}
@@ -0,0 +1,56 @@
+// src/signing/providers/signing-provider.ts
+
+/** Injection token for the configured SigningProvider. */
+export const SIGNING_PROVIDER = 'SIGNING_PROVIDER';
+
+export interface ProviderSigner {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  order: number;
+}
+
+export interface SealSigner extends ProviderSigner {
+  signedAt: Date;
+  signatureType: 'typed' | 'drawn';
+  typedName: string | null;
+  drawnImage: string | null;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export interface SealInput {
+  envelopeId: string;
+  caseId: string;
+  documentName: string;
+  agreementVersion: number;
+  agreementSha256: string;
+  content: Buffer;
+  signers: SealSigner[];
+}
+
+/**
+ * What an e-sign backend has to do. The envelope, signing order and audit
+ * trail always live here; a provider only registers envelopes, gets the link
+ * to each signer and produces the sealed PDF.
+ */
+export interface SigningProvider {
+  readonly name: string;
+  createEnvelope(input: {
+    envelopeId: string;
+    caseId: string;
+    documentName: string;
+    signers: ProviderSigner[];
+  }): Promise<{ providerEnvelopeId: string }>;
+  /** `signingUrl` is our tokenised link; an external service may send its own instead. */
+  notifySigner(input: {
+    envelopeId: string;
+    caseId: string;
+    signer: ProviderSigner;
+    signingUrl: string;
+    expiresAt: Date;
+  }): Promise<void>;
+  seal(input: SealInput): Promise<Buffer>;
+  voidEnvelope(providerEnvelopeId: string, reason: string): Promise<void>;
+}
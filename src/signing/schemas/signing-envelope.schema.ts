@@ -0,0 +1,151 @@
+// src/signing/schemas/signing-envelope.schema.ts
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import type { CaseParty } from '../../cases/step-ownership';
+
+export type SigningEnvelopeDocument = SigningEnvelope & Document;
+
+export const SIGNER_ROLES = ['partner', 'witness', 'lawyer'] as const;
+export type SignerRole = (typeof SIGNER_ROLES)[number];
+
+// sealing: every signer has signed and the sealed copy is being produced
+export const ENVELOPE_STATUSES = [
+  'in_progress',
+  'sealing',
+  'completed',
+  'declined',
+  'voided',
+] as const;
+export type EnvelopeStatus = (typeof ENVELOPE_STATUSES)[number];
+
+// waiting: earlier round not finished; sent: has a live link
+export type SignerStatus = 'waiting' | 'sent' | 'signed' | 'declined';
+
+@Schema()
+export class Signer {
+  _id?: Types.ObjectId;
+
+  @Prop({ type: String, enum: SIGNER_ROLES, required: true })
+  role: SignerRole;
+
+  // for partners, which side of the case; for witnesses, whose signature they witness
+  @Prop({ type: String, enum: ['owner', 'invited', null], default: null })
+  party: CaseParty | null;
+
+  @Prop({ type: String, required: true })
+  name: string;
+
+  @Prop({ type: String, required: true })
+  email: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  user: Types.ObjectId | null;
+
+  /** Signers with the same order sign in parallel; lower orders go first. */
+  @Prop({ type: Number, required: true, min: 1 })
+  order: number;
+
+  @Prop({
+    type: String,
+    enum: ['waiting', 'sent', 'signed', 'declined'],
+    default: 'waiting',
+  })
+  status: SignerStatus;
+
+  // sha256 of the link token; the token itself is only ever emailed
+  @Prop({ type: String, default: null, select: false })
+  tokenHash: string | null;
+
+  @Prop({ type: Date, default: null })
+  tokenExpiresAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  sentAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  viewedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  signedAt: Date | null;
+
+  @Prop({ type: String, enum: ['typed', 'drawn', null], default: null })
+  signatureType: 'typed' | 'drawn' | null;
+
+  @Prop({ type: String, default: null })
+  typedName: string | null;
+
+  // PNG data URL of a drawn signature
+  @Prop({ type: String, default: null, select: false })
+  drawnImage: string | null;
+
+  @Prop({ type: String, default: null })
+  ip: string | null;
+
+  @Prop({ type: String, default: null })
+  userAgent: string | null;
+
+  @Prop({ type: String, default: null })
+  declineReason: string | null;
+}
+export const SignerSchema = SchemaFactory.createForClass(Signer);
+
+@Schema({ _id: false })
+export class SealedDocument {
+  @Prop({ type: String, required: true }) fileName: string;
+  @Prop({ type: Number, required: true }) size: number;
+  @Prop({ type: String, required: true }) sha256: string;
+  @Prop({ type: Date, required: true }) sealedAt: Date;
+}
+export const SealedDocumentSchema =
+  SchemaFactory.createForClass(SealedDocument);
+
+// One round of signatures on a fixed agreement version.
+@Schema({ timestamps: true, collection: 'signing_envelopes' })
+export class SigningEnvelope {
+  @Prop({ type: Types.ObjectId, ref: 'Case', required: true, index: true })
+  case: Types.ObjectId;
+
+  @Prop({ type: Number, required: true })
+  agreementVersion: number;
+
+  // hash of the unsigned PDF; signing is refused if it no longer matches
+  @Prop({ type: String, required: true })
+  agreementSha256: string;
+
+  @Prop({ type: String, required: true })
+  provider: string;
+
+  @Prop({ type: String, default: null })
+  providerEnvelopeId: string | null;
+
+  @Prop({ type: String, enum: ENVELOPE_STATUSES, default: 'in_progress' })
+  status: EnvelopeStatus;
+
+  @Prop({ type: [SignerSchema], default: [] })
+  signers: Signer[];
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  createdBy: Types.ObjectId | null;
+
+  @Prop({ type: Date, default: null })
+  completedAt: Date | null;
+
+  @Prop({ type: Date, default: null })
+  voidedAt: Date | null;
+
+  @Prop({ type: String, default: null })
+  voidReason: string | null;
+
+  @Prop({ type: SealedDocumentSchema, default: null })
+  sealed: SealedDocument | null;
+
+  @Prop({ type: Buffer, default: null, select: false })
+  sealedContent: Buffer | null;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const SigningEnvelopeSchema =
+  SchemaFactory.createForClass(SigningEnvelope);
+SigningEnvelopeSchema.index({ 'signers.tokenHash': 1 }, { sparse: true });
@@ -0,0 +1,111 @@
+// src/signing/signing-envelopes.controller.ts
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Param,
+  Post,
+  Req,
+  Res,
+  StreamableFile,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { JwtAuthGuard } from '../common/jwt-auth.guard';
+import { SigningService } from './signing.service';
+import { CreateEnvelopeDto, VoidEnvelopeDto } from './dto/signing.dto';
+
+@Controller('cases/:id/signing-envelopes')
+export class SigningEnvelopesController {
+  constructor(private signingService: SigningService) {}
+  private ensureUser(req: any) {
+    const user = req.user;
+    if (!user) throw new UnauthorizedException('Authentication required');
+    return user;
+  }
+  private ensureStaff(req: any) {
+    const user = this.ensureUser(req);
+    if (!['superadmin', 'admin', 'case_manager'].includes(user.role))
+      throw new ForbiddenException(
+        'Only case managers/admins may manage signing envelopes',
+      );
+    return { id: String(user.id ?? user._id), role: user.role };
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  async list(@Req() req, @Param('id') id: string) {
+    const user = this.ensureUser(req);
+    return this.signingService.list(id, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post()
+  async create(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() body: CreateEnvelopeDto,
+  ) {
+    return this.signingService.create(id, body, this.ensureStaff(req));
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':envelopeId')
+  async get(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('envelopeId') envelopeId: string,
+  ) {
+    const user = this.ensureUser(req);
+    return this.signingService.get(id, envelopeId, user);
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post(':envelopeId/void')
+  async void(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('envelopeId') envelopeId: string,
+    @Body() body: VoidEnvelopeDto,
+  ) {
+    return this.signingService.void(
+      id,
+      envelopeId,
+      body.reason,
+      this.ensureStaff(req),
+    );
+  }
+  @UseGuards(JwtAuthGuard)
+  @Post(':envelopeId/signers/:signerId/resend')
+  async resend(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('envelopeId') envelopeId: string,
+    @Param('signerId') signerId: string,
+  ) {
+    return this.signingService.resend(
+      id,
+      envelopeId,
+      signerId,
+      this.ensureStaff(req),
+    );
+  }
+  @UseGuards(JwtAuthGuard)
+  @Get(':envelopeId/sealed')
+  async sealed(
+    @Req() req,
+    @Param('id') id: string,
+    @Param('envelopeId') envelopeId: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const user = this.ensureUser(req);
+    const file = await this.signingService.sealedFile(id, envelopeId, user);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      length: file.content.length,
+    });
+  }
+}
@@ -0,0 +1,61 @@
+// src/signing/signing.controller.ts
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { SigningService } from './signing.service';
+import type { SigningContext } from './signing.service';
+import { DeclineDto, SignDto } from './dto/signing.dto';
+
+/**
+ * Signer-facing routes. No login: the token in the link is the credential,
+ * and it stops working once the signer has signed or declined.
+ */
+@Controller('signing')
+export class SigningController {
+  constructor(private signingService: SigningService) {}
+  private context(req: Request): SigningContext {
+    const ua = req.headers['user-agent'];
+    return { ip: req.ip ?? null, userAgent: ua ? String(ua) : null };
+  }
+  @Get(':token')
+  async view(@Param('token') token: string) {
+    return this.signingService.viewForSigner(token);
+  }
+  @Get(':token/document')
+  async document(
+    @Param('token') token: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const file = await this.signingService.documentForSigner(token);
+    res.setHeader('Content-Disposition', `inline; filename="${file.fileName}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      length: file.content.length,
+    });
+  }
+  @Post(':token/sign')
+  async sign(
+    @Req() req: Request,
+    @Param('token') token: string,
+    @Body() body: SignDto,
+  ) {
+    return this.signingService.sign(token, body, this.context(req));
+  }
+  @Post(':token/decline')
+  async decline(
+    @Req() req: Request,
+    @Param('token') token: string,
+    @Body() body: DeclineDto,
+  ) {
+    return this.signingService.decline(token, body?.reason, this.context(req));
+  }
+}
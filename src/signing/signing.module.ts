@@ -0,0 +1,48 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import {
+  SigningEnvelope,
+  SigningEnvelopeSchema,
+} from './schemas/signing-envelope.schema';
+import {
+  AgreementDocument,
+  AgreementDocumentSchema,
+} from '../agreements/schemas/agreement-document.schema';
+import { Case, CaseSchema } from '../cases/schemas/case.schema';
+import { CasesModule } from '../cases/cases.module';
+import { MailModule } from '../mail/mail.module';
+import { MailService } from '../mail/mail.service';
+import { SigningService } from './signing.service';
+import { SigningController } from './signing.controller';
+import { SigningEnvelopesController } from './signing-envelopes.controller';
+import { SIGNING_PROVIDER } from './providers/signing-provider';
+import { LocalSigningProvider } from './providers/local-signing.provider';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SigningEnvelope.name, schema: SigningEnvelopeSchema },
+      { name: AgreementDocument.name, schema: AgreementDocumentSchema },
+      { name: Case.name, schema: CaseSchema },
+    ]),
+    CasesModule,
+    MailModule,
+  ],
+  providers: [
+    SigningService,
+    {
+      // external e-sign services implement SigningProvider and are picked here
+      provide: SIGNING_PROVIDER,
+      inject: [ConfigService, MailService],
+      useFactory: (config: ConfigService, mail: MailService) => {
+        const provider = config.get<string>('SIGNING_PROVIDER') || 'local';
+        if (provider === 'local') return new LocalSigningProvider(mail);
+        throw new Error(`Unknown SIGNING_PROVIDER "${provider}"`);
+      },
+    },
+  ],
+  controllers: [SigningEnvelopesController, SigningController],
+  exports: [SigningService],
+})
+export class SigningModule {}
@@ -0,0 +1,708 @@
+// src/signing/signing.service.ts
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import crypto from 'crypto';
+import { Case, CaseDocument } from '../cases/schemas/case.schema';
+import { CaseAuditService } from '../cases/case-audit.service';
+import { partyOf } from '../cases/step-ownership';
+import {
+  AgreementDocument,
+  AgreementDocumentDocument,
+} from '../agreements/schemas/agreement-document.schema';
+import { MailService } from '../mail/mail.service';
+import {
+  Signer,
+  SigningEnvelope,
+  SigningEnvelopeDocument,
+} from './schemas/signing-envelope.schema';
+import { SIGNING_PROVIDER } from './providers/signing-provider';
+import type {
+  ProviderSigner,
+  SigningProvider,
+} from './providers/signing-provider';
+import type { CreateEnvelopeDto, SignDto } from './dto/signing.dto';
+
+/** Where a signing action came from, for the certificate and audit log. */
+export interface SigningContext {
+  ip: string | null;
+  userAgent: string | null;
+}
+
+// partners sign first, then witnesses and lawyers together
+const ROUND: Record<Signer['role'], number> = {
+  partner: 1,
+  witness: 2,
+  lawyer: 2,
+};
+const PNG_DATA_URL = /^data:image\/png;base64,([A-Za-z0-9+/=]+)$/;
+const MAX_DRAWN_BYTES = 200 * 1024;
+const USER_FIELDS = 'firstName lastName email';
+
+@Injectable()
+export class SigningService {
+  private readonly logger = new Logger(SigningService.name);
+
+  constructor(
+    @InjectModel(SigningEnvelope.name)
+    private envelopeModel: Model<SigningEnvelopeDocument>,
+    @InjectModel(AgreementDocument.name)
+    private agreementModel: Model<AgreementDocumentDocument>,
+    @InjectModel(Case.name) private caseModel: Model<CaseDocument>,
+    @Inject(SIGNING_PROVIDER) private provider: SigningProvider,
+    private config: ConfigService,
+    private mailService: MailService,
+    private audit: CaseAuditService,
+  ) {}
+
+  private get tokenTtlDays(): number {
+    return Number(this.config.get('SIGNING_TOKEN_TTL_DAYS') || 14);
+  }
+
+  // ---------------- case-side (authenticated) -----------------
+
+  /**
+   * Open an envelope on one agreement version. Both partners must have
+   * approved the case, and a case has at most one envelope in progress.
+   */
+  async create(
+    caseId: string,
+    dto: CreateEnvelopeDto,
+    actor: { id: string; role: string },
+  ) {
+    const c: any = await this.loadCase(caseId, true);
+    const approval = c.approval ?? {};
+    if (!approval.user1Approved || !approval.user2Approved)
+      throw new BadRequestException(
+        'Both partners must approve the case before it is sent for signature',
+      );
+    if (!c.owner?.email || !c.invitedUser?.email)
+      throw new BadRequestException('Both partners must have joined the case');
+    const active = await this.envelopeModel.exists({
+      case: c._id,
+      status: { $in: ['in_progress', 'sealing'] },
+    });
+    if (active)
+      throw new ConflictException(
+        'An envelope is already in progress for this case; void it first',
+      );
+
+    const q: any = { case: c._id };
+    if (dto?.agreementVersion !== undefined) q.version = dto.agreementVersion;
+    const agreement = await this.agreementModel
+      .findOne(q)
+      .sort({ version: -1 })
+      .lean()
+      .exec();
+    if (!agreement) throw new NotFoundException('Agreement document not found');
+
+    const fullName = (u: any) =>
+      [u.firstName, u.lastName].filter(Boolean).join(' ') || u.email;
+    const signers: Partial<Signer>[] = [
+      {
+        role: 'partner',
+        party: 'owner',
+        name: fullName(c.owner),
+        email: c.owner.email,
+        user: c.owner._id,
+        order: ROUND.partner,
+      },
+      {
+        role: 'partner',
+        party: 'invited',
+        name: fullName(c.invitedUser),
+        email: c.invitedUser.email,
+        user: c.invitedUser._id,
+        order: ROUND.partner,
+      },
+      ...(dto?.witnesses ?? []).map((w) => ({
+        role: 'witness' as const,
+        party: w.party ?? null,
+        name: w.name.trim(),
+        email: w.email.trim().toLowerCase(),
+        order: ROUND.witness,
+      })),
+      ...(dto?.lawyers ?? []).map((l) => ({
+        role: 'lawyer' as const,
+        name: l.name.trim(),
+        email: l.email.trim().toLowerCase(),
+        order: ROUND.lawyer,
+      })),
+    ];
+
+    const envelope = new this.envelopeModel({
+      case: c._id,
+      agreementVersion: agreement.version,
+      agreementSha256: agreement.sha256,
+      provider: this.provider.name,
+      signers,
+      createdBy: this.toObjectId(actor.id),
+    });
+    const registered = await this.provider.createEnvelope({
+      envelopeId: String(envelope._id),
+      caseId: String(c._id),
+      documentName: agreement.fileName,
+      signers: envelope.signers.map((s) => this.toProviderSigner(s)),
+    });
+    envelope.providerEnvelopeId = registered.providerEnvelopeId;
+    const links = this.startNextRound(envelope);
+    await envelope.save();
+    await this.audit.record({
+      caseId,
+      action: 'signing.envelope_created',
+      actorId: actor.id,
+      actorRole: actor.role,
+      meta: {
+        envelopeId: String(envelope._id),
+        agreementVersion: agreement.version,
+        provider: this.provider.name,
+        signers: envelope.signers.map((s) => ({
+          role: s.role,
+          email: s.email,
+          order: s.order,
+        })),
+      },
+    });
+    await this.sendLinks(envelope, links);
+    return this.toView(envelope.toObject());
+  }
+
+  async list(caseId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    this.assertMember(c, user);
+    const docs = await this.envelopeModel
+      .find({ case: c._id })
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+    return { total: docs.length, docs: docs.map((d) => this.toView(d)) };
+  }
+
+  async get(caseId: string, envelopeId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    this.assertMember(c, user);
+    const envelope = await this.loadEnvelope(c._id, envelopeId);
+    return this.toView(envelope.toObject());
+  }
+
+  async void(
+    caseId: string,
+    envelopeId: string,
+    reason: string,
+    actor: { id: string; role: string },
+  ) {
+    const c = await this.loadCase(caseId);
+    const envelope = await this.loadEnvelope(c._id, envelopeId);
+    if (envelope.status !== 'in_progress')
+      throw new BadRequestException(`Envelope is already ${envelope.status}`);
+    envelope.status = 'voided';
+    envelope.voidedAt = new Date();
+    envelope.voidReason = reason.trim();
+    this.revokeLinks(envelope);
+    await envelope.save();
+    await this.provider.voidEnvelope(
+      envelope.providerEnvelopeId ?? '',
+      envelope.voidReason,
+    );
+    await this.audit.record({
+      caseId,
+      action: 'signing.envelope_voided',
+      actorId: actor.id,
+      actorRole: actor.role,
+      meta: { envelopeId, reason: envelope.voidReason },
+    });
+    return this.toView(envelope.toObject());
+  }
+
+  /** Issue a fresh link to a signer whose turn it is, e.g. after the old one expired. */
+  async resend(
+    caseId: string,
+    envelopeId: string,
+    signerId: string,
+    actor: { id: string; role: string },
+  ) {
+    const c = await this.loadCase(caseId);
+    const envelope = await this.loadEnvelope(c._id, envelopeId);
+    if (envelope.status !== 'in_progress')
+      throw new BadRequestException(`Envelope is ${envelope.status}`);
+    const signer = envelope.signers.find((s) => String(s._id) === signerId);
+    if (!signer) throw new NotFoundException('Signer not found');
+    if (signer.status !== 'sent')
+      throw new BadRequestException(
+        signer.status === 'waiting'
+          ? 'It is not this signer’s turn yet'
+          : `Signer has already ${signer.status}`,
+      );
+    const token = this.issueToken(signer);
+    await envelope.save();
+    await this.audit.record({
+      caseId,
+      action: 'signing.link_resent',
+      actorId: actor.id,
+      actorRole: actor.role,
+      meta: { envelopeId, signerId, email: signer.email },
+    });
+    await this.sendLinks(envelope, [{ signer, token }]);
+    return this.toView(envelope.toObject());
+  }
+
+  async sealedFile(caseId: string, envelopeId: string, user: any) {
+    const c = await this.loadCase(caseId);
+    this.assertMember(c, user);
+    const envelope = await this.envelopeModel
+      .findOne({ _id: envelopeId, case: c._id })
+      .select('+sealedContent')
+      .lean()
+      .exec();
+    if (!envelope) throw new NotFoundException('Envelope not found');
+    if (envelope.status !== 'completed' || !envelope.sealedContent)
+      throw new BadRequestException('Envelope has not been completed');
+    await this.audit.record({
+      caseId,
+      action: 'signing.sealed_downloaded',
+      meta: { envelopeId },
+    });
+    return {
+      fileName: envelope.sealed!.fileName,
+      contentType: 'application/pdf',
+      content: Buffer.from(
+        (envelope.sealedContent as any).buffer ?? envelope.sealedContent,
+      ),
+    };
+  }
+
+  // ---------------- signer-side (token) -----------------
+
+  /** What a signer sees when they open their link; the first open is recorded. */
+  async viewForSigner(token: string) {
+    const { envelope, signer } = await this.findByToken(token);
+    if (!signer.viewedAt) {
+      signer.viewedAt = new Date();
+      await envelope.save();
+    }
+    const agreement = await this.agreementModel
+      .findOne({ case: envelope.case, version: envelope.agreementVersion })
+      .select('fileName')
+      .lean()
+      .exec();
+    return {
+      envelopeId: String(envelope._id),
+      caseId: String(envelope.case),
+      documentName: agreement?.fileName ?? null,
+      agreementVersion: envelope.agreementVersion,
+      agreementSha256: envelope.agreementSha256,
+      signer: { name: signer.name, role: signer.role, status: signer.status },
+      signers: envelope.signers.map((s) => ({
+        name: s.name,
+        role: s.role,
+        order: s.order,
+        status: s.status,
+      })),
+      expiresAt: signer.tokenExpiresAt,
+    };
+  }
+
+  async documentForSigner(token: string) {
+    const { envelope } = await this.findByToken(token);
+    const agreement = await this.loadAgreementContent(envelope);
+    return {
+      fileName: agreement.fileName,
+      contentType: 'application/pdf',
+      content: agreement.content,
+    };
+  }
+
+  async sign(token: string, dto: SignDto, ctx: SigningContext) {
+    const { envelope, signer } = await this.findByToken(token);
+    const set: Record<string, any> = {
+      'signers.$.status': 'signed',
+      'signers.$.signatureType': dto.signatureType,
+      'signers.$.signedAt': new Date(),
+      'signers.$.ip': ctx.ip,
+      'signers.$.userAgent': ctx.userAgent?.slice(0, 500) ?? null,
+      'signers.$.tokenHash': null,
+    };
+    if (dto.signatureType === 'typed') {
+      const typed = dto.typedName?.trim();
+      if (!typed) throw new BadRequestException('typedName is required');
+      set['signers.$.typedName'] = typed;
+    } else {
+      set['signers.$.drawnImage'] = this.validateDrawing(dto.drawnImage);
+    }
+    // the document must still be byte-for-byte what the envelope was opened on
+    await this.loadAgreementContent(envelope);
+    // Signers in the same round may sign at once, so only this signer's entry
+    // is written, and the next round or completion is decided on the stored
+    // envelope as it stands right after that write.
+    const signed = await this.envelopeModel
+      .findOneAndUpdate(
+        {
+          _id: envelope._id,
+          status: 'in_progress',
+          signers: { $elemMatch: { _id: signer._id, status: 'sent' } },
+        },
+        { $set: set },
+        { new: true },
+      )
+      .exec();
+    const me = signed?.signers.find(
+      (s) => String(s._id) === String(signer._id),
+    );
+    if (!signed || !me)
+      throw new BadRequestException('This signing link is no longer active');
+    const links = await this.claimNextRound(signed);
+    await this.audit.record({
+      caseId: signed.case,
+      action: 'signing.signed',
+      actorId: me.user ?? null,
+      actorRole: me.role,
+      meta: {
+        envelopeId: String(signed._id),
+        signerId: String(me._id),
+        email: me.email,
+        signatureType: me.signatureType,
+        ip: me.ip,
+        userAgent: me.userAgent,
+      },
+    });
+    await this.sendLinks(signed, links);
+    if (signed.signers.every((s) => s.status === 'signed'))
+      await this.complete(signed);
+    return { status: me.status, envelopeStatus: signed.status };
+  }
+
+  async decline(
+    token: string,
+    reason: string | undefined,
+    ctx: SigningContext,
+  ) {
+    const { envelope, signer } = await this.findByToken(token);
+    signer.status = 'declined';
+    signer.declineReason = reason?.trim() || null;
+    signer.ip = ctx.ip;
+    signer.userAgent = ctx.userAgent?.slice(0, 500) ?? null;
+    envelope.status = 'declined';
+    this.revokeLinks(envelope);
+    await envelope.save();
+    await this.provider.voidEnvelope(
+      envelope.providerEnvelopeId ?? '',
+      `Declined by ${signer.email}`,
+    );
+    await this.audit.record({
+      caseId: envelope.case,
+      action: 'signing.declined',
+      actorId: signer.user ?? null,
+      actorRole: signer.role,
+      meta: {
+        envelopeId: String(envelope._id),
+        signerId: String(signer._id),
+        reason: signer.declineReason,
+      },
+    });
+    return { status: signer.status, envelopeStatus: envelope.status };
+  }
+
+  // ---------------- internals -----------------
+
+  // Give links to the next round once everyone in the earlier rounds has signed.
+  private startNextRound(envelope: SigningEnvelopeDocument) {
+    const pending = envelope.signers.filter((s) => s.status !== 'signed');
+    if (!pending.length) return [];
+    const round = Math.min(...pending.map((s) => s.order));
+    return pending
+      .filter((s) => s.order === round && s.status === 'waiting')
+      .map((signer) => ({ signer, token: this.issueToken(signer) }));
+  }
+
+  // A link is only sent by the caller whose update moves that signer out of
+  // 'waiting', so signers finishing a round together open the next one once.
+  private async claimNextRound(envelope: SigningEnvelopeDocument) {
+    const claimed: { signer: Signer; token: string }[] = [];
+    for (const link of this.startNextRound(envelope)) {
+      const { signer } = link;
+      const res = await this.envelopeModel
+        .updateOne(
+          {
+            _id: envelope._id,
+            status: 'in_progress',
+            signers: { $elemMatch: { _id: signer._id, status: 'waiting' } },
+          },
+          {
+            $set: {
+              'signers.$.status': 'sent',
+              'signers.$.tokenHash': signer.tokenHash,
+              'signers.$.tokenExpiresAt': signer.tokenExpiresAt,
+              'signers.$.sentAt': signer.sentAt,
+            },
+          },
+        )
+        .exec();
+      if (res.modifiedCount) claimed.push(link);
+    }
+    return claimed;
+  }
+
+  private issueToken(signer: Signer) {
+    const token = crypto.randomBytes(32).toString('base64url');
+    signer.tokenHash = this.hashToken(token);
+    signer.tokenExpiresAt = new Date(
+      Date.now() + this.tokenTtlDays * 24 * 3600 * 1000,
+    );
+    signer.status = 'sent';
+    signer.sentAt = new Date();
+    return token;
+  }
+
+  private revokeLinks(envelope: SigningEnvelopeDocument) {
+    for (const s of envelope.signers) s.tokenHash = null;
+  }
+
+  private async sendLinks(
+    envelope: SigningEnvelopeDocument,
+    links: { signer: Signer; token: string }[],
+  ) {
+    for (const { signer, token } of links) {
+      try {
+        await this.provider.notifySigner({
+          envelopeId: String(envelope._id),
+          caseId: String(envelope.case),
+          signer: this.toProviderSigner(signer),
+          signingUrl: this.signingUrl(token),
+          expiresAt: signer.tokenExpiresAt!,
+        });
+      } catch (err) {
+        this.logger.error(
+          `Could not send signing link to ${signer.email} for envelope ${envelope._id}`,
+          err as any,
+        );
+      }
+    }
+  }
+
+  private async complete(envelope: SigningEnvelopeDocument) {
+    // whoever moves the envelope to 'sealing' seals it; other signers stop here
+    const claim = await this.envelopeModel
+      .updateOne(
+        {
+          _id: envelope._id,
+          status: 'in_progress',
+          signers: { $not: { $elemMatch: { status: { $ne: 'signed' } } } },
+        },
+        { $set: { status: 'sealing' } },
+      )
+      .exec();
+    if (!claim.modifiedCount) return;
+    try {
+      await this.seal(envelope);
+    } catch (err) {
+      await this.envelopeModel
+        .updateOne(
+          { _id: envelope._id, status: 'sealing' },
+          { $set: { status: 'in_progress' } },
+        )
+        .exec();
+      throw err;
+    }
+  }
+
+  private async seal(envelope: SigningEnvelopeDocument) {
+    const agreement = await this.loadAgreementContent(envelope);
+    const withImages = await this.envelopeModel
+      .findById(envelope._id)
+      .select('+signers.drawnImage')
+      .lean()
+      .exec();
+    const sealed = await this.provider.seal({
+      envelopeId: String(envelope._id),
+      caseId: String(envelope.case),
+      documentName: agreement.fileName,
+      agreementVersion: envelope.agreementVersion,
+      agreementSha256: envelope.agreementSha256,
+      content: agreement.content,
+      signers: (withImages?.signers ?? []).map((s) => ({
+        ...this.toProviderSigner(s),
+        signedAt: s.signedAt!,
+        signatureType: s.signatureType ?? 'typed',
+        typedName: s.typedName ?? null,
+        drawnImage: s.drawnImage ?? null,
+        ip: s.ip ?? null,
+        userAgent: s.userAgent ?? null,
+      })),
+    });
+    const sha256 = crypto.createHash('sha256').update(sealed).digest('hex');
+    envelope.status = 'completed';
+    envelope.completedAt = new Date();
+    envelope.sealed = {
+      fileName: agreement.fileName.replace(/\.pdf$/i, '') + '-signed.pdf',
+      size: sealed.length,
+      sha256,
+      sealedAt: envelope.completedAt,
+    };
+    envelope.sealedContent = sealed;
+    await envelope.save();
+    await this.audit.record({
+      caseId: envelope.case,
+      action: 'signing.completed',
+      meta: { envelopeId: String(envelope._id), sha256 },
+    });
+    const partners = envelope.signers
+      .filter((s) => s.role === 'partner')
+      .map((s) => s.email);
+    await this.mailService.sendSigningCompleted(
+      partners,
+      String(envelope.case),
+      this.apiUrl(
+        `/cases/${envelope.case}/signing-envelopes/${envelope._id}/sealed`,
+      ),
+    );
+  }
+
+  private async findByToken(token: string) {
+    if (!token || token.length < 20)
+      throw new NotFoundException('Signing link not found');
+    const tokenHash = this.hashToken(token);
+    const envelope = await this.envelopeModel
+      .findOne({ 'signers.tokenHash': tokenHash })
+      .select('+signers.tokenHash');
+    const signer = envelope?.signers.find((s) => s.tokenHash === tokenHash);
+    if (!envelope || !signer)
+      throw new NotFoundException('Signing link not found');
+    if (envelope.status !== 'in_progress' || signer.status !== 'sent')
+      throw new BadRequestException('This signing link is no longer active');
+    if (!signer.tokenExpiresAt || signer.tokenExpiresAt < new Date())
+      throw new BadRequestException('This signing link has expired');
+    return { envelope, signer };
+  }
+
+  private async loadAgreementContent(envelope: SigningEnvelope) {
+    const doc = await this.agreementModel
+      .findOne({ case: envelope.case, version: envelope.agreementVersion })
+      .select('+content')
+      .lean()
+      .exec();
+    if (!doc) throw new NotFoundException('Agreement document not found');
+    const content = Buffer.from((doc.content as any).buffer ?? doc.content);
+    const sha256 = crypto.createHash('sha256').update(content).digest('hex');
+    if (sha256 !== envelope.agreementSha256)
+      throw new ConflictException(
+        'The agreement document no longer matches the envelope',
+      );
+    return { fileName: doc.fileName, content };
+  }
+
+  private validateDrawing(dataUrl?: string) {
+    const m = PNG_DATA_URL.exec(dataUrl ?? '');
+    if (!m) throw new BadRequestException('drawnImage must be a PNG data URL');
+    const bytes = Buffer.from(m[1], 'base64');
+    if (bytes.length > MAX_DRAWN_BYTES)
+      throw new BadRequestException('drawnImage is too large');
+    if (bytes.subarray(0, 4).toString('hex') !== '89504e47')
+      throw new BadRequestException('drawnImage is not a PNG');
+    return dataUrl!;
+  }
+
+  private hashToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private signingUrl(token: string) {
+    const base =
+      this.config.get<string>('SIGNING_URL_BASE') ||
+      `${this.config.get('APP_SERVER_URL')}/signing`;
+    return `${base.replace(/\/$/, '')}/${token}`;
+  }
+
+  private apiUrl(path: string) {
+    const base = (
+      this.config.get<string>('API_PUBLIC_URL') ||
+      `http://localhost:${process.env.PORT || 5000}/${process.env.GLOBAL_PREFIX || 'api'}`
+    ).replace(/\/$/, '');
+    return `${base}${path}`;
+  }
+
+  private async loadCase(caseId: string, withUsers = false) {
+    if (!Types.ObjectId.isValid(caseId))
+      throw new BadRequestException('Invalid case id');
+    let q = this.caseModel.findById(caseId);
+    if (withUsers) q = q.populate('owner invitedUser', USER_FIELDS);
+    const c = await q.lean().exec();
+    if (!c) throw new NotFoundException('Case not found');
+    return c;
+  }
+
+  private async loadEnvelope(caseObjId: Types.ObjectId, envelopeId: string) {
+    if (!Types.ObjectId.isValid(envelopeId))
+      throw new BadRequestException('Invalid envelope id');
+    const envelope = await this.envelopeModel
+      .findOne({ _id: envelopeId, case: caseObjId })
+      .exec();
+    if (!envelope) throw new NotFoundException('Envelope not found');
+    return envelope;
+  }
+
+  private assertMember(c: any, user: any) {
+    if (this.isPrivilegedRole(user?.role)) return;
+    if (!partyOf(c, user?.id ?? user?._id))
+      throw new ForbiddenException('Forbidden');
+  }
+
+  private toProviderSigner(s: any): ProviderSigner {
+    return {
+      id: String(s._id),
+      name: s.name,
+      email: s.email,
+      role: s.role,
+      order: s.order,
+    };
+  }
+
+  private toView(e: any) {
+    return {
+      id: String(e._id),
+      caseId: String(e.case),
+      agreementVersion: e.agreementVersion,
+      agreementSha256: e.agreementSha256,
+      provider: e.provider,
+      status: e.status,
+      signers: (e.signers ?? []).map((s: any) => ({
+        id: String(s._id),
+        role: s.role,
+        party: s.party ?? null,
+        name: s.name,
+        email: s.email,
+        order: s.order,
+        status: s.status,
+        sentAt: s.sentAt ?? null,
+        viewedAt: s.viewedAt ?? null,
+        signedAt: s.signedAt ?? null,
+        signatureType: s.signatureType ?? null,
+        ip: s.ip ?? null,
+        declineReason: s.declineReason ?? null,
+      })),
+      sealed: e.sealed ?? null,
+      createdAt: e.createdAt,
+      completedAt: e.completedAt ?? null,
+      voidedAt: e.voidedAt ?? null,
+      voidReason: e.voidReason ?? null,
+    };
+  }
+
+  private toObjectId(id: any): Types.ObjectId | null {
+    return id && Types.ObjectId.isValid(String(id))
+      ? new Types.ObjectId(String(id))
+      : null;
+  }
+
+  private isPrivilegedRole(role?: string) {
+    return role === 'superadmin' || role === 'admin' || role === 'case_manager';
+  }
+}
@@ -28,11 +28,15 @@ export class User {
 
   @Prop({
     type: String,
-    enum: ['superadmin', 'admin', 'case_manager', 'end_user'],
+    enum: ['superadmin', 'admin', 'case_manager', 'end_user', 'lawyer'],
     default: 'end_user',
   })
   role: string;
 
+  // for role 'lawyer': the panel record this account acts as
+  @Prop({ type: Types.ObjectId, ref: 'Lawyer', default: null })
+  lawyer?: Types.ObjectId | null;
+
   @Prop({
     type: String,
     enum: ['user1', 'user2'],
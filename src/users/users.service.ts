@@ -81,6 +81,41 @@ export class UsersService {
       .exec();
   }
 
+  // The login linked to a panel lawyer, if one has been created
+  async findByLawyer(lawyerId: string | Types.ObjectId) {
+    if (!Types.ObjectId.isValid(String(lawyerId))) return null;
+    return this.userModel
+      .findOne({ role: 'lawyer', lawyer: new Types.ObjectId(String(lawyerId)) })
+      .select('email role lawyer')
+      .lean()
+      .exec();
+  }
+
+  // Contact details for several users at once (e.g. notification recipients)
+  async findContactsByIds(ids: (string | Types.ObjectId)[]) {
+    const valid = ids.filter((id) => Types.ObjectId.isValid(String(id)));
+    if (!valid.length) return [];
+    return this.userModel
+      .find({ _id: { $in: valid.map((id) => new Types.ObjectId(String(id))) } })
+      .select('firstName lastName email role')
+      .lean()
+      .exec();
+  }
+
+  // Ids of users whose email or name contains `text` (case-insensitive)
+  async findIdsBySearch(text: string, limit = 500): Promise<Types.ObjectId[]> {
+    const term = (text ?? '').trim();
+    if (!term) return [];
+    const rx = new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    const users = await this.userModel
+      .find({ $or: [{ email: rx }, { firstName: rx }, { lastName: rx }] })
+      .select('_id')
+      .limit(limit)
+      .lean()
+      .exec();
+    return users.map((u) => u._id as Types.ObjectId);
+  }
+
   // Hash password
   async hashPassword(password: string): Promise<string> {
     if (!password)